@@ -1,33 +1,112 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import audioTranscriptionService from '../lib/websocket';
+import audioTranscriptionService, { BackpressureState, ReconnectState } from '../lib/websocket';
+import { AudioChannel, TranscriptEvent } from '../lib/protocol';
 import CheckConfig from './CheckConfig';
-// 使用常量代替从npm包导入
-const NOISE_SUPPRESSOR_WORKLET_NAME = 'NoiseSuppressorWorklet';
+import { DEFAULT_TARGET_LANGUAGES, getLanguageLabel } from '../lib/translations';
+import {
+  PcmChunk,
+  PcmEncoder,
+  createPcmEncoder,
+  PCM_TARGET_SAMPLE_RATE,
+  CHUNK_DURATION_OPTIONS,
+  DEFAULT_CHUNK_DURATION
+} from '../lib/pcmEncoder';
+import { NoiseSuppressor, createNoiseSuppressor, RNNOISE_SAMPLE_RATE } from '../lib/noiseSuppressor';
+import {
+  AudioMixer,
+  AudioSourceKind,
+  createAudioMixer,
+  DEFAULT_SOURCE_GAIN,
+  MIN_SOURCE_GAIN,
+  MAX_SOURCE_GAIN
+} from '../lib/audioMixer';
+import { VadLevel } from '../lib/vad';
+import {
+  SpeechGate,
+  SpeechGateAction,
+  createSpeechGate,
+  DEFAULT_SPEECH_GATE_OPTIONS,
+  PRE_ROLL_OPTIONS,
+  HANGOVER_OPTIONS
+} from '../lib/speechGate';
+import { AUDIO_FILE_ACCEPT, FilePacing, decodeAudioFile, streamAudioFile } from '../lib/audioFile';
+import { createSessionRecorder, createStreamTimeline } from '../lib/sessionRecorder';
+import {
+  BackpressurePolicy,
+  BACKPRESSURE_POLICIES,
+  DEFAULT_BACKPRESSURE_POLICY,
+  EnqueueAudioOptions
+} from '../lib/audioResendQueue';
+import { DEFAULT_OPUS_BITRATE, OPUS_BITRATE_OPTIONS } from '../lib/opusEncoder';
+import { useConnectionHealth } from '../lib/connectionHealth';
+
+// RNNoise语音概率高于此值的音频块视为人声
+const RNNOISE_VOICE_THRESHOLD = 0.5;
+
+// 已写入本地录音的音频块
+interface RecordedChunk extends PcmChunk {
+  recordingOffset: number;          // 在本地录音中的起始位置（秒）
+  isVoice: boolean;                 // 语音检测结果，门控补发的静音块为false
+  capturedAt: number;               // 采集开始时间（Unix毫秒）
+}
+
+// 一路采集链路：（可选）RNNoise降噪 -> PCM编码 -> 语音门控
+interface CaptureChannel {
+  channel?: AudioChannel;           // 双通道模式下的通道标签，混合模式为空
+  encoder: PcmEncoder;
+  gate: SpeechGate<RecordedChunk>;
+  noiseSuppressor: NoiseSuppressor | null;
+  voiceProbability: number;         // 上一个音频块以来RNNoise报告的最大语音概率
+  silenceMs: number;                // 累计的静音时长（毫秒），用于自动暂停
+}
+
+const SOURCE_LABELS: Record<AudioSourceKind, string> = {
+  microphone: '麦克风（本人）',
+  system: '系统声音（远程参会者）'
+};
+
+type AudioSourceOption = 'microphone' | 'system' | 'both' | 'file';
+
+const BACKPRESSURE_POLICY_LABELS: Record<BackpressurePolicy, string> = {
+  drop_oldest: '丢弃最早的音频',
+  drop_silence: '优先丢弃静音',
+  pause_capture: '暂停采集'
+};
+
+// 文件转写进度至少每隔这么久（媒体时间，毫秒）刷新一次界面
+const FILE_PROGRESS_STEP_MS = 1000;
+
+// 文件转写的媒体时钟：把转写结果的时间戳换算为媒体时间
+interface MediaClock {
+  epochMs: number;           // 媒体时间零点对应的时刻（开始发送文件的时间）
+  recordingStart: number;    // 文件在本地录音中的起始位置（秒）
+}
+
+// 毫秒 -> mm:ss
+const formatMediaTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
 
 interface AudioRecorderProps {
-  onTranscriptionResult: (
-    text: string, 
-    refinedText?: string, 
-    translation?: string, 
-    timestamp?: number, 
-    isKeywordMatch?: boolean,
-    isContinuation?: boolean,
-    continuationReason?: string,
-    matchedKeywords?: string[],
-    matchReason?: string
-  ) => void;
+  // 转发前audioStart/audioEnd已换算为本地录音中的位置（秒）
+  onTranscriptionResult: (event: TranscriptEvent) => void;
   onRecordingStateChange?: (isRecording: boolean) => void;
+  onRecordingAvailable?: (recording: Blob) => void;  // 每次停止后提供截至目前的完整录音（WAV）
   language: string;
   modelType: string;
-  targetLanguage?: string;
+  targetLanguages?: string[];  // 翻译目标语言，第一个为主翻译
 }
 
 const AudioRecorder: React.FC<AudioRecorderProps> = ({
   onTranscriptionResult,
   onRecordingStateChange,
+  onRecordingAvailable,
   language = 'zh',
   modelType = 'tiny',
-  targetLanguage = 'en',
+  targetLanguages = DEFAULT_TARGET_LANGUAGES,
 }) => {
   const [isConnected, setIsConnected] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
@@ -35,21 +114,57 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   const [selectedDevice, setSelectedDevice] = useState<string>('');
   const [audioLevel, setAudioLevel] = useState<number>(0);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
-  const [audioSource, setAudioSource] = useState<'microphone' | 'system' | 'both'>('microphone');
+  // 断线重连期间继续采集，音频暂存在发送队列中，恢复会话后补发
+  const [reconnectState, setReconnectState] = useState<ReconnectState | null>(null);
+  // 网络跟不上时发送队列会积压，达到上限后按所选策略处理
+  const [backpressurePolicy, setBackpressurePolicy] = useState<BackpressurePolicy>(DEFAULT_BACKPRESSURE_POLICY);
+  const [backpressureState, setBackpressureState] = useState<BackpressureState | null>(null);
+  const [useOpus, setUseOpus] = useState<boolean>(false);
+  const [opusBitrate, setOpusBitrate] = useState<number>(DEFAULT_OPUS_BITRATE);
+  const [opusStatus, setOpusStatus] = useState<'off' | 'checking' | 'active' | 'unsupported'>('off');
+  const health = useConnectionHealth(audioTranscriptionService.getHealth());
+  const [audioSource, setAudioSource] = useState<AudioSourceOption>('microphone');
   const [isSystemAudioSupported, setIsSystemAudioSupported] = useState<boolean>(false);
-  const [noiseFilterLevel, setNoiseFilterLevel] = useState<'off' | 'low' | 'medium' | 'high'>('medium');
+  const [noiseFilterLevel, setNoiseFilterLevel] = useState<VadLevel>('medium');
   const [autoPauseAfterSilence, setAutoPauseAfterSilence] = useState<boolean>(false);
   const [silenceTimerActive, setSilenceTimerActive] = useState<boolean>(false);
   const [useRNNoise, setUseRNNoise] = useState<boolean>(true);
+  const [rnnoiseStatus, setRnnoiseStatus] = useState<'idle' | 'loading' | 'active' | 'failed'>('idle');
+  const [rnnoiseError, setRnnoiseError] = useState<string>('');
+  const [protocolErrorCount, setProtocolErrorCount] = useState<number>(0);
+  const [lastProtocolError, setLastProtocolError] = useState<string>('');
+  const [chunkDurationMs, setChunkDurationMs] = useState<number>(DEFAULT_CHUNK_DURATION);
+  const [preRollMs, setPreRollMs] = useState<number>(DEFAULT_SPEECH_GATE_OPTIONS.preRollMs);
+  const [hangoverMs, setHangoverMs] = useState<number>(DEFAULT_SPEECH_GATE_OPTIONS.hangoverMs);
+  const [dualChannel, setDualChannel] = useState<boolean>(false);
+  const [sourceGains, setSourceGains] = useState<Record<AudioSourceKind, number>>({
+    microphone: DEFAULT_SOURCE_GAIN,
+    system: DEFAULT_SOURCE_GAIN
+  });
+  const [sourceLevels, setSourceLevels] = useState<Record<AudioSourceKind, number>>({ microphone: 0, system: 0 });
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [filePacing, setFilePacing] = useState<FilePacing>('fast');
+  const [isDecodingFile, setIsDecodingFile] = useState<boolean>(false);
+  const [fileProgress, setFileProgress] = useState<{ positionMs: number; durationMs: number } | null>(null);
   
   // 音频处理相关引用
-  const mediaStreamRef = useRef<MediaStream | null>(null);
+  const mediaStreamsRef = useRef<MediaStream[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const workletNodeRef = useRef<AudioWorkletNode | null>(null);
-  const rnnoiseWorkletAddedRef = useRef<boolean>(false);
-  const animationFrameRef = useRef<number | null>(null);
+  const audioMixerRef = useRef<AudioMixer | null>(null);
+  // 混合模式下只有一路，双通道模式下麦克风和系统声音各一路
+  const captureChannelsRef = useRef<CaptureChannel[]>([]);
+  // 只使用一个音源时，转写结果都来自该音源（用于区分本人和远程参会者）
+  const singleSourceRef = useRef<AudioChannel | undefined>(undefined);
+  // 发送队列：保证语音段边界与音频块按产生顺序发送
+  const sendChainRef = useRef<Promise<void>>(Promise.resolve());
+  // 文件转写：中止控制器和媒体时钟（转写结束后保留媒体时钟，用于换算之后到达的结果）
+  const fileAbortRef = useRef<AbortController | null>(null);
+  const mediaClockRef = useRef<MediaClock | null>(null);
+  // 本地录音，以及上行流位置到录音位置的映射
+  const recorderRef = useRef(createSessionRecorder());
+  const timelineRef = useRef(createStreamTimeline());
+  // 服务器未返回audio_start时使用的估计位置：最近一个语音段（或文件音频块）在录音中的起点
+  const fallbackOffsetRef = useRef<number | undefined>(undefined);
   const isMountedRef = useRef<boolean>(true);
   
   // 使用useRef存储回调函数，避免useEffect依赖变化导致重连
@@ -57,11 +172,10 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     onTranscriptionResult,
     language,
     modelType,
-    targetLanguage
+    targetLanguages
   });
   
-  // 静音检测计数器
-  const silenceCounterRef = useRef<number>(0);
+  // 静音检测
   const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
   
   // 当props变化时更新ref
@@ -70,31 +184,26 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
       onTranscriptionResult,
       language,
       modelType,
-      targetLanguage
+      targetLanguages
     };
-  }, [onTranscriptionResult, language, modelType, targetLanguage]);
+  }, [onTranscriptionResult, language, modelType, targetLanguages]);
   
   // 处理转写结果的回调函数
-  const handleTranscriptionResult = useCallback((
-    text: string,
-    refinedText?: string,
-    translation?: string,
-    timestamp?: number,
-    isKeywordMatch: boolean = false,
-    isContinuation: boolean = false,
-    continuationReason: string = "",
-    matchedKeywords: string[] = [],
-    matchReason: string = ""
-  ) => {
+  const handleTranscriptionResult = useCallback((event: TranscriptEvent) => {
     if (isMountedRef.current) {
-      console.log(`%c====== 转写结果 ======`, 'background: #ff9800; color: white; padding: 4px 8px; border-radius: 4px;');
-      console.log(`收到转写文本: "${text}"`);
-      console.log(`优化文本: "${refinedText || '无'}"`);
-      console.log(`翻译: "${translation || '无'}"`);
-      console.log(`匹配关键词: ${isKeywordMatch ? '是' : '否'} ⭐`);
-      console.log(`是连续文本: ${isContinuation ? '是' : '否'}`);
-      if (isContinuation) {
-        console.log(`连续原因: "${continuationReason || '无'}"`);
+      console.log(`%c====== 转写结果 (${event.event}) ======`, 'background: #ff9800; color: white; padding: 4px 8px; border-radius: 4px;');
+      if (event.event !== 'segment_update') {
+        console.log(`收到转写文本: "${event.text}"`);
+        console.log(`匹配关键词: ${event.isKeywordMatch ? '是' : '否'} ⭐`);
+        console.log(`是连续文本: ${event.isContinuation ? '是' : '否'}`);
+        if (event.isContinuation) {
+          console.log(`连续原因: "${event.continuationReason || '无'}"`);
+        }
+      }
+      console.log(`优化文本: "${event.refinedText || '无'}"`);
+      console.log(`翻译: "${event.translation || '无'}"`);
+      if (event.translations) {
+        console.log('各语言翻译:', event.translations);
       }
       
       try {
@@ -104,18 +213,31 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
           return;
         }
         
-        console.log('调用父组件的onTranscriptionResult回调函数，isKeywordMatch=', isKeywordMatch);
-        callbacksRef.current.onTranscriptionResult(
-          text, 
-          refinedText, 
-          translation, 
-          timestamp, 
-          isKeywordMatch,
-          isContinuation,
-          continuationReason,
-          matchedKeywords,
-          matchReason
-        );
+        console.log('调用父组件的onTranscriptionResult回调函数');
+        // 服务器未标注通道时，按当前唯一的音源补充
+        const singleSource = singleSourceRef.current;
+        let forwarded = event.event !== 'segment_update' && !event.channel && singleSource
+          ? { ...event, channel: singleSource }
+          : event;
+        if (forwarded.event !== 'segment_update') {
+          // 把上行流中的位置换算为本地录音中的位置；服务器未返回时按最近的语音段起点估计
+          const timeline = timelineRef.current;
+          const audioStart = forwarded.audioStart !== undefined
+            ? timeline.toRecordingTime(forwarded.audioStart)
+            : fallbackOffsetRef.current;
+          const audioEnd = forwarded.audioEnd !== undefined
+            ? timeline.toRecordingTime(forwarded.audioEnd)
+            : undefined;
+          forwarded = { ...forwarded, audioStart, audioEnd };
+          
+          // 文件转写时时间戳按媒体时间计算
+          const mediaClock = mediaClockRef.current;
+          if (mediaClock && audioStart !== undefined) {
+            const mediaSeconds = Math.max(0, audioStart - mediaClock.recordingStart);
+            forwarded = { ...forwarded, timestamp: mediaClock.epochMs / 1000 + mediaSeconds };
+          }
+        }
+        callbacksRef.current.onTranscriptionResult(forwarded);
         console.log('%c转写结果已成功传递给父组件', 'color: #4CAF50; font-weight: bold;');
       } catch (error) {
         console.error('调用父组件回调函数出错:', error);
@@ -125,56 +247,43 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     }
   }, []);
   
-  // 初始化WebSocket连接
+  // 初始化WebSocket连接（只在挂载时建立一次会话；语言、模型和翻译语言的变化由下面的effect在当前连接上更新）
   useEffect(() => {
     const connectWebSocket = async () => {
+      const { language, modelType, targetLanguages } = callbacksRef.current;
       try {
         setConnectionStatus('connecting');
         
         // 建立WebSocket连接
         await audioTranscriptionService.connect({
-          onTranscription: (
-            text: string,
-            refinedText?: string,
-            translation?: string,
-            timestamp?: number,
-            isKeywordMatch?: boolean,
-            isContinuation?: boolean,
-            continuationReason?: string,
-            matchedKeywords?: string[],
-            matchReason?: string
-          ) => {
-            handleTranscriptionResult(
-              text,
-              refinedText,
-              translation,
-              timestamp,
-              isKeywordMatch,
-              isContinuation,
-              continuationReason,
-              matchedKeywords,
-              matchReason
-            );
+          onTranscription: handleTranscriptionResult,
+          onProtocolError: (error: Error) => {
+            // 格式错误的消息已被丢弃，这里只记录以便排查
+            setProtocolErrorCount(prev => prev + 1);
+            setLastProtocolError(error.message);
           },
           onOpen: () => {
             console.log('WebSocket连接已打开');
             setIsConnected(true);
             setConnectionStatus('connected');
             
-            // 连接后启用AudioProcessor
-            if (processorRef.current) {
-              console.log('AudioProcessor已启用');
+            // 连接后启用PCM编码器
+            if (captureChannelsRef.current.length > 0) {
+              console.log('PCM编码器已启用');
             }
           },
           onClose: (event) => {
             console.log('WebSocket连接已关闭', event);
             setIsConnected(false);
             setConnectionStatus('disconnected');
-            
-            // 如果还在录音，则停止
-            if (isRecording) {
-              stopRecording();
-            }
+            // 录音不停止：意外断开时服务会自动重连并恢复会话，期间的音频在恢复后补发
+          },
+          onBackpressureChange: (state) => {
+            setBackpressureState(state.full ? state : null);
+            capturePauseHandlerRef.current(state.capturePaused);
+          },
+          onReconnectStateChange: (state) => {
+            setReconnectState(state.reconnecting ? state : null);
           },
           onError: (error: Error) => {
             console.error('WebSocket错误', error);
@@ -183,7 +292,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
           },
           language,
           model: modelType,
-          targetLanguage
+          targetLanguages
         });
       } catch (error) {
         console.error('连接WebSocket时出错:', error);
@@ -197,15 +306,15 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     return () => {
       audioTranscriptionService.disconnect();
     };
-  }, [language, modelType, targetLanguage]);
+  }, [handleTranscriptionResult]);
   
-  // 使用单独的effect来更新配置
+  // 配置变化时在当前连接上发送新的配置，不重新连接，会话ID保持不变
   useEffect(() => {
     if (isConnected) {
-      console.log('更新WebSocket配置:', { language, modelType, targetLanguage });
-      audioTranscriptionService.updateConfig(language, modelType, targetLanguage);
+      console.log('更新WebSocket配置:', { language, modelType, targetLanguages });
+      audioTranscriptionService.updateConfig(language, modelType, targetLanguages);
     }
-  }, [language, modelType, targetLanguage, isConnected]);
+  }, [language, modelType, targetLanguages, isConnected]);
   
   // 列出可用的音频设备
   useEffect(() => {
@@ -275,46 +384,42 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   
   // 开始/停止录音
   const toggleRecording = async () => {
-    if (!isConnected) {
+    // 重连期间仍可停止录音
+    if (!isConnected && !isRecording) {
       alert('WebSocket未连接，请等待连接建立');
       return;
     }
     
     if (isRecording) {
       stopRecording();
+    } else if (audioSource === 'file') {
+      await startFileTranscription();
     } else {
       await startRecording();
     }
   };
   
-  // 初始化RNNoise AudioWorklet
-  const initRNNoiseWorklet = async (audioContext: AudioContext) => {
-    if (rnnoiseWorkletAddedRef.current) return;
-    
-    try {
-      console.log('初始化RNNoise AudioWorklet...');
-      // 加载AudioWorklet模块
-      await audioContext.audioWorklet.addModule(
-        // 在浏览器中从node_modules加载worklet模块
-        // 这里需要确保构建过程中worklet文件可以被访问到
-        '/worklets/noise-suppressor-worklet.js'
-      );
-      rnnoiseWorkletAddedRef.current = true;
-      console.log('RNNoise AudioWorklet初始化成功');
-    } catch (error) {
-      console.error('初始化RNNoise AudioWorklet时出错:', error);
-      setUseRNNoise(false);
-    }
+  // RNNoise不可用时回退到频谱语音检测
+  const handleRNNoiseFailure = (error: unknown) => {
+    console.error('设置RNNoise降噪失败:', error);
+    console.log('回退到频谱语音检测...');
+    setRnnoiseStatus('failed');
+    setRnnoiseError(error instanceof Error ? error.message : String(error));
+    setUseRNNoise(false);
   };
   
   // 开始录音
   const startRecording = async () => {
+    mediaClockRef.current = null;
+    fallbackOffsetRef.current = undefined;
+    recorderRef.current.beginTake();
     try {
       console.log('请求音频权限和初始化音频上下文...');
       // 创建音频上下文
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 16000,
-      });
+      // 降噪时使用RNNoise要求的48kHz，否则使用设备原生采样率；最终都由PCM编码worklet重采样到16kHz
+      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)(
+        useRNNoise ? { sampleRate: RNNOISE_SAMPLE_RATE } : undefined
+      );
       audioContextRef.current = audioContext;
       
       let microphoneStream: MediaStream | null = null;
@@ -379,81 +484,46 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         }
       }
 
-      // 合并音频流（如果需要）
-      let finalStream: MediaStream;
-      if (microphoneStream && systemAudioStream) {
-        const micTrack = microphoneStream.getAudioTracks()[0];
-        const sysTrack = systemAudioStream.getAudioTracks()[0];
-        finalStream = new MediaStream([micTrack, sysTrack]);
-      } else {
-        finalStream = microphoneStream || systemAudioStream!;
-      }
-
-      mediaStreamRef.current = finalStream;
+      mediaStreamsRef.current = [microphoneStream, systemAudioStream]
+        .filter((stream): stream is MediaStream => stream !== null);
       
-      // 先设置录音状态为true，确保handleAudioProcess能够处理数据
+      // 先设置录音状态为true，确保音频块能够被处理
       setIsRecording(true);
       onRecordingStateChange?.(true);  // 通知父组件录音开始
       
-      // 创建音频源
-      const source = audioContext.createMediaStreamSource(finalStream);
-      console.log('音频源已创建');
-      
-      // 创建分析器节点用于显示音量
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      source.connect(analyser);
-      analyserRef.current = analyser;
+      // 创建混音图：每个音源单独创建source节点，经各自的增益节点后相加
+      const mixer = await createAudioMixer(audioContext, {
+        streams: {
+          microphone: microphoneStream ?? undefined,
+          system: systemAudioStream ?? undefined
+        },
+        gains: sourceGains,
+        // 同时使用两个音源时显示各自的电平
+        onLevel: microphoneStream && systemAudioStream
+          ? (source, level) => setSourceLevels(prev => ({ ...prev, [source]: level }))
+          : undefined
+      });
+      audioMixerRef.current = mixer;
+      singleSourceRef.current = mixer.sources.length === 1 ? mixer.sources[0] : undefined;
+      console.log('音频源已创建:', mixer.sources);
       
-      // 如果使用RNNoise，创建AudioWorklet进行降噪
-      if (useRNNoise) {
-        try {
-          // 初始化RNNoise AudioWorklet
-          await initRNNoiseWorklet(audioContext);
-          
-          // 创建AudioWorklet节点
-          const workletNode = new AudioWorkletNode(audioContext, NOISE_SUPPRESSOR_WORKLET_NAME);
-          workletNodeRef.current = workletNode;
-          
-          // 连接节点: 源 -> 降噪worklet -> 分析器
-          source.disconnect(analyser);
-          source.connect(workletNode);
-          workletNode.connect(analyser);
-          
-          // 创建处理器节点
-          const processor = audioContext.createScriptProcessor(1024, 1, 1);
-          processor.onaudioprocess = handleAudioProcess;
-          
-          // 连接到处理器: 分析器 -> 处理器 -> 输出（不播放）
-          analyser.connect(processor);
-          processor.connect(audioContext.destination);
-          processorRef.current = processor;
-          
-          console.log('RNNoise降噪处理已启用');
-        } catch (error) {
-          console.error('设置RNNoise降噪失败:', error);
-          console.log('回退到传统音频处理...');
-          setUseRNNoise(false);
-          
-          // 回退到传统音频处理
-          const processor = audioContext.createScriptProcessor(1024, 1, 1);
-          processor.onaudioprocess = handleAudioProcess;
-          source.connect(processor);
-          processor.connect(audioContext.destination);
-          processorRef.current = processor;
+      if (dualChannel && mixer.sources.length > 1) {
+        // 双通道模式：两个音源分别编码、分别门控，并带通道标签发送；RNNoise只用于麦克风
+        const captureChannels: CaptureChannel[] = [];
+        for (const source of mixer.sources) {
+          captureChannels.push(await createCaptureChannel(
+            audioContext,
+            mixer.getSourceNode(source)!,
+            useRNNoise && source === 'microphone',
+            source
+          ));
         }
+        captureChannelsRef.current = captureChannels;
       } else {
-        // 使用传统方式创建处理器节点
-        const processor = audioContext.createScriptProcessor(1024, 1, 1);
-        processor.onaudioprocess = handleAudioProcess;
-        source.connect(processor);
-        processor.connect(audioContext.destination);
-        processorRef.current = processor;
+        // 混合模式：所有音源混合为单路后降噪和编码
+        captureChannelsRef.current = [await createCaptureChannel(audioContext, mixer.output, useRNNoise)];
       }
       
-      // 开始音量可视化
-      startVolumeMetering();
-      
       console.log('录音已成功启动');
     } catch (error) {
       console.error('开始录音时出错:', error);
@@ -463,32 +533,178 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     }
   };
   
-  // 停止录音
-  const stopRecording = async () => {
-    console.log('停止录音...');
-    // 停止音量可视化
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
+  // 转写音频文件：解码为16kHz单声道后，经与实时录音相同的sendAudioData路径发送
+  const startFileTranscription = async () => {
+    if (!audioFile) {
+      alert('请先选择要转写的音频文件');
+      return;
     }
     
-    // 清理音频处理资源
-    if (processorRef.current && audioContextRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
+    const abortController = new AbortController();
+    fileAbortRef.current = abortController;
+    try {
+      setIsDecodingFile(true);
+      console.log('解码音频文件:', audioFile.name);
+      const decoded = await decodeAudioFile(audioFile);
+      setIsDecodingFile(false);
+      console.log(`音频文件解码完成，时长: ${(decoded.durationMs / 1000).toFixed(1)} 秒`);
+      
+      // 文件音频同样写入本地录音；以开始发送的时刻作为媒体时间零点，转写结果的时间戳相对于它换算
+      const recorder = recorderRef.current;
+      recorder.beginTake();
+      mediaClockRef.current = {
+        epochMs: Date.now(),
+        recordingStart: recorder.getDuration()
+      };
+      fallbackOffsetRef.current = undefined;
+      singleSourceRef.current = undefined;
+      setFileProgress({ positionMs: 0, durationMs: decoded.durationMs });
+      setIsRecording(true);
+      onRecordingStateChange?.(true);
+      
+      let reportedMs = 0;
+      audioTranscriptionService.sendSpeechBoundary('speech_start');
+      await streamAudioFile(decoded, {
+        chunkDurationMs,
+        pacing: filePacing,
+        signal: abortController.signal,
+        send: async (buffer) => {
+          const recordingOffset = recorder.write(buffer);
+          await sendRecordedAudio(buffer, recordingOffset);
+          fallbackOffsetRef.current = recordingOffset;
+        },
+        waitForCapacity: () => audioTranscriptionService.waitForSendCapacity(),
+        onProgress: (positionMs, durationMs) => {
+          if (positionMs - reportedMs >= FILE_PROGRESS_STEP_MS || positionMs >= durationMs) {
+            reportedMs = positionMs;
+            setFileProgress({ positionMs, durationMs });
+          }
+        }
+      });
+      audioTranscriptionService.sendSpeechBoundary('speech_end');
+      console.log(abortController.signal.aborted ? '音频文件转写已中止' : '音频文件已全部发送');
+    } catch (error) {
+      console.error('转写音频文件时出错:', error);
+      alert(`无法转写音频文件: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsDecodingFile(false);
+      if (fileAbortRef.current === abortController) {
+        fileAbortRef.current = null;
+      }
+      setIsRecording(false);
+      onRecordingStateChange?.(false);
+      publishRecording();
+    }
+  };
+  
+  // 发送音频块，并记录它在上行流和本地录音中的位置（发送队列已满、暂停采集时未进入上行流）
+  const sendRecordedAudio = async (buffer: ArrayBuffer, recordingOffset: number, options: EnqueueAudioOptions = {}) => {
+    const streamStart = audioTranscriptionService.getSentAudioSeconds();
+    const accepted = await audioTranscriptionService.sendAudioData(buffer, options);
+    if (accepted) {
+      timelineRef.current.add(streamStart, recordingOffset, buffer.byteLength / 2 / PCM_TARGET_SAMPLE_RATE);
     }
+  };
+  
+  // 把截至目前的录音交给父组件
+  const publishRecording = () => {
+    const recording = recorderRef.current.toWavBlob();
+    if (recording) {
+      onRecordingAvailable?.(recording);
+    }
+  };
+  
+  // 创建一路采集链路：input -> （可选）RNNoise降噪worklet -> PCM编码器
+  const createCaptureChannel = async (
+    audioContext: AudioContext,
+    input: AudioNode,
+    withNoiseSuppression: boolean,
+    channel?: AudioChannel
+  ): Promise<CaptureChannel> => {
+    // 创建PCM编码节点：重采样、格式转换和分块都在音频线程完成
+    const encoder = await createPcmEncoder(audioContext, {
+      chunkDurationMs,
+      vadLevel: noiseFilterLevel,
+      onChunk: (chunk) => chunkHandlerRef.current(chunk, capture),
+      // 双通道模式下由各音源的电平表显示音量
+      onLevel: channel ? undefined : setAudioLevel
+    });
+    if (audioTranscriptionService.isCapturePaused()) {
+      encoder.setPaused(true);
+    }
+    const capture: CaptureChannel = {
+      channel,
+      encoder,
+      gate: createSpeechGate<RecordedChunk>({ preRollMs, hangoverMs }),
+      noiseSuppressor: null,
+      voiceProbability: 0,
+      silenceMs: 0
+    };
+    
+    // 如果使用RNNoise，创建AudioWorklet进行降噪
+    let encoderInput = input;
+    if (withNoiseSuppression) {
+      try {
+        setRnnoiseStatus('loading');
+        
+        // 加载RNNoise AudioWorklet并创建节点
+        const noiseSuppressor = await createNoiseSuppressor(audioContext, {
+          onVoiceProbability: (probability) => {
+            capture.voiceProbability = Math.max(capture.voiceProbability, probability);
+          },
+          onReady: () => {
+            setRnnoiseStatus('active');
+            console.log('RNNoise降噪处理已启用');
+          },
+          // WASM加载失败时worklet会原样传递音频，仍保持连接
+          onError: handleRNNoiseFailure
+        });
+        capture.noiseSuppressor = noiseSuppressor;
+        
+        // 连接节点: 源 -> 降噪worklet -> PCM编码器
+        input.connect(noiseSuppressor.node);
+        encoderInput = noiseSuppressor.node;
+      } catch (error) {
+        handleRNNoiseFailure(error);
+      }
+    }
+    encoderInput.connect(encoder.node);
     
-    // 清理WorkletNode
-    if (workletNodeRef.current) {
-      workletNodeRef.current.disconnect();
-      workletNodeRef.current = null;
+    return capture;
+  };
+  
+  // 停止录音
+  const stopRecording = async () => {
+    // 文件转写：中止发送，状态由startFileTranscription在退出时恢复
+    if (fileAbortRef.current) {
+      console.log('停止音频文件转写...');
+      fileAbortRef.current.abort();
+      return;
     }
     
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
+    console.log('停止录音...');
+    
+    // 发送编码器中剩余的音频，然后清理
+    const captureChannels = captureChannelsRef.current;
+    captureChannelsRef.current = [];
+    await Promise.all(captureChannels.map(capture => capture.encoder.flush()));
+    captureChannels.forEach(capture => {
+      capture.encoder.dispose();
+      // 结束进行中的语音段
+      enqueueGateActions(capture.gate.end(), capture.channel);
+      // 清理降噪节点
+      capture.noiseSuppressor?.dispose();
+    });
+    setRnnoiseStatus(prev => (prev === 'failed' ? prev : 'idle'));
+    
+    if (audioMixerRef.current) {
+      audioMixerRef.current.dispose();
+      audioMixerRef.current = null;
     }
     
+    mediaStreamsRef.current.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    mediaStreamsRef.current = [];
+    
     if (audioContextRef.current) {
       audioContextRef.current.close();
       audioContextRef.current = null;
@@ -497,131 +713,52 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     console.log('录音已停止，资源已清理');
     setIsRecording(false);
     setAudioLevel(0);
+    setSourceLevels({ microphone: 0, system: 0 });
     onRecordingStateChange?.(false);  // 通知父组件录音停止
+    publishRecording();
   };
   
-  // 处理音频数据
-  const handleAudioProcess = async (e: AudioProcessingEvent) => {
+  // 处理编码好的音频块（只使用worklet计算的统计值，不遍历采样）
+  const handleAudioChunk = async (chunk: PcmChunk, capture: CaptureChannel) => {
     try {
-      // 获取音频数据
-      const inputBuffer = e.inputBuffer;
-      const inputData = inputBuffer.getChannelData(0);
-      
-      // 将Float32Array转换为Int16Array
-      const int16Array = new Int16Array(inputData.length);
-      for (let i = 0; i < inputData.length; i++) {
-        const s = Math.max(-1, Math.min(1, inputData[i]));
-        int16Array[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-      }
-      
-      // 计算音频统计信息
-      let sum = 0;
-      let max = 0;
-      for (let i = 0; i < int16Array.length; i++) {
-        const abs = Math.abs(int16Array[i]);
-        sum += abs;
-        if (abs > max) max = abs;
-      }
-      const average = sum / int16Array.length;
-      
-      console.log(`音频统计: 最大=${max}, 平均=${average.toFixed(2)}, 样本数=${int16Array.length}`);
+      const { peak, rms } = chunk;
+      // 所有音频块（包括静音）都写入本地录音，使录音位置与实际时间一致
+      const recordingOffset = recorderRef.current.write(chunk.buffer, capture.channel);
+      console.log(`${capture.channel ? `[${capture.channel}] ` : ''}音频统计: 峰值=${peak}, RMS=${rms.toFixed(2)}, 时长=${chunk.durationMs}ms`);
       
       // 音量过低警告
-      if (max < 1000) {
+      if (peak < 1000) {
         console.warn('警告: 音频音量可能太低，可能无法被语音检测捕获');
       }
       
-      // 如果RNNoise已启用，则减少或禁用之前基于阈值的过滤方法
-      let isLikelyVoice = true;
+      let isLikelyVoice = peak >= 100;
       
-      // 使用逻辑判断而非类型比较
-      if (!useRNNoise && noiseFilterLevel !== 'off') {
-        // 噪声过滤: 根据选择的过滤级别设置阈值
-        let volumeThreshold = 0;
-        let rmsThreshold = 0;
-        
-        // 根据噪声过滤级别设置不同的阈值
-        if (noiseFilterLevel === 'low') {
-          // 低过滤级别 - 仅过滤非常低的音量
-          volumeThreshold = 1000;
-          rmsThreshold = 300;
-        } else if (noiseFilterLevel === 'medium') {
-          // 中等过滤级别
-          volumeThreshold = 2000;
-          rmsThreshold = 500;
-        } else if (noiseFilterLevel === 'high') {
-          // 高过滤级别 - 更严格的过滤
-          volumeThreshold = 3000;
-          rmsThreshold = 800;
-        } else {
-          // off或其他情况
-          volumeThreshold = 0;
-          rmsThreshold = 0;
-        }
-        
-        // 计算均方根 (RMS) 值，这是检测声音活动的更好指标
-        let sumOfSquares = 0;
-        for (let i = 0; i < int16Array.length; i++) {
-          sumOfSquares += int16Array[i] * int16Array[i];
-        }
-        const rms = Math.sqrt(sumOfSquares / int16Array.length);
-        
-        // 进行简单的声音活动检测
-        isLikelyVoice = max > volumeThreshold || rms > rmsThreshold;
-        
-        // 分析人声频率范围 (大约85-255Hz为男声基音, 165-255Hz为女声基音)
-        // 我们扩大范围一些，检查更广的频率
-        const voiceFreqMin = 5;  // ~80Hz 在16kHz采样率下的FFT bin
-        const voiceFreqMax = 25; // ~400Hz 在16kHz采样率下的FFT bin
-        
-        // 计算人声频率范围的能量占比
-        let voiceRangeEnergy = 0;
-        let totalEnergy = 1; // 防止除以零
-        
-        for (let i = 0; i < int16Array.length; i++) {
-          const energy = int16Array[i] * int16Array[i]; // 能量正比于平方幅度
-          totalEnergy += energy;
-          
-          if (i >= voiceFreqMin && i <= voiceFreqMax) {
-            voiceRangeEnergy += energy;
-          }
-        }
-        
-        const voiceEnergyRatio = voiceRangeEnergy / totalEnergy;
-        console.log(`频率分析: 人声频率能量占比 = ${(voiceEnergyRatio * 100).toFixed(2)}%`);
-        
-        // 判断是否包含显著的人声成分
-        // 根据过滤级别调整阈值
-        const voiceRatioThreshold = noiseFilterLevel === 'high' ? 0.25 : 0.15;
-        
-        const hasSignificantVoiceFreq = voiceEnergyRatio > voiceRatioThreshold;
-        console.log(`频率检测结果: ${hasSignificantVoiceFreq ? '可能是人声' : '可能是噪声'}`);
-        
-        // 结合音量和频率分析结果
-        // 在高过滤级别下，要求同时通过音量检测和频率检测
-        if (noiseFilterLevel === 'high') {
-          isLikelyVoice = isLikelyVoice && hasSignificantVoiceFreq;
-        } else {
-          // 中等过滤级别下，如果频率检测认为是人声，就更有可能保留
-          if (hasSignificantVoiceFreq) {
-            isLikelyVoice = true;
-          }
-        }
-      } else if (useRNNoise) {
-        // 对于RNNoise处理后的音频，执行简单的音量检测
-        // RNNoise应该已经过滤了大部分噪音，所以我们只需要检查是否有足够的音量
-        isLikelyVoice = max > 500; // 使用较低的阈值，因为RNNoise已经降低了噪音
-        console.log(`RNNoise处理后的音量检测: ${isLikelyVoice ? '有声音活动' : '无声音活动'} (最大音量=${max})`);
+      if (capture.noiseSuppressor && rnnoiseStatus === 'active') {
+        // 使用RNNoise在本块期间报告的最大语音概率判断是否有人声
+        const voiceProbability = capture.voiceProbability;
+        capture.voiceProbability = 0;
+        isLikelyVoice = voiceProbability >= RNNOISE_VOICE_THRESHOLD;
+        console.log(`RNNoise语音检测: ${isLikelyVoice ? '有声音活动' : '无声音活动'} (语音概率=${voiceProbability.toFixed(2)})`);
+      } else if (!useRNNoise && noiseFilterLevel === 'off') {
+        // 不过滤，只跳过几乎无声的块
+      } else if (chunk.vad) {
+        // 频谱VAD的结果（已在Worker中按过滤级别做过onset/hangover平滑）
+        isLikelyVoice = chunk.vad.isSpeech;
+        console.log(`频谱VAD: ${isLikelyVoice ? '有声音活动' : '无声音活动'} (语音帧占比=${(chunk.vad.speechRatio * 100).toFixed(0)}%)`);
+      } else {
+        // VAD Worker不可用时，退回到基于峰值/RMS的简单检测
+        isLikelyVoice = peak > 2000 || rms > 500;
       }
       
       // 静音检测和自动暂停逻辑
       if (autoPauseAfterSilence) {
         if (!isLikelyVoice) {
-          // 如果检测到静音，增加静音计数器
-          silenceCounterRef.current += 1;
+          // 如果检测到静音，累计静音时长
+          capture.silenceMs += chunk.durationMs;
           
-          // 如果静音持续超过5秒 (大约50帧，因为每帧约0.1秒)
-          if (silenceCounterRef.current > 50 && !silenceTimerActive) {
+          // 如果所有通道的静音都持续超过5秒
+          const allSilent = captureChannelsRef.current.every(other => other.silenceMs > 5000);
+          if (allSilent && !silenceTimerActive) {
             console.log('检测到持续静音，准备自动暂停录音');
             setSilenceTimerActive(true);
             
@@ -633,8 +770,8 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
             }, 3000);
           }
         } else {
-          // 如果检测到声音，重置静音计数器
-          silenceCounterRef.current = 0;
+          // 如果检测到声音，重置静音时长
+          capture.silenceMs = 0;
           
           // 如果静音定时器正在运行，取消它
           if (silenceTimerRef.current && silenceTimerActive) {
@@ -646,53 +783,125 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         }
       }
       
-      // 如果声音太弱或不像人声，跳过此帧音频数据
-      if (!isLikelyVoice) {
-        console.log('跳过低音量或非人声数据');
+      // 检查WebSocket连接状态（重连期间照常交给服务缓存）
+      // 未连接时不经过门控并丢弃门控状态，否则被丢弃的speech_start之后会单独发出speech_end
+      if (!isConnected && !reconnectState) {
+        capture.gate.end();
+        console.warn('发送前检测到WebSocket未连接，跳过发送');
         return;
       }
       
-      // 检查WebSocket连接状态
-      if (!isConnected) {
-        console.warn('发送前检测到WebSocket未连接，跳过发送');
+      // 经过语音门控：静音块先缓存为pre-roll，语音开始时一并补发；语音结束后在hangover期间继续发送
+      const actions = capture.gate.push(
+        { ...chunk, recordingOffset, isVoice: isLikelyVoice, capturedAt: Date.now() - chunk.durationMs },
+        isLikelyVoice
+      );
+      audioTranscriptionService.reportGateResult(1, actions.filter(action => action.type === 'audio').length);
+      if (actions.length === 0) {
+        console.log('跳过低音量或非人声数据');
         return;
       }
       
-      // 发送数据到WebSocket
-      console.log(`发送音频数据: ${int16Array.buffer.byteLength} 字节`);
-      try {
-        await audioTranscriptionService.sendAudioData(int16Array.buffer);
-      } catch (error) {
-        console.error('发送音频数据时出错:', error);
-      }
+      enqueueGateActions(actions, capture.channel);
     } catch (error) {
       console.error('处理音频数据时出错:', error);
     }
   };
   
-  // 更新音频可视化
-  const startVolumeMetering = () => {
-    const updateVolume = () => {
-      if (!analyserRef.current) return;
-      
-      const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-      analyserRef.current.getByteFrequencyData(dataArray);
-      
-      // 计算音量平均值
-      let sum = 0;
-      for (let i = 0; i < dataArray.length; i++) {
-        sum += dataArray[i];
-      }
-      
-      const average = sum / dataArray.length;
-      setAudioLevel(average / 255); // 归一化为0-1范围
-      
-      animationFrameRef.current = requestAnimationFrame(updateVolume);
-    };
+  // 按顺序执行门控动作（发送音频块或语音段边界）
+  const enqueueGateActions = (actions: SpeechGateAction<RecordedChunk>[], channel?: AudioChannel) => {
+    if (actions.length === 0) return;
     
-    updateVolume();
+    sendChainRef.current = sendChainRef.current.then(async () => {
+      let speechStarted = false;
+      for (const action of actions) {
+        try {
+          if (action.type === 'audio') {
+            console.log(`发送音频数据: ${action.chunk.buffer.byteLength} 字节`);
+            // 语音段的第一个音频块（含pre-roll）作为估计的起点
+            if (speechStarted) {
+              fallbackOffsetRef.current = action.chunk.recordingOffset;
+              speechStarted = false;
+            }
+            await sendRecordedAudio(action.chunk.buffer, action.chunk.recordingOffset, {
+              channel,
+              silence: !action.chunk.isVoice,
+              capturedAt: action.chunk.capturedAt
+            });
+          } else {
+            speechStarted = action.type === 'speech_start';
+            audioTranscriptionService.sendSpeechBoundary(action.type, channel);
+          }
+        } catch (error) {
+          console.error('发送音频数据时出错:', error);
+        }
+      }
+    });
   };
   
+  // worklet回调通过ref调用最新的处理函数，避免闭包中的状态过期
+  const chunkHandlerRef = useRef(handleAudioChunk);
+  chunkHandlerRef.current = handleAudioChunk;
+  
+  // pause_capture：发送队列已满时各路PCM编码器停止产生音频块，降到恢复值以下后继续
+  const setCapturePaused = (paused: boolean) => {
+    captureChannelsRef.current.forEach(capture => {
+      capture.encoder.setPaused(paused);
+      // 暂停时结束进行中的语音段，恢复后的语音重新以speech_start开始
+      if (paused) {
+        enqueueGateActions(capture.gate.end(), capture.channel);
+      }
+    });
+  };
+  const capturePauseHandlerRef = useRef(setCapturePaused);
+  capturePauseHandlerRef.current = setCapturePaused;
+  
+  // 录音过程中修改分块时长时通知worklet
+  useEffect(() => {
+    captureChannelsRef.current.forEach(capture => capture.encoder.setChunkDuration(chunkDurationMs));
+  }, [chunkDurationMs]);
+  
+  // 背压策略对当前会话立即生效
+  useEffect(() => {
+    audioTranscriptionService.setBackpressurePolicy(backpressurePolicy);
+  }, [backpressurePolicy]);
+  
+  // Opus设置变化时检查编码器是否可用；会话进行中时重新协商编码
+  useEffect(() => {
+    let cancelled = false;
+    if (useOpus) setOpusStatus('checking');
+    audioTranscriptionService.configureOpus(useOpus, opusBitrate)
+      .then(enabled => {
+        if (!cancelled) setOpusStatus(useOpus ? (enabled ? 'active' : 'unsupported') : 'off');
+      })
+      .catch(error => {
+        console.error('设置Opus编码失败:', error);
+        if (!cancelled) setOpusStatus('unsupported');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [useOpus, opusBitrate]);
+  
+  // 修改pre-roll/hangover时长时更新语音门控
+  useEffect(() => {
+    captureChannelsRef.current.forEach(capture => capture.gate.setOptions({ preRollMs, hangoverMs }));
+  }, [preRollMs, hangoverMs]);
+  
+  // 录音过程中修改过滤级别时通知VAD Worker
+  useEffect(() => {
+    captureChannelsRef.current.forEach(capture => capture.encoder.setVadLevel(noiseFilterLevel));
+  }, [noiseFilterLevel]);
+  
+  // 录音过程中调节音源增益
+  useEffect(() => {
+    const mixer = audioMixerRef.current;
+    if (mixer) {
+      mixer.setGain('microphone', sourceGains.microphone);
+      mixer.setGain('system', sourceGains.system);
+    }
+  }, [sourceGains]);
+  
   // 处理设备选择变更
   const handleDeviceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const deviceId = e.target.value;
@@ -707,6 +916,11 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     }
   };
   
+  // 双通道模式下编码器不上报电平，总电平取两个音源中较大的一个
+  const displayLevel = audioSource === 'both' && dualChannel
+    ? Math.max(sourceLevels.microphone, sourceLevels.system)
+    : audioLevel;
+  
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-8">
       <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">音频录制</h2>
@@ -717,16 +931,29 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
           <div 
             className={`w-3 h-3 rounded-full ${
               connectionStatus === 'connected' ? 'bg-green-500' :
-              connectionStatus === 'connecting' ? 'bg-yellow-500 animate-pulse' :
+              connectionStatus === 'connecting' || reconnectState ? 'bg-yellow-500 animate-pulse' :
               'bg-red-500'
             }`} 
           />
           <span className="text-sm text-gray-600 dark:text-gray-300">
             {connectionStatus === 'connected' ? '已连接' :
+             reconnectState ? `正在重连（第 ${reconnectState.attempt} 次），已缓存 ${Math.floor(reconnectState.bufferedSeconds)} 秒音频` :
              connectionStatus === 'connecting' ? '正在连接...' :
              '未连接'}
           </span>
         </div>
+        {backpressureState && (
+          <p className="mt-1 text-xs text-orange-600 dark:text-orange-400">
+            网络发送跟不上，发送队列已满（{Math.floor(backpressureState.bufferedSeconds)} 秒音频），
+            {backpressureState.capturePaused ? '已暂停采集，积压消退后自动恢复' : `按「${BACKPRESSURE_POLICY_LABELS[backpressureState.policy]}」处理`}
+            {backpressureState.droppedFrames > 0 && `，已丢弃 ${backpressureState.droppedFrames} 个音频块`}
+          </p>
+        )}
+        {protocolErrorCount > 0 && (
+          <p className="mt-1 text-xs text-orange-600 dark:text-orange-400" title={lastProtocolError}>
+            已丢弃 {protocolErrorCount} 条格式错误的服务器消息（最近: {lastProtocolError}）
+          </p>
+        )}
       </div>
       
       {/* 当前配置信息 */}
@@ -761,17 +988,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
           </div>
           <div className="flex items-center">
             <span className="text-gray-500 dark:text-gray-400 mr-2">翻译语言:</span>
-            <span className="font-medium">{
-              {
-                'zh': '中文',
-                'en': '英文',
-                'ja': '日文',
-                'ko': '韩文',
-                'fr': '法语',
-                'de': '德语',
-                'ru': '俄语'
-              }[targetLanguage] || targetLanguage
-            }</span>
+            <span className="font-medium">{targetLanguages.map(getLanguageLabel).join('、')}</span>
           </div>
           <div className="flex items-center">
             <span className="text-gray-500 dark:text-gray-400 mr-2">连接ID:</span>
@@ -792,7 +1009,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         <select
           className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
           value={audioSource}
-          onChange={(e) => setAudioSource(e.target.value as 'microphone' | 'system' | 'both')}
+          onChange={(e) => setAudioSource(e.target.value as AudioSourceOption)}
           disabled={isRecording}
         >
           <option value="microphone">麦克风（外部声音）</option>
@@ -802,6 +1019,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
               <option value="both">同时使用两者</option>
             </>
           )}
+          <option value="file">音频文件（离线转写）</option>
         </select>
         {!isSystemAudioSupported && (
           <p className="mt-2 text-sm text-yellow-600 dark:text-yellow-400">
@@ -810,6 +1028,61 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         )}
       </div>
       
+      {/* 音频文件转写设置 */}
+      {audioSource === 'file' && (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
+          <label htmlFor="audio-file" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+            音频文件
+          </label>
+          <input
+            id="audio-file"
+            type="file"
+            accept={AUDIO_FILE_ACCEPT}
+            className="w-full text-sm text-gray-700 dark:text-gray-200"
+            onChange={(e) => {
+              setAudioFile(e.target.files?.[0] ?? null);
+              setFileProgress(null);
+            }}
+            disabled={isRecording || isDecodingFile}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            支持WAV、MP3、OGG、WebM格式，转写结果的时间按文件内的时间位置计算
+          </p>
+          
+          <label htmlFor="file-pacing" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mt-3 mb-2">
+            发送速度
+          </label>
+          <select
+            id="file-pacing"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
+            value={filePacing}
+            onChange={(e) => setFilePacing(e.target.value as FilePacing)}
+            disabled={isRecording || isDecodingFile}
+          >
+            <option value="fast">尽快发送（按服务器处理速度）</option>
+            <option value="realtime">实时速度（与原始时长相同）</option>
+          </select>
+          
+          {isDecodingFile && (
+            <p className="mt-3 text-sm text-yellow-600 dark:text-yellow-400">正在解码音频文件...</p>
+          )}
+          {fileProgress && (
+            <div className="mt-3">
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                <span>{formatMediaTime(fileProgress.positionMs)}</span>
+                <span>{formatMediaTime(fileProgress.durationMs)}</span>
+              </div>
+              <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-all duration-200"
+                  style={{ width: `${fileProgress.durationMs > 0 ? (fileProgress.positionMs / fileProgress.durationMs) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      
       {/* 只在选择麦克风时显示设备选择 */}
       {(audioSource === 'microphone' || audioSource === 'both') && (
         <div className="mb-4">
@@ -835,74 +1108,273 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         </div>
       )}
       
-      {/* 噪声过滤设置 */}
-      <div className="mb-4">
-        <div className="flex items-center">
-          <input
-            id="use-rnnoise"
-            type="checkbox"
-            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-            checked={useRNNoise}
-            onChange={(e) => setUseRNNoise(e.target.checked)}
-          />
-          <label htmlFor="use-rnnoise" className="ml-2 block text-sm text-gray-700 dark:text-gray-200">
-            使用RNNoise专业降噪（推荐）
-          </label>
-        </div>
-        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 ml-6">
-          RNNoise使用深度学习技术，能有效去除背景噪音，保留清晰的人声
-        </p>
-      </div>
-      
-      {!useRNNoise && (
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-            传统噪声过滤级别
-          </label>
-          <select
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-            value={noiseFilterLevel}
-            onChange={(e) => setNoiseFilterLevel(e.target.value as 'off' | 'low' | 'medium' | 'high')}
-          >
-            <option value="off">关闭 - 不过滤</option>
-            <option value="low">低 - 轻微过滤</option>
-            <option value="medium">中 - 平衡过滤</option>
-            <option value="high">高 - 严格过滤</option>
-          </select>
-          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-            较高的过滤级别可减少背景噪音，但可能会过滤掉较轻的语音
+      {/* 双音源混合设置 */}
+      {audioSource === 'both' && (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">音源混合</h3>
+          {(['microphone', 'system'] as AudioSourceKind[]).map(source => (
+            <div key={source} className="mb-3">
+              <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300 mb-1">
+                <label htmlFor={`gain-${source}`}>{SOURCE_LABELS[source]}</label>
+                <span>{Math.round(sourceGains[source] * 100)}%</span>
+              </div>
+              <input
+                id={`gain-${source}`}
+                type="range"
+                className="w-full accent-primary-500"
+                min={MIN_SOURCE_GAIN}
+                max={MAX_SOURCE_GAIN}
+                step={0.05}
+                value={sourceGains[source]}
+                onChange={(e) => {
+                  const gain = Number(e.target.value);
+                  setSourceGains(prev => ({ ...prev, [source]: gain }));
+                }}
+              />
+              <div className="mt-1 h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-all duration-100"
+                  style={{ width: `${sourceLevels[source] * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center">
+            <input
+              id="dual-channel"
+              type="checkbox"
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              checked={dualChannel}
+              onChange={(e) => setDualChannel(e.target.checked)}
+              disabled={isRecording}
+            />
+            <label htmlFor="dual-channel" className="ml-2 block text-sm text-gray-700 dark:text-gray-200">
+              分别发送两路音频（区分本人与远程参会者）
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 ml-6">
+            开启后麦克风和系统声音作为两个带标签的通道发送，RNNoise只用于麦克风；关闭时两路混合为单路发送
           </p>
         </div>
       )}
       
-      {/* 自动暂停设置 */}
+      {audioSource !== 'file' && (
+        <>
+          {/* 噪声过滤设置 */}
+          <div className="mb-4">
+            <div className="flex items-center">
+              <input
+                id="use-rnnoise"
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                checked={useRNNoise}
+                onChange={(e) => {
+                  setUseRNNoise(e.target.checked);
+                  setRnnoiseStatus('idle');
+                  setRnnoiseError('');
+                }}
+              />
+              <label htmlFor="use-rnnoise" className="ml-2 block text-sm text-gray-700 dark:text-gray-200">
+                使用RNNoise专业降噪（推荐）
+              </label>
+              {rnnoiseStatus === 'loading' && (
+                <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400">加载中...</span>
+              )}
+              {rnnoiseStatus === 'active' && (
+                <span className="ml-2 text-xs text-green-600 dark:text-green-400">降噪中</span>
+              )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 ml-6">
+              RNNoise使用深度学习技术，能有效去除背景噪音，保留清晰的人声；更改将在下次开始录音时生效
+            </p>
+            {rnnoiseStatus === 'failed' && (
+              <p className="mt-1 text-xs text-red-600 dark:text-red-400 ml-6">
+                {rnnoiseError || 'RNNoise加载失败'}，已回退到频谱语音检测
+              </p>
+            )}
+          </div>
+      
+          {!useRNNoise && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                语音检测过滤级别
+              </label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
+                value={noiseFilterLevel}
+                onChange={(e) => setNoiseFilterLevel(e.target.value as VadLevel)}
+              >
+                <option value="off">关闭 - 不过滤</option>
+                <option value="low">低 - 轻微过滤</option>
+                <option value="medium">中 - 平衡过滤</option>
+                <option value="high">高 - 严格过滤</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                基于频谱特征的语音检测；较高的级别可减少背景噪音，但可能会过滤掉较轻的语音
+              </p>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* 音频分块时长 */}
+      <div className="mb-4">
+        <label htmlFor="chunk-duration" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+          音频分块时长
+        </label>
+        <select
+          id="chunk-duration"
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
+          value={chunkDurationMs}
+          onChange={(e) => setChunkDurationMs(Number(e.target.value))}
+        >
+          {CHUNK_DURATION_OPTIONS.map(duration => (
+            <option key={duration} value={duration}>{duration} 毫秒</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          较短的分块延迟更低，较长的分块可减少发送次数
+        </p>
+      </div>
+
+      {/* 背压策略 */}
+      <div className="mb-4">
+        <label htmlFor="backpressure-policy" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+          网络拥塞时
+        </label>
+        <select
+          id="backpressure-policy"
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
+          value={backpressurePolicy}
+          onChange={(e) => setBackpressurePolicy(e.target.value as BackpressurePolicy)}
+        >
+          {BACKPRESSURE_POLICIES.map(policy => (
+            <option key={policy} value={policy}>{BACKPRESSURE_POLICY_LABELS[policy]}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          网络跟不上或断线时音频在本地排队（最多60秒），队列满后按此策略处理；暂停采集时本地录音不受影响
+        </p>
+      </div>
+
+      {/* 上行音频压缩 */}
       <div className="mb-4">
         <div className="flex items-center">
           <input
-            id="auto-pause"
+            id="use-opus"
             type="checkbox"
             className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-            checked={autoPauseAfterSilence}
-            onChange={(e) => setAutoPauseAfterSilence(e.target.checked)}
+            checked={useOpus}
+            onChange={(e) => setUseOpus(e.target.checked)}
           />
-          <label htmlFor="auto-pause" className="ml-2 block text-sm text-gray-700 dark:text-gray-200">
-            检测到静音后自动停止录音
+          <label htmlFor="use-opus" className="ml-2 block text-sm text-gray-700 dark:text-gray-200">
+            使用Opus压缩上行音频
           </label>
+          {opusStatus === 'checking' && (
+            <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400">检查中...</span>
+          )}
+          {opusStatus === 'active' && (
+            <span className="ml-2 text-xs text-green-600 dark:text-green-400">已启用</span>
+          )}
         </div>
+        {useOpus && (
+          <select
+            id="opus-bitrate"
+            aria-label="Opus码率"
+            className="mt-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
+            value={opusBitrate}
+            onChange={(e) => setOpusBitrate(Number(e.target.value))}
+          >
+            {OPUS_BITRATE_OPTIONS.map(bitrate => (
+              <option key={bitrate} value={bitrate}>{bitrate / 1000} kbit/s</option>
+            ))}
+          </select>
+        )}
         <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 ml-6">
-          启用后，系统将在检测到约5秒连续静音后，自动停止录音
+          PCM约256 kbit/s，Opus可大幅降低流量，适合手机热点等窄带网络；服务器不支持时自动使用PCM
         </p>
+        {opusStatus === 'unsupported' && (
+          <p className="mt-1 text-xs text-red-600 dark:text-red-400 ml-6">
+            浏览器不支持Opus编码，使用PCM
+          </p>
+        )}
+        {isConnected && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 ml-6">
+            当前上行: {(health.sendRate * 8 / 1000).toFixed(1)} kbit/s
+            {health.audioCodec && `（${health.audioCodec === 'opus' ? 'Opus' : 'PCM'}）`}
+          </p>
+        )}
       </div>
+
+      {audioSource !== 'file' && (
+        <>
+          {/* 语音段前后缓冲 */}
+          <div className="mb-4 grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="pre-roll" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                语音前缓冲
+              </label>
+              <select
+                id="pre-roll"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
+                value={preRollMs}
+                onChange={(e) => setPreRollMs(Number(e.target.value))}
+              >
+                {PRE_ROLL_OPTIONS.map(duration => (
+                  <option key={duration} value={duration}>{duration} 毫秒</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="hangover" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                语音后延续
+              </label>
+              <select
+                id="hangover"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
+                value={hangoverMs}
+                onChange={(e) => setHangoverMs(Number(e.target.value))}
+              >
+                {HANGOVER_OPTIONS.map(duration => (
+                  <option key={duration} value={duration}>{duration} 毫秒</option>
+                ))}
+              </select>
+            </div>
+            <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+              语音开始前补发的音频和语音结束后继续发送的时长，避免截断词首和词尾
+            </p>
+          </div>
+
+          {/* 自动暂停设置 */}
+          <div className="mb-4">
+            <div className="flex items-center">
+              <input
+                id="auto-pause"
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                checked={autoPauseAfterSilence}
+                onChange={(e) => setAutoPauseAfterSilence(e.target.checked)}
+              />
+              <label htmlFor="auto-pause" className="ml-2 block text-sm text-gray-700 dark:text-gray-200">
+                检测到静音后自动停止录音
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 ml-6">
+              启用后，系统将在检测到约5秒连续静音后，自动停止录音
+            </p>
+          </div>
       
-      {/* 音量显示 */}
-      <div className="mb-4">
-        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
-          <div 
-            className="h-full bg-primary-500 transition-all duration-100"
-            style={{ width: `${audioLevel * 100}%` }}
-          />
-        </div>
-      </div>
+          {/* 音量显示 */}
+          <div className="mb-4">
+            <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div 
+                className="h-full bg-primary-500 transition-all duration-100"
+                style={{ width: `${displayLevel * 100}%` }}
+              />
+            </div>
+          </div>
+        </>
+      )}
       
       {/* 控制按钮 */}
       <button
@@ -912,14 +1384,16 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
             : 'bg-primary-500 hover:bg-primary-600 text-white'
         }`}
         onClick={toggleRecording}
-        disabled={!isConnected}
+        disabled={(!isConnected && !isRecording) || isDecodingFile || (audioSource === 'file' && !audioFile)}
       >
-        {isRecording ? '停止录音' : '开始录音'}
+        {audioSource === 'file'
+          ? (isRecording ? '停止转写' : isDecodingFile ? '解码中...' : '开始转写文件')
+          : (isRecording ? '停止录音' : '开始录音')}
       </button>
       
       {/* 添加配置检查组件 */}
       <div className="border-t border-gray-200 dark:border-gray-700 mt-4 pt-4">
-        <CheckConfig language={language} modelType={modelType} targetLanguage={targetLanguage} />
+        <CheckConfig language={language} modelType={modelType} targetLanguages={targetLanguages} />
       </div>
     </div>
   );
@@ -1,13 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import audioTranscriptionService from '../lib/websocket';
+import { DEFAULT_TARGET_LANGUAGES } from '../lib/translations';
 
 interface CheckConfigProps {
   language: string;
   modelType: string;
-  targetLanguage?: string;
+  targetLanguages?: string[];
 }
 
-const CheckConfig: React.FC<CheckConfigProps> = ({ language, modelType, targetLanguage = 'en' }) => {
+// 服务器返回的目标语言列表；只支持单个目标语言的服务器只返回target_language
+const formatServerTargetLanguages = (config?: Record<string, unknown>): string | undefined => {
+  const targetLanguages = config?.target_languages;
+  const targetLanguage = config?.target_language;
+  if (Array.isArray(targetLanguages)) return targetLanguages.join(',');
+  return typeof targetLanguage === 'string' ? targetLanguage : undefined;
+};
+
+const CheckConfig: React.FC<CheckConfigProps> = ({ language, modelType, targetLanguages = DEFAULT_TARGET_LANGUAGES }) => {
+  // 比较时使用逗号分隔的语言列表
+  const targetLanguagesKey = targetLanguages.join(',');
   const [serverConfig, setServerConfig] = useState<any>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
@@ -21,11 +32,11 @@ const CheckConfig: React.FC<CheckConfigProps> = ({ language, modelType, targetLa
       const mismatch = 
         serverConfig.processor.language !== language ||
         serverConfig.processor.model_type !== modelType ||
-        serverConfig.processor.target_language !== targetLanguage;
+        formatServerTargetLanguages(serverConfig.processor) !== targetLanguagesKey;
       
       setNeedsRefresh(mismatch);
     }
-  }, [language, modelType, targetLanguage, serverConfig]);
+  }, [language, modelType, targetLanguagesKey, serverConfig]);
   
   // 自动刷新配置
   useEffect(() => {
@@ -59,7 +70,8 @@ const CheckConfig: React.FC<CheckConfigProps> = ({ language, modelType, targetLa
       const result = await audioTranscriptionService.setServerConfig({
         language,
         model_type: modelType,
-        target_language: targetLanguage
+        target_language: targetLanguages[0],
+        target_languages: targetLanguages
       });
       if (result.success) {
         // 应用成功后立即检查配置
@@ -78,7 +90,7 @@ const CheckConfig: React.FC<CheckConfigProps> = ({ language, modelType, targetLa
   const hasConfigMismatch = serverConfig && serverConfig.processor && (
     serverConfig.processor.language !== language ||
     serverConfig.processor.model_type !== modelType ||
-    serverConfig.processor.target_language !== targetLanguage
+    formatServerTargetLanguages(serverConfig.processor) !== targetLanguagesKey
   );
   
   return (
@@ -139,9 +151,9 @@ const CheckConfig: React.FC<CheckConfigProps> = ({ language, modelType, targetLa
               模型: {serverConfig.processor?.model_type}
               {serverConfig.processor?.model_type !== modelType && ` (前端: ${modelType})`}
             </li>
-            <li className={serverConfig.processor?.target_language !== targetLanguage ? 'text-red-500 font-bold' : ''}>
-              翻译语言: {serverConfig.processor?.target_language}
-              {serverConfig.processor?.target_language !== targetLanguage && ` (前端: ${targetLanguage})`}
+            <li className={formatServerTargetLanguages(serverConfig.processor) !== targetLanguagesKey ? 'text-red-500 font-bold' : ''}>
+              翻译语言: {formatServerTargetLanguages(serverConfig.processor)}
+              {formatServerTargetLanguages(serverConfig.processor) !== targetLanguagesKey && ` (前端: ${targetLanguagesKey})`}
             </li>
             <li>运行状态: {serverConfig.processor?.running ? '运行中' : '已停止'}</li>
           </ul>
@@ -153,8 +165,8 @@ const CheckConfig: React.FC<CheckConfigProps> = ({ language, modelType, targetLa
             <li className={serverConfig.config?.model_type !== modelType ? 'text-orange-500' : ''}>
               模型: {serverConfig.config?.model_type}
             </li>
-            <li className={serverConfig.config?.target_language !== targetLanguage ? 'text-orange-500' : ''}>
-              翻译语言: {serverConfig.config?.target_language}
+            <li className={formatServerTargetLanguages(serverConfig.config) !== targetLanguagesKey ? 'text-orange-500' : ''}>
+              翻译语言: {formatServerTargetLanguages(serverConfig.config)}
             </li>
           </ul>
           <div className="mt-1 text-xs text-gray-500">
@@ -0,0 +1,82 @@
+import React from 'react';
+import audioTranscriptionService from '../lib/websocket';
+import { ConnectionStatus, useConnectionHealth } from '../lib/connectionHealth';
+import { AudioCodec, AudioFraming } from '../lib/protocol';
+
+const STATUS_LABELS: Record<ConnectionStatus, { label: string; className: string }> = {
+  connected: { label: '已连接', className: 'bg-green-500' },
+  connecting: { label: '连接中', className: 'bg-yellow-500' },
+  reconnecting: { label: '重连中', className: 'bg-yellow-500' },
+  disconnected: { label: '未连接', className: 'bg-red-500' }
+};
+
+const FRAMING_LABELS: Record<AudioFraming, string> = {
+  framed: '带帧头（序号、时间戳、采样率）',
+  raw: '原始PCM（旧版服务器）'
+};
+
+const CODEC_LABELS: Record<AudioCodec, string> = {
+  pcm_s16le: 'PCM',
+  opus: 'Opus'
+};
+
+// 往返时间/延迟超过该值时以警告色显示（毫秒）
+const SLOW_RTT_MS = 300;
+const SLOW_LATENCY_MS = 3000;
+// 发送缓冲区积压超过该值时以警告色显示（字节）
+const BACKLOG_WARNING_BYTES = 256 * 1024;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const formatMs = (ms: number | null): string => (ms === null ? '—' : `${Math.round(ms)} ms`);
+
+const warnIf = (condition: boolean) => (condition ? 'text-yellow-600 dark:text-yellow-400' : '');
+
+// 连接健康状态面板：心跳往返时间、发送统计、缓冲区积压和端到端延迟，每秒刷新
+const ConnectionHealthPanel: React.FC = () => {
+  const health = useConnectionHealth(audioTranscriptionService.getHealth());
+  const status = STATUS_LABELS[health.status];
+
+  return (
+    <div>
+      <h3 className="font-medium mb-2 flex items-center">
+        连接状态
+        <span className={`ml-2 w-2 h-2 rounded-full ${status.className}`}></span>
+        <span className="ml-1 font-normal">{status.label}</span>
+      </h3>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        <div className={warnIf(health.rttMs !== null && health.rttMs > SLOW_RTT_MS)}>
+          <span className="font-medium">往返时间:</span> {formatMs(health.rttMs)}
+          {health.averageRttMs !== null && <span className="text-gray-500"> (平均 {formatMs(health.averageRttMs)})</span>}
+        </div>
+        <div className={health.missedPongs > 0 ? 'text-red-600 dark:text-red-400' : ''}>
+          <span className="font-medium">未回复心跳:</span> {health.missedPongs}
+        </div>
+        <div className={warnIf(health.latencyMs !== null && health.latencyMs > SLOW_LATENCY_MS)}>
+          <span className="font-medium">端到端延迟:</span> {formatMs(health.latencyMs)}
+          {health.averageLatencyMs !== null && <span className="text-gray-500"> (平均 {formatMs(health.averageLatencyMs)})</span>}
+        </div>
+        <div><span className="font-medium">已发送:</span> {formatBytes(health.bytesSent)} / {health.framesSent} 帧</div>
+        <div><span className="font-medium">发送速率:</span> {(health.sendRate * 8 / 1000).toFixed(1)} kbit/s</div>
+        <div>
+          <span className="font-medium">门控跳过:</span> {health.gatedFrames} / {health.capturedFrames} 帧
+        </div>
+        <div className={warnIf(health.bufferedAmount > BACKLOG_WARNING_BYTES)}>
+          <span className="font-medium">发送缓冲区积压:</span> {formatBytes(health.bufferedAmount)}
+        </div>
+        <div><span className="font-medium">待发送音频:</span> {formatBytes(health.pendingBytes)}</div>
+        <div><span className="font-medium">音频帧格式:</span> {health.audioFraming ? FRAMING_LABELS[health.audioFraming] : '—'}</div>
+        <div><span className="font-medium">音频编码:</span> {health.audioCodec ? CODEC_LABELS[health.audioCodec] : '—'}</div>
+        <div className={health.droppedFrames > 0 ? 'text-red-600 dark:text-red-400' : ''}>
+          <span className="font-medium">缓存溢出丢弃:</span> {health.droppedFrames} 帧
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionHealthPanel;
@@ -30,6 +30,11 @@ const Header: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-4">
+            <Link href="/sessions">
+              <span className="text-sm text-gray-600 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400">
+                历史会话
+              </span>
+            </Link>
             <span className="text-sm text-gray-600 dark:text-gray-300">
               基于Faster Whisper技术
             </span>
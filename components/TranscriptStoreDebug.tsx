@@ -0,0 +1,37 @@
+import React, { useContext } from 'react';
+import { TranscriptStoreContext, createTranscriptStore, useTranscriptStore } from '../lib/transcriptStore';
+
+// 没有提供存储时使用的空存储
+const EMPTY_STORE = createTranscriptStore();
+
+// 调试面板中的转写条目状态，与转写显示读取同一个存储
+const TranscriptStoreDebug: React.FC = () => {
+  const store = useContext(TranscriptStoreContext) || EMPTY_STORE;
+  const { version, count, statistics } = useTranscriptStore(store);
+  const items = store.getItems();
+  const latest = items.length > 0 ? items[items.length - 1] : null;
+
+  return (
+    <div className="mt-4">
+      <h3 className="font-medium mb-2">转写条目</h3>
+      <div className="grid grid-cols-2 gap-2">
+        <div><span className="font-medium">条目数:</span> {count}</div>
+        <div><span className="font-medium">存储版本:</span> {version}</div>
+        <div><span className="font-medium">中间结果:</span> {items.filter(item => item.isPartial).length}</div>
+        <div><span className="font-medium">连续文本:</span> {items.filter(item => item.isContinuation).length}</div>
+        <div><span className="font-medium">关键词命中:</span> {items.filter(item => item.isKeywordMatch).length}</div>
+        <div><span className="font-medium">人工编辑:</span> {items.filter(item => item.edits).length}</div>
+        <div><span className="font-medium">原文字符/Token:</span> {statistics.original.totalCharacters} / {statistics.original.totalTokens}</div>
+        <div><span className="font-medium">翻译字符/Token:</span> {statistics.translation.totalCharacters} / {statistics.translation.totalTokens}</div>
+      </div>
+      {latest && (
+        <div className="mt-2 text-gray-600 dark:text-gray-300">
+          <span className="font-medium">最新条目:</span> [{latest.timestamp.toLocaleTimeString()}]
+          {latest.segmentId ? ` (${latest.segmentId})` : ''} {latest.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptStoreDebug;
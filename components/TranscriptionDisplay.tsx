@@ -1,54 +1,125 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { motion } from 'framer-motion';
-import { calculateTextStatistics, TextStatistics } from '../lib/textUtils';
-import { getSessionSummary, SessionSummary as SessionSummaryType } from '../lib/summaryService';
-
-// 会话总结接口
-interface SessionSummary {
-  scene: string;       // 场景描述
-  topic: string;       // 主题
-  keyPoints: string[]; // 关键点列表
-  summary: string;     // 总体总结
-  updatedAt: Date;     // 更新时间
-}
+import React, { useState, useEffect, useRef, useContext, useMemo } from 'react';
+import { getSessionSummary } from '../lib/summaryService';
+import {
+  TranscriptionItem,
+  SessionSummaryRecord,
+  SessionConfig,
+  SpeakerNames,
+  EditableField,
+  ShowMode
+} from '../lib/transcriptionTypes';
+import { buildSessionJson, buildMeetingMinutes } from '../lib/sessionExport';
+import { getSpeakerName, getSpeakerColor, listSpeakers } from '../lib/speakers';
+import {
+  TranscriptStore,
+  TranscriptStoreContext,
+  createTranscriptStore,
+  useTranscriptStore
+} from '../lib/transcriptStore';
+import {
+  EDITABLE_FIELDS,
+  FIELD_LABELS,
+  EditHistory,
+  EditRecord,
+  EMPTY_EDIT_HISTORY,
+  getEditedValue,
+  getShowModeText,
+  applyEditsToItem,
+  createEditRecord,
+  pushEditRecord,
+  stepBack,
+  stepForward
+} from '../lib/transcriptEdits';
+import {
+  TranscriptFilter,
+  EMPTY_TRANSCRIPT_FILTER,
+  findMatchedFields,
+  matchesFilter,
+  splitByQuery
+} from '../lib/transcriptSearch';
+import { useAutoScroll } from '../lib/useAutoScroll';
+import { useVirtualList } from '../lib/useVirtualList';
+import {
+  ExportFormat,
+  SubtitleTrack,
+  buildSrt,
+  buildWebVtt,
+  buildTimestampedText,
+  buildContinuousText,
+  buildAlignedTable,
+  downloadTextFile,
+  downloadBlob
+} from '../lib/transcriptExport';
+import { DEFAULT_TARGET_LANGUAGES, getLanguageLabel, selectTranslation } from '../lib/translations';
+import { calculateTextStatistics } from '../lib/textUtils';
 
 interface TranscriptionDisplayProps {
-  transcriptions: string[];
-  refinedTranscriptions?: string[];
-  translations?: string[];
-  timestamps?: number[];
-  contextEnhanced?: boolean[];
-  isKeywordMatches?: boolean[];  // 添加关键词匹配列表
-  isContinuations?: boolean[];   // 添加连续文本列表
-  continuationReasons?: string[]; // 添加连续原因列表
   isRecording: boolean;
-  onTranscriptionReceive?: (
-    text: string, 
-    refinedText?: string, 
-    translation?: string, 
-    timestamp?: number, 
-    isKeywordMatch?: boolean,
-    isContinuation?: boolean,
-    continuationReason?: string
-  ) => void;
-}
-
-interface TranscriptionItem {
-  id: string;         // 添加唯一ID
-  text: string;
-  refinedText?: string;
-  translation?: string;
-  timestamp: Date;
-  contextEnhanced?: boolean;
-  isKeywordMatch?: boolean;  // 是否匹配关键词
-  isContinuation?: boolean;  // 是否是连续文本
-  continuationReason?: string; // 连续原因
-  matchedKeywords?: string[];
-  matchReason?: string;
+  readOnly?: boolean;                                   // 只读模式（查看历史会话）
+  initialSummary?: SessionSummaryRecord | null;         // 只读模式下显示的会话总结
+  startTime?: Date;                                     // 会话开始时间（用于字幕时间轴）
+  title?: string;                                       // 会话标题（用于JSON/Markdown导出）
+  config?: SessionConfig;                               // 会话配置（用于JSON/Markdown导出）
+  onSummaryChange?: (summary: SessionSummaryRecord) => void; // 会话总结更新时通知父组件
+  initialSpeakerNames?: SpeakerNames;                   // 已保存的说话人名称
+  onSpeakerNamesChange?: (names: SpeakerNames) => void; // 重命名说话人时通知父组件
+  recording?: Blob | null;                              // 会话录音（用于回放和下载）
 }
 
 const TOKEN_THRESHOLD = 200; // 触发总结的token阈值
 
+// 未传入会话配置时导出使用的默认值
+const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  language: 'zh',
+  model: 'tiny',
+  targetLanguages: DEFAULT_TARGET_LANGUAGES,
+  keywords: []
+};
+
+// 条目的估计高度（像素），用于尚未渲染过的条目
+const ESTIMATED_ITEM_HEIGHT: Record<'timestamp' | 'continuous' | 'columns', number> = {
+  timestamp: 72,
+  continuous: 48,
+  columns: 96
+};
+
+// 各显示模式下编辑的字段
+const SHOW_MODE_FIELDS: Record<ShowMode, EditableField> = {
+  original: 'text',
+  refined: 'refinedText',
+  translation: 'translation'
+};
+
+// 对照视图中尚未到达的内容显示的等待状态
+const PENDING_LABELS: Record<EditableField, string> = {
+  text: '识别中…',
+  refinedText: '优化中…',
+  translation: '翻译中…'
+};
+
+// 录音MIME类型 -> 下载文件扩展名
+const RECORDING_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3'
+};
+
+// 查找回放位置所在的条目：起点不晚于当前位置的条目中起点最晚的一个，超出其结束位置时没有条目在播放
+const findPlayingItemId = (items: TranscriptionItem[], time: number): string | null => {
+  let playing: TranscriptionItem | null = null;
+  for (const item of items) {
+    if (item.audioStart === undefined || item.audioStart > time) continue;
+    if (!playing || item.audioStart >= playing.audioStart!) {
+      playing = item;
+    }
+  }
+  if (!playing || (playing.audioEnd !== undefined && time > playing.audioEnd)) {
+    return null;
+  }
+  return playing.id;
+};
+
 // 添加一个新组件 KeywordMatchIndicator 来显示关键词匹配状态
 const KeywordMatchIndicator: React.FC<{
   isMatched: boolean;
@@ -78,31 +149,78 @@ const KeywordMatchIndicator: React.FC<{
 };
 
 const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ 
-  transcriptions,
-  refinedTranscriptions = [],
-  translations = [],
-  timestamps = [],
-  contextEnhanced = [],
-  isKeywordMatches = [],
-  isContinuations = [],
-  continuationReasons = [],
   isRecording,
-  onTranscriptionReceive
+  readOnly = false,
+  initialSummary = null,
+  startTime,
+  title = '转写结果',
+  config,
+  onSummaryChange,
+  initialSpeakerNames,
+  onSpeakerNamesChange,
+  recording = null
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [items, setItems] = useState<TranscriptionItem[]>([]);
-  const [showMode, setShowMode] = useState<'original' | 'refined' | 'translation'>('original');
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // 条目来自页面通过TranscriptStoreContext提供的存储，页面的持久化、调试面板等读取同一份数据
+  const contextStore = useContext(TranscriptStoreContext);
+  const [store] = useState<TranscriptStore>(() => contextStore || createTranscriptStore());
+  const { version, statistics: modeStatistics } = useTranscriptStore(store);
+  const storeItems = store.getItems();
+  // 多个翻译目标语言时，每个观看者选择显示哪种语言的翻译；选择主翻译以外的语言时，
+  // 条目投影为该语言的翻译，显示、搜索和导出都使用投影后的条目（其他语言的翻译不能编辑）
+  const targetLanguages = (config || DEFAULT_SESSION_CONFIG).targetLanguages;
+  const [translationLanguage, setTranslationLanguage] = useState<string>(targetLanguages[0]);
+  const activeLanguage = targetLanguages.includes(translationLanguage) ? translationLanguage : targetLanguages[0];
+  const isPrimaryTranslation = activeLanguage === targetLanguages[0];
+  const items = useMemo(
+    () => (isPrimaryTranslation ? storeItems : storeItems.map(item => selectTranslation(item, activeLanguage))),
+    [storeItems, isPrimaryTranslation, activeLanguage]
+  );
+  const [showMode, setShowMode] = useState<ShowMode>('original');
   const [displayMode, setDisplayMode] = useState<'timestamp' | 'continuous'>('timestamp'); // 修改模式类型和默认值
-  const [statistics, setStatistics] = useState<TextStatistics>({
-    textCount: 0,
-    totalCharacters: 0,
-    totalTokens: 0
-  });
+  // 对照视图：每个条目一行，原文、优化文本和翻译分列对齐（同一个滚动区域，各列一起滚动）
+  const [columnsView, setColumnsView] = useState<boolean>(false);
+  const [columns, setColumns] = useState<EditableField[]>(['text', 'translation']);
+  // 统计信息由存储增量维护；存储只统计主翻译，查看其他语言的翻译时按投影后的条目计算
+  const otherLanguageStatistics = useMemo(
+    () => (isPrimaryTranslation ? null : calculateTextStatistics(items.map(item => item.translation || ''))),
+    [items, isPrimaryTranslation]
+  );
+  const statistics = showMode === 'translation' && otherLanguageStatistics
+    ? otherLanguageStatistics
+    : modeStatistics[showMode];
   const [recordingStartTime, setRecordingStartTime] = useState<Date | null>(null);
+  // 首次开始录音的时间，停止录音后保留，作为字幕时间轴的起点
+  const [sessionStartTime, setSessionStartTime] = useState<Date | null>(startTime || null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('txt');
+  const [exportRaw, setExportRaw] = useState<boolean>(false);  // 导出原始识别结果，忽略人工编辑
+  const [subtitleTrack, setSubtitleTrack] = useState<SubtitleTrack>('original');
   const [recordingDuration, setRecordingDuration] = useState<string>("00:00:00");
   
+  // 说话人相关状态
+  const [speakerNames, setSpeakerNames] = useState<SpeakerNames>(initialSpeakerNames || {});
+  
+  // 搜索与筛选相关状态
+  const [filter, setFilter] = useState<TranscriptFilter>(EMPTY_TRANSCRIPT_FILTER);
+  const [hitsOnly, setHitsOnly] = useState<boolean>(false);
+  const [activeHitId, setActiveHitId] = useState<string | null>(null);
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [speakerDraft, setSpeakerDraft] = useState<string>('');
+  
+  // 人工编辑相关状态
+  const [editingItem, setEditingItem] = useState<{ id: string; field: EditableField } | null>(null);
+  const [editDraft, setEditDraft] = useState<string>('');
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+  // 同步记录正在编辑的条目，保证保存/取消只处理一次（输入框卸载时可能再触发blur）
+  const editingRef = useRef<{ id: string; field: EditableField } | null>(null);
+  
+  // 录音回放相关状态
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [playingItemId, setPlayingItemId] = useState<string | null>(null);
+  
   // 会话总结相关状态
-  const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null);
+  const [sessionSummary, setSessionSummary] = useState<SessionSummaryRecord | null>(initialSummary);
   const [isFetchingSummary, setIsFetchingSummary] = useState<boolean>(false);
   const [lastProcessedTokens, setLastProcessedTokens] = useState<number>(0);
   const [tokensUntilNextSummary, setTokensUntilNextSummary] = useState<number>(TOKEN_THRESHOLD);
@@ -122,7 +240,9 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
   // 当录音状态改变时更新开始时间
   useEffect(() => {
     if (isRecording && !recordingStartTime) {
-      setRecordingStartTime(new Date());
+      const now = new Date();
+      setRecordingStartTime(now);
+      setSessionStartTime(prev => prev || now);
     } else if (!isRecording) {
       setRecordingStartTime(null);
       setRecordingDuration("00:00:00");
@@ -138,6 +258,15 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
   
+  // 只读模式下用首末条目的时间差作为会话时长
+  useEffect(() => {
+    if (readOnly && items.length > 0) {
+      const first = items[0].timestamp.getTime();
+      const last = items[items.length - 1].timestamp.getTime();
+      setRecordingDuration(formatDuration(Math.max(0, (last - first) / 1000)));
+    }
+  }, [readOnly, items]);
+  
   // 更新录音时长
   useEffect(() => {
     let timer: NodeJS.Timeout;
@@ -157,11 +286,6 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     };
   }, [recordingStartTime, isRecording]);
   
-  // 生成唯一ID的函数
-  const generateId = () => {
-    return Date.now().toString(36) + Math.random().toString(36).substring(2);
-  };
-
   // 监听关键词匹配状态变化
   useEffect(() => {
     // 查找最新的匹配项
@@ -200,133 +324,227 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     }
     return true;
   };
-
-  // 接收转写结果的处理函数
-  const handleTranscriptionResult = (
-    text: string,
-    refinedText?: string,
-    translation?: string,
-    timestamp?: number,
-    isKeywordMatch: boolean = false,
-    isContinuation: boolean = false,
-    continuationReason: string = "",
-    matchedKeywords: string[] = [],
-    matchReason: string = ""
-  ) => {
-    const newItem: TranscriptionItem = {
-      id: generateId(),
-      text,
-      refinedText,
-      translation,
-      timestamp: timestamp ? new Date(timestamp * 1000) : new Date(),
-      isKeywordMatch,
-      isContinuation,
-      continuationReason,
-      matchedKeywords,
-      matchReason
-    };
-
-    // 不在这里设置匹配状态，由useEffect监听items变化统一处理
-    // 避免两个地方都设置状态导致重复渲染
-
-    setItems(prevItems => {
-      if (isContinuation && prevItems.length > 0) {
-        // 如果是连续文本且已有条目，替换最后一个元素
-        const updatedItems = [...prevItems];
-        updatedItems[updatedItems.length - 1] = newItem;
-        console.log('检测到连续文本，替换最后一条记录');
-        return updatedItems;
-      } else {
-        // 否则添加为新条目
-        return [...prevItems, newItem];
-      }
-    });
-  };
-
-  // 将传入的转写结果处理为带时间戳的项目
+  
+  // 为录音创建可播放的URL，录音更新或组件卸载时释放
   useEffect(() => {
-    // 如果有onTranscriptionReceive回调，使用新的处理逻辑
-    if (onTranscriptionReceive) {
-      return; // 由外部处理
+    if (!recording) {
+      setRecordingUrl(null);
+      return;
     }
-    
-    // 否则使用传统的处理方式
-    const newItems = transcriptions.map((text, index) => {
-      const id = generateId();
-      
-      // 如果items中已有此索引的项，则保留其ID和时间戳
-      if (index < items.length) {
-        return {
-          ...items[index],
-          text,
-          refinedText: refinedTranscriptions[index] || undefined,
-          translation: translations[index] || undefined,
-          contextEnhanced: contextEnhanced[index] || false,
-          isKeywordMatch: isKeywordMatches[index] || false,
-          isContinuation: isContinuations[index] || false,
-          continuationReason: continuationReasons[index] || undefined
-        };
+    const url = URL.createObjectURL(recording);
+    setRecordingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+  
+  // 跳转到条目在录音中的位置并播放
+  const seekToItem = (item: TranscriptionItem) => {
+    const audio = audioRef.current;
+    if (!audio || item.audioStart === undefined) return;
+    audio.currentTime = item.audioStart;
+    setPlayingItemId(item.id);
+    audio.play().catch(error => console.error('播放录音失败:', error));
+  };
+  
+  // 下载会话录音
+  const handleDownloadRecording = () => {
+    if (!recording) return;
+    const date = new Date().toISOString().split('T')[0];
+    const extension = RECORDING_EXTENSIONS[recording.type.split(';')[0]] || 'wav';
+    downloadBlob(recording, `${title}_${date}.${extension}`);
+  };
+  
+  // 出现过的说话人
+  const speakerIds = useMemo(() => listSpeakers(items), [items]);
+  
+  // 按筛选条件过滤；有搜索词时找出命中的条目，可选只显示命中的条目。
+  // 流式结果每次更新都会重新渲染，只在条目、搜索词或筛选条件变化时重新计算
+  const searchQuery = filter.query.trim();
+  const hasActiveFilter = filter.keywordOnly || filter.speaker !== 'all' || !!filter.timeFrom || !!filter.timeTo;
+  const filteredItems = useMemo(
+    () => (hasActiveFilter ? items.filter(item => matchesFilter(item, filter)) : items),
+    [items, filter, hasActiveFilter]
+  );
+  const hitIds = useMemo(
+    () => (searchQuery
+      ? filteredItems.filter(item => findMatchedFields(item, searchQuery).length > 0).map(item => item.id)
+      : []),
+    [filteredItems, searchQuery]
+  );
+  const visibleItems = useMemo(() => {
+    if (!searchQuery || !hitsOnly) return filteredItems;
+    const hitIdSet = new Set(hitIds);
+    return filteredItems.filter(item => hitIdSet.has(item.id));
+  }, [filteredItems, hitIds, searchQuery, hitsOnly]);
+  const activeHitIndex = activeHitId ? hitIds.indexOf(activeHitId) : -1;
+  
+  // 只渲染滚动区域内可见的条目
+  const visibleIds = useMemo(() => visibleItems.map(item => item.id), [visibleItems]);
+  const {
+    rows,
+    paddingTop,
+    paddingBottom,
+    totalSize,
+    measureRef,
+    handleScroll: handleVirtualScroll,
+    scrollToIndex
+  } = useVirtualList(containerRef, {
+    keys: visibleIds,
+    estimateSize: ESTIMATED_ITEM_HEIGHT[columnsView ? 'columns' : displayMode],
+    resetKey: columnsView ? `columns:${columns.join(',')}:${activeLanguage}` : `${showMode}:${displayMode}:${activeLanguage}`
+  });
+  
+  // 新的转写结果出现时跟随到底部；用户向上滚动或在搜索结果间跳转时暂停跟随。
+  // 条目渲染后测得的高度与估计值不同，列表总高度变化时同样需要重新滚动到底部
+  const { isFollowing, newCount, handleScroll, jumpToLive } = useAutoScroll(containerRef, {
+    itemCount: items.length,
+    contentKey: `${version}:${totalSize}`,
+    paused: !!activeHitId
+  });
+  
+  // 显示或隐藏对照视图中的一列（至少保留一列），列按原文、优化文本、翻译的顺序排列
+  const toggleColumn = (field: EditableField) => {
+    setColumns(prev => {
+      if (prev.includes(field)) {
+        return prev.length > 1 ? prev.filter(column => column !== field) : prev;
       }
-      
-      // 否则创建新项目
-      return {
-        id,
-        text,
-        refinedText: refinedTranscriptions[index] || undefined,
-        translation: translations[index] || undefined,
-        timestamp: timestamps[index] ? new Date(timestamps[index] * 1000) : new Date(),
-        contextEnhanced: contextEnhanced[index] || false,
-        isKeywordMatch: isKeywordMatches[index] || false,
-        isContinuation: isContinuations[index] || false,
-        continuationReason: continuationReasons[index] || undefined
-      };
+      return EDITABLE_FIELDS.filter(column => column === field || prev.includes(column));
     });
-    
-    // 直接使用新的项目，不进行连续文本处理
-    setItems(newItems);
-    
-    // 记录接收到新转写结果的信息
-    if (newItems.length > items.length) {
-      console.log(`%c接收到新转写结果 (总数: ${newItems.length})`, 'background: #9C27B0; color: white; padding: 2px 6px; border-radius: 4px;');
-    }
-  }, [transcriptions, refinedTranscriptions, translations, timestamps, contextEnhanced, isKeywordMatches, isContinuations, continuationReasons]);
+  };
   
-  // 当新的转写结果出现时，滚动到底部
+  const updateFilter = (changes: Partial<TranscriptFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+  };
+  
+  // 在搜索命中的条目间跳转（首尾循环）
+  const jumpToHit = (direction: 1 | -1) => {
+    if (hitIds.length === 0) return;
+    const nextIndex = activeHitIndex < 0
+      ? (direction > 0 ? 0 : hitIds.length - 1)
+      : (activeHitIndex + direction + hitIds.length) % hitIds.length;
+    setActiveHitId(hitIds[nextIndex]);
+  };
+  
+  // 把当前命中的条目滚动到可见区域（条目可能尚未渲染，按计算出的位置滚动）
+  const activeHitPosition = activeHitId ? visibleIds.indexOf(activeHitId) : -1;
   useEffect(() => {
-    if (containerRef.current) {
-      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    if (activeHitPosition >= 0) {
+      scrollToIndex(activeHitPosition, 'center');
     }
-  }, [items]);
-  
-  // 获取当前显示文本
-  const getDisplayText = (item: TranscriptionItem): string => {
-    switch (showMode) {
-      case 'refined':
-        return item.refinedText || item.text;
-      case 'translation':
-        return item.translation || '';
-      case 'original':
-      default:
-        return item.text;
+  }, [activeHitId, activeHitPosition, scrollToIndex]);
+  
+  // 回放时把正在播放的条目滚动到可见区域
+  const playingPosition = playingItemId ? visibleIds.indexOf(playingItemId) : -1;
+  useEffect(() => {
+    if (playingPosition < 0 || audioRef.current?.paused) return;
+    scrollToIndex(playingPosition, 'nearest');
+  }, [playingItemId, playingPosition, scrollToIndex]);
+  
+  // 高亮显示文本中的搜索词
+  const renderHighlighted = (text: string) => (
+    splitByQuery(text, searchQuery).map((segment, index) => (
+      segment.isMatch
+        ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded-sm">{segment.text}</mark>
+        : <React.Fragment key={index}>{segment.text}</React.Fragment>
+    ))
+  );
+  
+  // 重命名说话人，名称为空时恢复默认名称
+  const renameSpeaker = (speakerId: string, name: string) => {
+    const next = { ...speakerNames };
+    if (name.trim()) {
+      next[speakerId] = name.trim();
+    } else {
+      delete next[speakerId];
     }
+    setSpeakerNames(next);
+    onSpeakerNamesChange?.(next);
+    setEditingSpeaker(null);
   };
   
-  // 更新统计信息并检查是否需要触发总结
+  // 获取当前显示文本（有人工编辑时显示编辑后的文本）
+  const getDisplayText = (item: TranscriptionItem): string => getShowModeText(item, showMode);
+  
+  // 人工编辑只针对主翻译，查看其他语言的翻译时不能编辑翻译
+  const isEditable = (field: EditableField) => field !== 'translation' || isPrimaryTranslation;
+  
+  // 字段的显示名称，多个目标语言时翻译标注当前语言
+  const getFieldLabel = (field: EditableField) => (
+    field === 'translation' && targetLanguages.length > 1
+      ? `${FIELD_LABELS[field]}（${getLanguageLabel(activeLanguage)}）`
+      : FIELD_LABELS[field]
+  );
+  
+  // 开始编辑条目的某个字段，text为输入框的初始内容（当前显示的文本）
+  const startEditing = (item: TranscriptionItem, field: EditableField, text: string) => {
+    if (!isEditable(field)) return;
+    const target = { id: item.id, field };
+    editingRef.current = target;
+    setEditingItem(target);
+    setEditDraft(text);
+  };
+  
+  const cancelEditing = () => {
+    editingRef.current = null;
+    setEditingItem(null);
+  };
+  
+  // 保存编辑：只记录变化，应用到存储中最新的条目上
+  const commitEdit = () => {
+    const target = editingRef.current;
+    if (!target) return;
+    cancelEditing();
+    const item = store.getItem(target.id);
+    const record = item ? createEditRecord(item, target.field, editDraft.trim()) : null;
+    if (!record) return;
+    store.dispatch({ type: 'edit', record, side: 'next' });
+    setEditHistory(prev => pushEditRecord(prev, record));
+  };
+  
+  // 撤销/重做（条目已不存在时只移动编辑记录）
+  const replayEdit = (step: { record: EditRecord; history: EditHistory } | null, side: 'previous' | 'next') => {
+    if (!step) return;
+    store.dispatch({ type: 'edit', record: step.record, side });
+    setEditHistory(step.history);
+  };
+  const undo = () => replayEdit(stepBack(editHistory), 'previous');
+  const redo = () => replayEdit(stepForward(editHistory), 'next');
+  
+  // 键盘监听只注册一次，通过ref调用最新的撤销/重做函数
+  const editShortcutsRef = useRef({ undo, redo });
+  editShortcutsRef.current = { undo, redo };
+  
+  // Ctrl/Cmd+Z撤销，Ctrl/Cmd+Shift+Z或Ctrl+Y重做（输入框内保留浏览器自带的行为）
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        editShortcutsRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        editShortcutsRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+  
+  // 统计信息变化时检查是否需要触发总结
   useEffect(() => {
-    const currentTexts = items.map(item => getDisplayText(item));
-    const stats = calculateTextStatistics(currentTexts);
-    setStatistics(stats);
-    
     // 计算距离下一次总结所需的token数
-    const tokensGained = stats.totalTokens - lastProcessedTokens;
+    const tokensGained = statistics.totalTokens - lastProcessedTokens;
     const tokensRemaining = Math.max(0, TOKEN_THRESHOLD - tokensGained);
     setTokensUntilNextSummary(tokensRemaining);
     
-    // 检查是否达到token阈值触发总结
-    if (tokensGained >= TOKEN_THRESHOLD && items.length > 0 && !isFetchingSummary) {
+    // 检查是否达到token阈值触发总结（只读模式下不自动生成）
+    if (!readOnly && tokensGained >= TOKEN_THRESHOLD && statistics.textCount > 0 && !isFetchingSummary) {
       fetchSessionSummary();
     }
-  }, [items, showMode, lastProcessedTokens, isFetchingSummary]);
+  }, [statistics, lastProcessedTokens, isFetchingSummary, readOnly]);
   
   // 获取会话总结
   const fetchSessionSummary = async () => {
@@ -334,9 +552,9 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
       setIsFetchingSummary(true);
       setSummaryError(null);
       
-      // 提取优化后的文本和时间戳
+      // 提取优化后的文本和时间戳（包含人工编辑）
       const summaryData = items.map(item => ({
-        text: item.refinedText || item.text,
+        text: getEditedValue(item, 'refinedText') || getEditedValue(item, 'text') || '',
         timestamp: item.timestamp.toISOString()
       }));
       
@@ -353,6 +571,7 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
       };
       
       setSessionSummary(newSummary);
+      onSummaryChange?.(newSummary);
       
       // 更新已处理的token数
       setLastProcessedTokens(statistics.totalTokens);
@@ -373,7 +592,7 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
   };
   
   // 将第一次总结发送给后端
-  const sendSummaryToBackend = async (summary: SessionSummary) => {
+  const sendSummaryToBackend = async (summary: SessionSummaryRecord) => {
     if (summarySubmittedToBackend) return; // 避免重复发送
     
     try {
@@ -410,6 +629,51 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     }
   };
   
+  // 按选择的格式导出转写结果
+  const handleExport = () => {
+    const date = new Date().toISOString().split('T')[0];
+    const subtitleOptions = {
+      track: subtitleTrack,
+      recordingStart: sessionStartTime || undefined,
+      speakerNames
+    };
+    
+    // JSON同时包含原始识别结果和人工编辑；其他格式按选择导出编辑后或原始的文本
+    const exportItems = exportRaw
+      ? items.map(item => ({ ...item, edits: undefined }))
+      : items.map(applyEditsToItem);
+    
+    const sessionData = {
+      title,
+      startedAt: sessionStartTime,
+      config: config || DEFAULT_SESSION_CONFIG,
+      summary: sessionSummary,
+      items: storeItems,
+      speakerNames
+    };
+    
+    // 字幕、对照表和纯文本使用当前选择的翻译语言，非主翻译时在文件名中标注语言
+    const suffix = isPrimaryTranslation ? '' : `_${activeLanguage}`;
+    
+    if (exportFormat === 'json') {
+      downloadTextFile(buildSessionJson(sessionData), `${title}_${date}.json`, 'application/json');
+    } else if (exportFormat === 'md') {
+      downloadTextFile(buildMeetingMinutes({ ...sessionData, items: exportItems }), `${title}_${date}.md`, 'text/markdown');
+    } else if (exportFormat === 'aligned') {
+      downloadTextFile(buildAlignedTable(exportItems, columns, speakerNames), `转写对照_${date}${suffix}.md`, 'text/markdown');
+    } else if (exportFormat === 'srt') {
+      downloadTextFile(buildSrt(exportItems, subtitleOptions), `转写结果_${date}${suffix}.srt`, 'application/x-subrip');
+    } else if (exportFormat === 'vtt') {
+      downloadTextFile(buildWebVtt(exportItems, subtitleOptions), `转写结果_${date}${suffix}.vtt`, 'text/vtt');
+    } else {
+      // 根据当前显示模式创建不同格式的导出文本
+      const text = displayMode === 'timestamp'
+        ? buildTimestampedText(exportItems, speakerNames)
+        : buildContinuousText(exportItems, getDisplayText, speakerNames);
+      downloadTextFile(text, `转写结果_${date}${suffix}.txt`);
+    }
+  };
+  
   // 计算进度条百分比
   const calculateProgressPercentage = (): number => {
     if (statistics.totalTokens < lastProcessedTokens) {
@@ -421,6 +685,86 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     return percentage;
   };
   
+  // 渲染条目某个字段的文本：正在编辑时显示输入框，否则显示高亮后的文本、编辑标记和编辑按钮
+  const renderFieldText = (item: TranscriptionItem, field: EditableField, text: string, hint?: React.ReactNode) => {
+    if (editingItem?.id === item.id && editingItem.field === field) {
+      return (
+        <textarea
+          autoFocus
+          className="w-full px-2 py-1 border border-primary-500 rounded-md font-sans text-sm dark:bg-gray-700 dark:text-white"
+          rows={2}
+          value={editDraft}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => setEditDraft(e.target.value)}
+          onBlur={commitEdit}
+          onKeyDown={(e) => {
+            // Enter保存，Shift+Enter换行，Esc取消
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              commitEdit();
+            }
+            if (e.key === 'Escape') cancelEditing();
+          }}
+        />
+      );
+    }
+    
+    // 字段有人工编辑时标注，悬停可查看原始识别结果
+    const isEdited = item.edits?.[field] !== undefined;
+    return (
+      <div className="text" onDoubleClick={() => startEditing(item, field, text)}>
+        {renderHighlighted(text)}
+        {hint}
+        {isEdited && (
+          <span
+            className="ml-1 text-xs font-sans text-gray-400 dark:text-gray-500"
+            title={`原始识别结果: ${item[field] || '（空）'}`}
+          >
+            （已编辑）
+          </span>
+        )}
+        {isEditable(field) && (
+          <button
+            className="ml-1 text-xs font-sans opacity-40 hover:opacity-100"
+            title="编辑（也可双击文本）"
+            onClick={(e) => {
+              e.stopPropagation();
+              startEditing(item, field, text);
+            }}
+          >
+            ✎
+          </button>
+        )}
+      </div>
+    );
+  };
+  
+  // 搜索命中字段未显示时的提示
+  const renderHiddenMatches = (fields: EditableField[]) => (
+    fields.length > 0 && (
+      <span className="ml-1 text-xs font-sans text-primary-600 dark:text-primary-400">
+        （{fields.map(getFieldLabel).join('、')}中命中）
+      </span>
+    )
+  );
+  
+  // 对照视图中的一个单元格；优化文本/翻译尚未到达时显示等待状态（历史会话中显示为无）
+  const renderColumnCell = (item: TranscriptionItem, field: EditableField) => {
+    const text = getEditedValue(item, field) || '';
+    const isEditingCell = editingItem?.id === item.id && editingItem.field === field;
+    if (!text && !isEditingCell) {
+      return (
+        <div
+          className="text text-sm font-sans italic text-gray-400 dark:text-gray-500"
+          onDoubleClick={() => startEditing(item, field, '')}
+        >
+          {readOnly ? '（无）' : PENDING_LABELS[field]}
+        </div>
+      );
+    }
+    return renderFieldText(item, field, text);
+  };
+  
   // 渲染单个转写项目
   const renderTranscriptionItem = (item: TranscriptionItem, index: number) => {
     const displayText = getDisplayText(item);
@@ -428,32 +772,72 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     // 时间戳格式化
     const formattedTime = item.timestamp.toLocaleTimeString();
     
-    // 关键词匹配和连续文本的样式
+    // 连续文本模式下只在换人时显示说话人
+    const speakerColor = item.speaker ? getSpeakerColor(item.speaker) : null;
+    const showTimestamp = columnsView || displayMode === 'timestamp';
+    const showSpeaker = !!item.speaker && (
+      showTimestamp || index === 0 || visibleItems[index - 1].speaker !== item.speaker
+    );
+    
+    // 搜索命中：当前跳转到的条目加框；命中的字段未显示时提示在哪个字段中命中
+    const isActiveHit = item.id === activeHitId;
+    const matchedFields = searchQuery ? findMatchedFields(item, searchQuery) : [];
+    const hiddenMatches = columnsView
+      ? matchedFields.filter(field => !columns.includes(field))
+      : (displayText.toLowerCase().includes(searchQuery.toLowerCase()) ? [] : matchedFields);
+    
+    // 有录音位置时可点击跳转（编辑时除外），正在播放的条目高亮
+    const isEditing = editingItem?.id === item.id;
+    const canSeek = !!recordingUrl && item.audioStart !== undefined && !isEditing;
+    const isPlaying = item.id === playingItemId;
+    
+    // 关键词匹配、连续文本、中间结果和说话人的样式
     const itemClasses = [
       'transcription-item',
       item.contextEnhanced ? 'context-enhanced' : '',
-      item.isKeywordMatch ? 'keyword-match' : ''
+      item.isKeywordMatch ? 'keyword-match' : '',
+      // 中间结果暗色显示，收到最终结果后恢复
+      item.isPartial ? 'opacity-60 italic' : '',
+      speakerColor && showTimestamp ? `border-l-4 pl-2 ${speakerColor.border}` : '',
+      canSeek ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800' : '',
+      isPlaying ? 'bg-yellow-100 dark:bg-yellow-900 transition-colors' : '',
+      isActiveHit ? 'ring-2 ring-primary-400 rounded' : ''
     ].filter(Boolean).join(' ');
     
     return (
-      <motion.div 
-        key={item.id || index}
+      <div
+        data-item-id={item.id}
         className={itemClasses}
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.3 }}
+        title={canSeek ? '点击从此处播放录音' : undefined}
+        onClick={canSeek ? () => seekToItem(item) : undefined}
       >
-        {displayMode === 'timestamp' && (
+        {showTimestamp && (
           <div className="timestamp">{formattedTime}</div>
         )}
-        <div className="text">{displayText}</div>
+        {showSpeaker && speakerColor && (
+          <span className={`inline-block mr-2 px-2 py-0.5 rounded-full text-xs font-sans ${speakerColor.badge}`}>
+            {getSpeakerName(item.speaker!, speakerNames)}
+          </span>
+        )}
+        {columnsView ? (
+          <>
+            {renderHiddenMatches(hiddenMatches)}
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` }}>
+              {columns.map(field => (
+                <div key={field}>{renderColumnCell(item, field)}</div>
+              ))}
+            </div>
+          </>
+        ) : (
+          renderFieldText(item, SHOW_MODE_FIELDS[showMode], displayText, renderHiddenMatches(hiddenMatches))
+        )}
         {item.isContinuation && (
           <div className="continuation-info" title={item.continuationReason}>
             <span className="continuation-icon">↻</span>
             <span className="continuation-text">连续文本</span>
           </div>
         )}
-      </motion.div>
+      </div>
     );
   };
   
@@ -504,7 +888,7 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
               {recordingDuration}
             </div>
             <div className="text-xs text-gray-400 dark:text-gray-500">
-              {isRecording ? "录音中..." : "未录音"}
+              {readOnly ? "历史会话" : isRecording ? "录音中..." : "未录音"}
             </div>
           </div>
           <div className="text-center">
@@ -528,30 +912,32 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
         </div>
         
         {/* 会话总结进度条 */}
-        <div className="mb-4 bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
-          <div className="flex justify-between items-center mb-2">
-            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-200">会话总结进度</h3>
-            <span className="text-xs text-gray-500 dark:text-gray-400">
-              还需 {tokensUntilNextSummary} tokens ({calculateProgressPercentage()}%)
-            </span>
-          </div>
-          <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
-            <div 
-              className={`h-full transition-all duration-300 ease-in-out ${isFetchingSummary ? 'bg-yellow-500 animate-pulse' : 'bg-primary-500'}`}
-              style={{ width: `${calculateProgressPercentage()}%` }}
-            />
-          </div>
-          {isFetchingSummary && (
-            <div className="text-xs text-center mt-1 text-yellow-600 dark:text-yellow-400">
-              正在生成会话总结...
+        {!readOnly && (
+          <div className="mb-4 bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-200">会话总结进度</h3>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                还需 {tokensUntilNextSummary} tokens ({calculateProgressPercentage()}%)
+              </span>
             </div>
-          )}
-          {summaryError && (
-            <div className="text-xs text-center mt-1 text-red-600 dark:text-red-400">
-              {summaryError}
+            <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+              <div 
+                className={`h-full transition-all duration-300 ease-in-out ${isFetchingSummary ? 'bg-yellow-500 animate-pulse' : 'bg-primary-500'}`}
+                style={{ width: `${calculateProgressPercentage()}%` }}
+              />
             </div>
-          )}
-        </div>
+            {isFetchingSummary && (
+              <div className="text-xs text-center mt-1 text-yellow-600 dark:text-yellow-400">
+                正在生成会话总结...
+              </div>
+            )}
+            {summaryError && (
+              <div className="text-xs text-center mt-1 text-red-600 dark:text-red-400">
+                {summaryError}
+              </div>
+            )}
+          </div>
+        )}
         
         {/* 会话总结显示 */}
         {sessionSummary && (
@@ -596,90 +982,351 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
               </div>
             </div>
             
-            <button 
-              className="mt-3 text-xs text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
-              onClick={fetchSessionSummary}
-              disabled={isFetchingSummary}
-            >
-              {isFetchingSummary ? '更新中...' : '手动更新总结'}
-            </button>
+            {!readOnly && (
+              <button 
+                className="mt-3 text-xs text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
+                onClick={fetchSessionSummary}
+                disabled={isFetchingSummary}
+              >
+                {isFetchingSummary ? '更新中...' : '手动更新总结'}
+              </button>
+            )}
           </div>
         )}
         
-        {/* 显示模式选择 */}
+        {/* 显示模式选择；对照视图下选择显示哪些列 */}
         <div className="mb-4 flex justify-between">
+          <div className="flex space-x-2">
+            {columnsView ? (
+              EDITABLE_FIELDS.map(field => (
+                <button
+                  key={field}
+                  className={`px-3 py-1 text-sm rounded-md ${
+                    columns.includes(field)
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                  onClick={() => toggleColumn(field)}
+                  title={columns.includes(field) ? '隐藏该列' : '显示该列'}
+                >
+                  {getFieldLabel(field)}
+                </button>
+              ))
+            ) : (
+              <>
+                <button
+                  className={`px-3 py-1 text-sm rounded-md ${
+                    showMode === 'original' 
+                      ? 'bg-primary-500 text-white' 
+                      : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                  onClick={() => setShowMode('original')}
+                >
+                  原始文本
+                </button>
+                <button
+                  className={`px-3 py-1 text-sm rounded-md ${
+                    showMode === 'refined' 
+                      ? 'bg-primary-500 text-white' 
+                      : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                  onClick={() => setShowMode('refined')}
+                  disabled={!items.some(item => !!item.refinedText)}
+                >
+                  优化文本
+                </button>
+                <button
+                  className={`px-3 py-1 text-sm rounded-md ${
+                    showMode === 'translation' 
+                      ? 'bg-primary-500 text-white' 
+                      : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                  onClick={() => setShowMode('translation')}
+                  disabled={!items.some(item => !!item.translation)}
+                >
+                  翻译文本
+                </button>
+              </>
+            )}
+            {targetLanguages.length > 1 && (
+              <select
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                value={activeLanguage}
+                onChange={(e) => setTranslationLanguage(e.target.value)}
+                title="选择显示和导出的翻译语言"
+              >
+                {targetLanguages.map((language, index) => (
+                  <option key={language} value={language}>
+                    {getLanguageLabel(language)}{index === 0 ? '（主）' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          
+          {/* 撤销/重做人工编辑，以及布局模式切换按钮 */}
           <div className="flex space-x-2">
             <button
-              className={`px-3 py-1 text-sm rounded-md ${
-                showMode === 'original' 
-                  ? 'bg-primary-500 text-white' 
-                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-              }`}
-              onClick={() => setShowMode('original')}
+              className="px-3 py-1 text-sm rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+              onClick={undo}
+              disabled={editHistory.past.length === 0}
+              title="撤销编辑 (Ctrl+Z)"
             >
-              原始文本
+              撤销
             </button>
             <button
-              className={`px-3 py-1 text-sm rounded-md ${
-                showMode === 'refined' 
-                  ? 'bg-primary-500 text-white' 
-                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-              }`}
-              onClick={() => setShowMode('refined')}
-              disabled={!refinedTranscriptions.some(t => !!t)}
+              className="px-3 py-1 text-sm rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+              onClick={redo}
+              disabled={editHistory.future.length === 0}
+              title="重做编辑 (Ctrl+Shift+Z)"
             >
-              优化文本
+              重做
             </button>
             <button
               className={`px-3 py-1 text-sm rounded-md ${
-                showMode === 'translation' 
-                  ? 'bg-primary-500 text-white' 
+                columnsView
+                  ? 'bg-primary-500 text-white'
                   : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
               }`}
-              onClick={() => setShowMode('translation')}
-              disabled={!translations.some(t => !!t)}
+              onClick={() => setColumnsView(!columnsView)}
+              title="原文、优化文本和翻译分列对照显示"
             >
-              翻译文本
+              对照视图
             </button>
+            {!columnsView && (
+              <button
+                className={`px-3 py-1 text-sm rounded-md ${
+                  displayMode === 'timestamp' 
+                    ? 'bg-primary-500 text-white' 
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+                onClick={() => setDisplayMode(displayMode === 'timestamp' ? 'continuous' : 'timestamp')}
+              >
+                {displayMode === 'timestamp' ? '时间戳显示' : '连续文本'}
+              </button>
+            )}
           </div>
-          
-          {/* 修改布局模式切换按钮 */}
-          <div>
+        </div>
+        
+        {/* 搜索与筛选 */}
+        <div className="mb-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="search"
+              className="flex-1 px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              placeholder="搜索原文、优化文本和翻译（Enter下一个，Shift+Enter上一个）"
+              value={filter.query}
+              onChange={(e) => {
+                updateFilter({ query: e.target.value });
+                setActiveHitId(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  jumpToHit(e.shiftKey ? -1 : 1);
+                }
+                if (e.key === 'Escape') {
+                  updateFilter({ query: '' });
+                  setActiveHitId(null);
+                }
+              }}
+            />
+            {searchQuery && (
+              <>
+                <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {hitIds.length === 0 ? '无匹配' : `${activeHitIndex + 1}/${hitIds.length}`}
+                </span>
+                <button
+                  className="px-2 py-1 text-sm rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                  onClick={() => jumpToHit(-1)}
+                  disabled={hitIds.length === 0}
+                  title="上一个"
+                >
+                  ↑
+                </button>
+                <button
+                  className="px-2 py-1 text-sm rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                  onClick={() => jumpToHit(1)}
+                  disabled={hitIds.length === 0}
+                  title="下一个"
+                >
+                  ↓
+                </button>
+              </>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                className="mr-1 h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                checked={hitsOnly}
+                onChange={(e) => setHitsOnly(e.target.checked)}
+              />
+              只显示搜索命中
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                className="mr-1 h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                checked={filter.keywordOnly}
+                onChange={(e) => updateFilter({ keywordOnly: e.target.checked })}
+              />
+              只看关键词命中
+            </label>
+            <span className="flex items-center gap-1">
+              时间
+              <input
+                type="time"
+                className="px-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                value={filter.timeFrom}
+                onChange={(e) => updateFilter({ timeFrom: e.target.value })}
+              />
+              至
+              <input
+                type="time"
+                className="px-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                value={filter.timeTo}
+                onChange={(e) => updateFilter({ timeTo: e.target.value })}
+              />
+            </span>
+            {hasActiveFilter && (
+              <button
+                className="text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
+                onClick={() => setFilter(prev => ({ ...EMPTY_TRANSCRIPT_FILTER, query: prev.query }))}
+              >
+                清除筛选
+              </button>
+            )}
+          </div>
+        </div>
+        
+        {/* 说话人列表：点击名称只看该说话人，点击✎重命名 */}
+        {speakerIds.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-500 dark:text-gray-400">说话人:</span>
             <button
-              className={`px-3 py-1 text-sm rounded-md ${
-                displayMode === 'timestamp' 
-                  ? 'bg-primary-500 text-white' 
+              className={`px-2 py-0.5 text-sm rounded-full ${
+                filter.speaker === 'all'
+                  ? 'bg-primary-500 text-white'
                   : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
               }`}
-              onClick={() => setDisplayMode(displayMode === 'timestamp' ? 'continuous' : 'timestamp')}
+              onClick={() => updateFilter({ speaker: 'all' })}
             >
-              {displayMode === 'timestamp' ? '时间戳显示' : '连续文本'}
+              全部
             </button>
+            {speakerIds.map(speaker => (
+              editingSpeaker === speaker ? (
+                <input
+                  key={speaker}
+                  autoFocus
+                  className="px-2 py-0.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                  value={speakerDraft}
+                  placeholder={getSpeakerName(speaker)}
+                  onChange={(e) => setSpeakerDraft(e.target.value)}
+                  onBlur={() => renameSpeaker(speaker, speakerDraft)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') renameSpeaker(speaker, speakerDraft);
+                    if (e.key === 'Escape') setEditingSpeaker(null);
+                  }}
+                />
+              ) : (
+                <span
+                  key={speaker}
+                  className={`inline-flex items-center px-2 py-0.5 rounded-full text-sm ${getSpeakerColor(speaker).badge} ${
+                    filter.speaker === speaker ? 'ring-2 ring-primary-500' : ''
+                  }`}
+                >
+                  <button
+                    title="只看该说话人"
+                    onClick={() => updateFilter({ speaker: filter.speaker === speaker ? 'all' : speaker })}
+                  >
+                    {getSpeakerName(speaker, speakerNames)}
+                  </button>
+                  <button
+                    className="ml-1 opacity-60 hover:opacity-100"
+                    title="重命名"
+                    onClick={() => {
+                      setSpeakerDraft(speakerNames[speaker] || '');
+                      setEditingSpeaker(speaker);
+                    }}
+                  >
+                    ✎
+                  </button>
+                </span>
+              )
+            ))}
           </div>
-        </div>
+        )}
         
-        <div 
-          ref={containerRef}
-          className="flex-1 overflow-y-auto p-4 rounded-lg bg-white dark:bg-gray-900 shadow-sm border border-gray-200 dark:border-gray-700"
-        >
-          {items.length === 0 ? (
-            <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
-              <p>开始录音后，转写结果将显示在这里</p>
-            </div>
-          ) : displayMode === 'timestamp' ? (
-            // 带时间戳的纯文本模式
-            <div className="whitespace-pre-wrap font-mono leading-relaxed text-gray-800 dark:text-gray-200">
-              {items.map((item, index) => (
-                renderTranscriptionItem(item, index)
-              ))}
-            </div>
-          ) : (
-            // 完全连续的文本模式，没有时间戳和分隔
-            <div className="whitespace-pre-wrap text-gray-800 dark:text-gray-200 text-base leading-relaxed">
-              {items.map((item, index) => (
-                renderTranscriptionItem(item, index)
-              ))}
-            </div>
+        {/* 会话录音回放：点击转写条目跳转，正在播放的条目高亮 */}
+        {recordingUrl && (
+          <audio
+            ref={audioRef}
+            className="mb-4 w-full"
+            controls
+            src={recordingUrl}
+            onTimeUpdate={(e) => setPlayingItemId(findPlayingItemId(items, e.currentTarget.currentTime))}
+            onEnded={() => setPlayingItemId(null)}
+          />
+        )}
+        
+        <div className="relative flex-1 flex flex-col min-h-0">
+          <div 
+            ref={containerRef}
+            onScroll={() => {
+              handleScroll();
+              handleVirtualScroll();
+            }}
+            className="flex-1 overflow-y-auto p-4 rounded-lg bg-white dark:bg-gray-900 shadow-sm border border-gray-200 dark:border-gray-700"
+          >
+            {items.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
+                <p>开始录音后，转写结果将显示在这里</p>
+              </div>
+            ) : visibleItems.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
+                <p>没有符合条件的条目</p>
+              </div>
+            ) : (
+              <>
+                {/* 对照视图的列标题，滚动时固定在顶部 */}
+                {columnsView && (
+                  <div
+                    className="sticky top-0 z-10 mb-2 grid gap-4 pb-1 text-xs font-medium text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700"
+                    style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` }}
+                  >
+                    {columns.map(field => (
+                      <div key={field}>{getFieldLabel(field)}</div>
+                    ))}
+                  </div>
+                )}
+                {/* 带时间戳的纯文本模式（对照视图同样带时间戳），或完全连续的文本模式（没有时间戳和分隔）；
+                    只渲染可见区域内的条目，上下用内边距占位。外层flow-root使测量的高度包含条目的外边距 */}
+                <div
+                  className={columnsView || displayMode === 'timestamp'
+                    ? 'whitespace-pre-wrap font-mono leading-relaxed text-gray-800 dark:text-gray-200'
+                    : 'whitespace-pre-wrap text-gray-800 dark:text-gray-200 text-base leading-relaxed'}
+                  style={{ paddingTop, paddingBottom }}
+                >
+                  {rows.map(row => (
+                    <div key={row.key} ref={measureRef} data-virtual-key={row.key} className="flow-root">
+                      {renderTranscriptionItem(visibleItems[row.index], row.index)}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+          
+          {/* 暂停跟随期间有新内容时提示，点击回到最新 */}
+          {!isFollowing && newCount > 0 && (
+            <button
+              className="absolute bottom-4 left-1/2 -translate-x-1/2 transform px-4 py-1.5 text-sm rounded-full shadow-lg bg-primary-500 hover:bg-primary-600 text-white"
+              onClick={jumpToLive}
+            >
+              {newCount} 条新内容 — 回到最新
+            </button>
           )}
         </div>
         
@@ -687,61 +1334,58 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
           <div className="text-sm text-gray-500 dark:text-gray-400">
             {items.length > 0 ? `最后更新: ${items[items.length-1].timestamp.toLocaleTimeString()}` : "尚无转写结果"}
           </div>
-          <button 
-            className="px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-300 disabled:opacity-50"
-            onClick={() => {
-              // 根据当前显示模式创建不同格式的导出文本
-              let text;
-              
-              if (displayMode === 'timestamp') {
-                // 带时间戳的格式
-                text = items.map(item => {
-                  let result = `[${item.timestamp.toLocaleTimeString()}]\n`;
-                  result += `原文: ${item.text}\n`;
-                  if (item.refinedText) {
-                    result += `优化: ${item.refinedText}\n`;
-                  }
-                  if (item.translation) {
-                    result += `翻译: ${item.translation}\n`;
-                  }
-                  return result;
-                }).join('\n\n');
-              } else {
-                // 连续文本格式
-                text = items.map((item, index) => {
-                  const displayText = getDisplayText(item);
-                  if (index === 0) {
-                    return displayText;
-                  }
-                  // 根据前一条文本长度添加适当的分隔
-                  const prevTextLength = getDisplayText(items[index-1]).length;
-                  return (prevTextLength > 40 ? '. ' : ' ') + displayText;
-                }).join('');
-              }
-              
-              // 创建Blob对象
-              const blob = new Blob([text], { type: 'text/plain' });
-              
-              // 创建URL
-              const url = URL.createObjectURL(blob);
-              
-              // 创建下载链接
-              const a = document.createElement('a');
-              a.href = url;
-              a.download = `转写结果_${new Date().toISOString().split('T')[0]}.txt`;
-              
-              // 模拟点击
-              document.body.appendChild(a);
-              a.click();
-              
-              // 清理
-              document.body.removeChild(a);
-              URL.revokeObjectURL(url);
-            }}
-            disabled={items.length === 0}
-          >
-            导出结果
-          </button>
+          <div className="flex items-center space-x-2">
+            <select
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            >
+              <option value="txt">纯文本 (.txt)</option>
+              <option value="srt">SRT字幕 (.srt)</option>
+              <option value="vtt">WebVTT字幕 (.vtt)</option>
+              <option value="json">完整会话 (.json)</option>
+              <option value="md">会议纪要 (.md)</option>
+              <option value="aligned">对照表 (.md)</option>
+            </select>
+            {(exportFormat === 'srt' || exportFormat === 'vtt') && (
+              <select
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                value={subtitleTrack}
+                onChange={(e) => setSubtitleTrack(e.target.value as SubtitleTrack)}
+              >
+                <option value="original">原始文本</option>
+                <option value="refined">优化文本</option>
+                <option value="translation">翻译文本</option>
+                <option value="bilingual">双语（原文+翻译）</option>
+              </select>
+            )}
+            {exportFormat !== 'json' && items.some(item => item.edits) && (
+              <label className="flex items-center text-sm text-gray-600 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  className="mr-1 h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  checked={exportRaw}
+                  onChange={(e) => setExportRaw(e.target.checked)}
+                />
+                原始识别结果
+              </label>
+            )}
+            <button 
+              className="px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-300 disabled:opacity-50"
+              onClick={handleExport}
+              disabled={items.length === 0}
+            >
+              导出结果
+            </button>
+            {recording && (
+              <button
+                className="px-4 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-300"
+                onClick={handleDownloadRecording}
+              >
+                下载录音
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </div>
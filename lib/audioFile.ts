@@ -0,0 +1,116 @@
+/**
+ * 音频文件的离线转写
+ *
+ * 用decodeAudioData解码WAV/MP3/OGG/WebM文件，再通过OfflineAudioContext下混为单声道并重采样到16kHz，
+ * 之后按与实时采集相同的分块时长转换为Int16 PCM，经同一条sendAudioData路径发送。
+ *
+ * 发送节奏：
+ * - realtime：按媒体时间匀速发送，与实时录音时服务器看到的数据流一致
+ * - fast：不等待媒体时间，只在WebSocket发送缓冲区积压时暂停（背压），由服务器处理速度决定快慢
+ */
+
+import { PCM_TARGET_SAMPLE_RATE } from './pcmEncoder';
+
+export type FilePacing = 'realtime' | 'fast';
+
+// 文件选择框接受的格式
+export const AUDIO_FILE_ACCEPT = '.wav,.mp3,.ogg,.oga,.webm,audio/wav,audio/mpeg,audio/ogg,audio/webm';
+
+// 解码后的音频：16kHz单声道Float32
+export interface DecodedAudioFile {
+  samples: Float32Array;
+  sampleRate: number;
+  durationMs: number;
+}
+
+export interface AudioFileStreamOptions {
+  chunkDurationMs: number;
+  pacing: FilePacing;
+  send: (buffer: ArrayBuffer) => Promise<void>;
+  waitForCapacity?: () => Promise<void>;                    // fast模式下每块发送前等待缓冲区可用
+  onProgress?: (positionMs: number, durationMs: number) => void;
+  signal?: AbortSignal;                                     // 中止后在当前块发送完成后停止
+}
+
+/**
+ * 解码音频文件并转换为16kHz单声道
+ *
+ * @throws 浏览器无法解码该文件时抛出错误
+ */
+export async function decodeAudioFile(
+  file: Blob,
+  sampleRate: number = PCM_TARGET_SAMPLE_RATE
+): Promise<DecodedAudioFile> {
+  const data = await file.arrayBuffer();
+
+  // decodeAudioData会把音频重采样到上下文的采样率，但保留原始声道数
+  let decoded: AudioBuffer;
+  try {
+    decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data);
+  } catch (error) {
+    console.error('解码音频文件失败:', error);
+    throw new Error('无法解码音频文件，请确认格式为WAV、MP3、OGG或WebM');
+  }
+
+  // 通过单声道的OfflineAudioContext渲染一遍，由音频图完成下混
+  const length = Math.max(1, Math.ceil(decoded.duration * sampleRate));
+  const context = new OfflineAudioContext(1, length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+
+  return {
+    samples: rendered.getChannelData(0),
+    sampleRate,
+    durationMs: (rendered.length / sampleRate) * 1000
+  };
+}
+
+// Float32 [-1, 1] -> Int16 PCM
+function toInt16Buffer(samples: Float32Array): ArrayBuffer {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm.buffer;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * 按分块时长发送解码后的音频
+ *
+ * 样本只在发送前逐块转换，不会一次性生成整个文件的Int16副本。
+ * 中止时正常返回，不抛出错误。
+ */
+export async function streamAudioFile(
+  audio: DecodedAudioFile,
+  options: AudioFileStreamOptions
+): Promise<void> {
+  const { samples, sampleRate, durationMs } = audio;
+  const chunkSamples = Math.max(1, Math.round(sampleRate * options.chunkDurationMs / 1000));
+  const startedAt = Date.now();
+
+  for (let offset = 0; offset < samples.length; offset += chunkSamples) {
+    if (options.signal?.aborted) return;
+
+    const positionMs = (offset / sampleRate) * 1000;
+    if (options.pacing === 'realtime') {
+      // 以开始时间为基准计算等待时间，避免定时器误差累积
+      const delay = startedAt + positionMs - Date.now();
+      if (delay > 0) {
+        await wait(delay);
+      }
+    } else {
+      await options.waitForCapacity?.();
+    }
+    if (options.signal?.aborted) return;
+
+    const end = Math.min(offset + chunkSamples, samples.length);
+    await options.send(toInt16Buffer(samples.subarray(offset, end)));
+    options.onProgress?.((end / sampleRate) * 1000, durationMs);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * 上行音频帧格式
+ *
+ * 旧版本的后端只接受不带帧头的Int16 PCM（raw），无法得知采样率、语音门控跳过的静音造成的间隔，
+ * 也无法在重连后判断音频帧的顺序。支持的后端可在config握手中协商使用带帧头的格式（framed），
+ * 每个二进制消息由固定长度的帧头（小端序）和PCM数据组成：
+ *
+ *   偏移  长度  字段
+ *   0     1     版本（AUDIO_FRAME_VERSION）
+ *   1     1     帧头长度（字节），后续版本可在末尾追加字段，服务器按此跳过帧头
+ *   2     1     标志（AUDIO_FRAME_FLAGS）
+ *   3     1     音源（AUDIO_SOURCE_IDS）
+ *   4     4     序号（uint32）
+ *   8     8     采集时间（float64，Unix毫秒）
+ *   16    4     采样率（uint32）
+ *
+ * 语音段边界是不带PCM数据的帧（只有帧头），序号为其后第一个音频帧的序号，与音频帧一起排队，
+ * 因此在积压和重连补发时也保持顺序。
+ *
+ * 协商使用Opus时，带opus标志的帧的数据为若干个Opus包，每个包前有2字节（uint16，小端序）的长度；
+ * 采样率仍为编码前的PCM采样率。未带该标志的帧为PCM（例如协商完成前缓存的音频）。
+ */
+
+import { AudioChannel, AudioFraming } from './protocol';
+
+// 客户端支持的格式，按优先级排列（在config中发送）
+export const SUPPORTED_AUDIO_FRAMINGS: AudioFraming[] = ['framed', 'raw'];
+
+export const AUDIO_FRAME_VERSION = 1;
+export const AUDIO_FRAME_HEADER_BYTES = 20;
+
+export const AUDIO_FRAME_FLAGS = {
+  speechStart: 0x01,    // 语音段开始（边界帧）
+  speechEnd: 0x02,      // 语音段结束（边界帧）
+  silence: 0x04,        // 静音块（语音门控补发的pre-roll或hangover）
+  discontinuity: 0x08,  // 之前有音频帧因发送队列已满被丢弃
+  resent: 0x10,         // 重连后重发，服务器可能已收到
+  opus: 0x20            // 数据为带长度前缀的Opus包
+} as const;
+
+// 音源ID：0为混合音频（未区分通道）
+export const AUDIO_SOURCE_IDS: Record<AudioChannel, number> = {
+  microphone: 1,
+  system: 2
+};
+
+export interface AudioFrameHeader {
+  flags: number;
+  channel?: AudioChannel;
+  sequence: number;
+  capturedAt: number;
+  sampleRate: number;
+}
+
+/**
+ * 编码一个带帧头的音频帧
+ *
+ * @param header 帧头字段
+ * @param pcm Int16 PCM数据，边界帧为空
+ */
+export function encodeAudioFrame(header: AudioFrameHeader, pcm: ArrayBuffer): ArrayBuffer {
+  const frame = new ArrayBuffer(AUDIO_FRAME_HEADER_BYTES + pcm.byteLength);
+  const view = new DataView(frame);
+  view.setUint8(0, AUDIO_FRAME_VERSION);
+  view.setUint8(1, AUDIO_FRAME_HEADER_BYTES);
+  view.setUint8(2, header.flags);
+  view.setUint8(3, header.channel ? AUDIO_SOURCE_IDS[header.channel] : 0);
+  view.setUint32(4, header.sequence, true);
+  view.setFloat64(8, header.capturedAt, true);
+  view.setUint32(16, header.sampleRate, true);
+  new Uint8Array(frame, AUDIO_FRAME_HEADER_BYTES).set(new Uint8Array(pcm));
+  return frame;
+}
+
+/**
+ * 把Opus包打包为一个帧的数据：每个包前加2字节长度
+ */
+export function packOpusPackets(packets: ArrayBuffer[]): ArrayBuffer {
+  const total = packets.reduce((sum, packet) => sum + 2 + packet.byteLength, 0);
+  const payload = new ArrayBuffer(total);
+  const view = new DataView(payload);
+  const bytes = new Uint8Array(payload);
+  let offset = 0;
+  packets.forEach(packet => {
+    view.setUint16(offset, packet.byteLength, true);
+    bytes.set(new Uint8Array(packet), offset + 2);
+    offset += 2 + packet.byteLength;
+  });
+  return payload;
+}
@@ -0,0 +1,119 @@
+/**
+ * 麦克风与系统音频的混音图
+ *
+ * 每个音源：MediaStreamSource -> GainNode（可调增益）-> 电平表worklet
+ *                                                 \-> 混音总线（单声道）
+ *
+ * createMediaStreamSource只会使用MediaStream中的第一个音轨，
+ * 因此两个音源必须各自创建source节点后再在音频图中相加。
+ * 双通道模式下调用方直接使用各音源的增益节点，分别编码后发送。
+ */
+
+export type AudioSourceKind = 'microphone' | 'system';
+
+export const LEVEL_METER_WORKLET_NAME = 'LevelMeterWorklet';
+const LEVEL_METER_WORKLET_URL = '/worklets/level-meter-worklet.js';
+
+// 增益调节范围
+export const MIN_SOURCE_GAIN = 0;
+export const MAX_SOURCE_GAIN = 2;
+export const DEFAULT_SOURCE_GAIN = 1;
+
+export interface AudioMixerOptions {
+  streams: Partial<Record<AudioSourceKind, MediaStream>>;
+  gains: Record<AudioSourceKind, number>;
+  onLevel?: (source: AudioSourceKind, level: number) => void;  // 各音源增益后的电平，0-1
+}
+
+export interface AudioMixer {
+  output: AudioNode;                                 // 混合后的单声道输出
+  sources: AudioSourceKind[];                        // 实际接入的音源
+  getSourceNode: (source: AudioSourceKind) => AudioNode | null;  // 单个音源（增益后）的输出
+  setGain: (source: AudioSourceKind, gain: number) => void;
+  dispose: () => void;
+}
+
+interface MixerInput {
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  meter: AudioWorkletNode | null;
+}
+
+/**
+ * 在指定AudioContext中创建混音图
+ *
+ * @throws 没有可用音源或加载电平表worklet失败时抛出错误
+ */
+export async function createAudioMixer(
+  audioContext: AudioContext,
+  options: AudioMixerOptions
+): Promise<AudioMixer> {
+  const kinds = (Object.keys(options.streams) as AudioSourceKind[])
+    .filter(kind => options.streams[kind]);
+  if (kinds.length === 0) {
+    throw new Error('没有可用的音源');
+  }
+
+  if (options.onLevel) {
+    await audioContext.audioWorklet.addModule(LEVEL_METER_WORKLET_URL);
+  }
+
+  // 混音总线：多个输入在节点输入端相加，并下混为单声道
+  const bus = audioContext.createGain();
+  bus.channelCount = 1;
+  bus.channelCountMode = 'explicit';
+  bus.channelInterpretation = 'speakers';
+
+  const inputs: Partial<Record<AudioSourceKind, MixerInput>> = {};
+  kinds.forEach(kind => {
+    const source = audioContext.createMediaStreamSource(options.streams[kind]!);
+    const gain = audioContext.createGain();
+    gain.gain.value = options.gains[kind];
+    gain.channelCount = 1;
+    gain.channelCountMode = 'explicit';
+    source.connect(gain);
+    gain.connect(bus);
+
+    let meter: AudioWorkletNode | null = null;
+    if (options.onLevel) {
+      const onLevel = options.onLevel;
+      meter = new AudioWorkletNode(audioContext, LEVEL_METER_WORKLET_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit'
+      });
+      meter.port.onmessage = (event: MessageEvent<{ type: 'level'; level: number }>) => {
+        onLevel(kind, event.data.level);
+      };
+      gain.connect(meter);
+    }
+
+    inputs[kind] = { source, gain, meter };
+  });
+
+  return {
+    output: bus,
+    sources: kinds,
+    getSourceNode: (kind: AudioSourceKind) => inputs[kind]?.gain ?? null,
+    setGain: (kind: AudioSourceKind, value: number) => {
+      const input = inputs[kind];
+      if (!input) return;
+      const clamped = Math.max(MIN_SOURCE_GAIN, Math.min(MAX_SOURCE_GAIN, value));
+      // 短暂平滑过渡，避免调节时出现爆音
+      input.gain.gain.setTargetAtTime(clamped, audioContext.currentTime, 0.02);
+    },
+    dispose: () => {
+      Object.values(inputs).forEach(input => {
+        if (!input) return;
+        input.source.disconnect();
+        input.gain.disconnect();
+        if (input.meter) {
+          input.meter.port.onmessage = null;
+          input.meter.disconnect();
+        }
+      });
+      bus.disconnect();
+    }
+  };
+}
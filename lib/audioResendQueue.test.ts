@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import { BackpressurePolicy, QueuedAudioFrame, createAudioResendQueue } from './audioResendQueue';
+
+// 高水位100字节，低水位50字节
+const createQueue = (policy: BackpressurePolicy) => createAudioResendQueue({
+  maxPendingBytes: 100,
+  resumePendingBytes: 50,
+  resendBytes: 100,
+  policy
+});
+
+const chunk = (bytes: number) => new ArrayBuffer(bytes);
+
+// 取出全部待发送条目
+const drain = (queue: ReturnType<typeof createQueue>): QueuedAudioFrame[] => {
+  const frames: QueuedAudioFrame[] = [];
+  let frame = queue.shiftPending();
+  while (frame) {
+    frames.push(frame);
+    frame = queue.shiftPending();
+  }
+  return frames;
+};
+
+describe('createAudioResendQueue', () => {
+  it('drop_oldest：超过高水位时丢弃最早的音频块', () => {
+    const queue = createQueue('drop_oldest');
+    for (let i = 0; i < 6; i++) queue.enqueue(chunk(20));
+
+    expect(queue.getPendingBytes()).toBe(100);
+    expect(queue.getDroppedFrames()).toBe(1);
+    expect(drain(queue).map(frame => frame.sequence)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('drop_silence：先丢弃静音块，没有静音块时再丢弃最早的音频块', () => {
+    const queue = createQueue('drop_silence');
+    queue.enqueue(chunk(20));
+    queue.enqueue(chunk(20), { silence: true });
+    queue.enqueue(chunk(20));
+    queue.enqueue(chunk(20), { silence: true });
+    queue.enqueue(chunk(20));
+    queue.enqueue(chunk(20));  // 超过上限，丢弃序号1（最早的静音块）
+    queue.enqueue(chunk(20));  // 丢弃序号3
+    queue.enqueue(chunk(20));  // 没有静音块，丢弃序号0
+
+    expect(queue.getDroppedFrames()).toBe(3);
+    expect(drain(queue).map(frame => frame.sequence)).toEqual([2, 4, 5, 6, 7]);
+  });
+
+  it('不丢弃语音段边界', () => {
+    const queue = createQueue('drop_silence');
+    queue.enqueueBoundary('speech_start');
+    queue.enqueue(chunk(40), { silence: true });
+    queue.enqueue(chunk(40));
+    queue.enqueueBoundary('speech_end');
+    queue.enqueue(chunk(40));
+
+    const frames = drain(queue);
+    expect(frames.map(frame => frame.boundary ?? frame.sequence)).toEqual(['speech_start', 1, 'speech_end', 2]);
+  });
+
+  it('pause_capture：队列已满时不接受新的音频块，降到低水位以下后恢复', () => {
+    const queue = createQueue('pause_capture');
+    for (let i = 0; i < 6; i++) {
+      expect(queue.enqueue(chunk(20))).not.toBeNull();
+    }
+    expect(queue.isFull()).toBe(true);
+    expect(queue.enqueue(chunk(20))).toBeNull();
+    expect(queue.getDroppedFrames()).toBe(1);
+
+    // 发送到60字节仍高于低水位，继续拒绝
+    queue.shiftPending();
+    queue.shiftPending();
+    queue.shiftPending();
+    expect(queue.getPendingBytes()).toBe(60);
+    expect(queue.enqueue(chunk(20))).toBeNull();
+
+    // 降到40字节（低于低水位）后重新接受
+    queue.shiftPending();
+    expect(queue.isFull()).toBe(false);
+    const frame = queue.enqueue(chunk(20));
+    expect(frame).not.toBeNull();
+    expect(frame!.sequence).toBe(6);
+    expect(frame!.discontinuity).toBe(true);
+  });
+
+  it('pause_capture：队列已满时暂停采集，降到低水位以下后恢复采集', () => {
+    const queue = createQueue('pause_capture');
+    for (let i = 0; i < 5; i++) queue.enqueue(chunk(20));
+    expect(queue.isCapturePaused()).toBe(false);
+
+    // 超过高水位，暂停采集（暂停期间没有新的音频块送来）
+    queue.enqueue(chunk(20));
+    expect(queue.isCapturePaused()).toBe(true);
+    queue.shiftPending();
+    queue.shiftPending();
+    queue.shiftPending();
+    expect(queue.isCapturePaused()).toBe(true);
+
+    // 降到低水位以下恢复采集，恢复后的第一个音频块标记为不连续
+    queue.shiftPending();
+    expect(queue.isCapturePaused()).toBe(false);
+    const resumed = queue.enqueue(chunk(20));
+    expect(resumed!.discontinuity).toBe(true);
+    expect(queue.enqueue(chunk(20))!.discontinuity).toBe(false);
+    expect(queue.getDroppedFrames()).toBe(0);
+  });
+
+  it('暂停采集期间改用其他策略时恢复采集', () => {
+    const queue = createQueue('pause_capture');
+    for (let i = 0; i < 6; i++) queue.enqueue(chunk(20));
+    expect(queue.isCapturePaused()).toBe(true);
+
+    queue.setPolicy('drop_oldest');
+    expect(queue.isCapturePaused()).toBe(false);
+    expect(queue.getPendingBytes()).toBe(100);
+    expect(queue.enqueue(chunk(20))!.discontinuity).toBe(true);
+
+    // 其他策略下已满也不暂停采集，改回pause_capture时立即暂停
+    expect(queue.isFull()).toBe(true);
+    queue.setPolicy('pause_capture');
+    expect(queue.isCapturePaused()).toBe(true);
+  });
+
+  it('超过高水位后处于已满状态，降到低水位以下才恢复', () => {
+    const queue = createQueue('drop_oldest');
+    for (let i = 0; i < 5; i++) queue.enqueue(chunk(20));
+    expect(queue.isFull()).toBe(false);  // 等于高水位不算超过
+
+    queue.enqueue(chunk(20));
+    expect(queue.isFull()).toBe(true);
+
+    // 在两个水位之间保持已满
+    queue.shiftPending();
+    queue.shiftPending();
+    expect(queue.getPendingBytes()).toBe(60);
+    expect(queue.isFull()).toBe(true);
+    queue.shiftPending();
+    expect(queue.getPendingBytes()).toBe(40);
+    expect(queue.isFull()).toBe(false);
+
+    // 恢复后在两个水位之间保持未满
+    queue.enqueue(chunk(20));
+    queue.enqueue(chunk(20));
+    expect(queue.getPendingBytes()).toBe(80);
+    expect(queue.isFull()).toBe(false);
+  });
+
+  it('丢弃音频块后，其后的第一个音频块标记为不连续', () => {
+    const queue = createQueue('drop_oldest');
+    queue.enqueue(chunk(40));
+    queue.enqueueBoundary('speech_start');
+    queue.enqueue(chunk(40));
+    queue.enqueue(chunk(40));  // 丢弃序号0
+
+    const frames = drain(queue);
+    expect(frames.map(frame => frame.boundary ?? frame.sequence)).toEqual(['speech_start', 1, 2]);
+    expect(frames[0].discontinuity).toBe(false);
+    expect(frames[1].discontinuity).toBe(true);
+    expect(frames[2].discontinuity).toBe(false);
+  });
+
+  it('重连后放回的音频超过上限时按策略处理', () => {
+    const queue = createAudioResendQueue({
+      maxPendingBytes: 100,
+      resumePendingBytes: 50,
+      resendBytes: 200,
+      policy: 'drop_oldest'
+    });
+    for (let i = 0; i < 4; i++) queue.enqueue(chunk(20));
+    drain(queue);
+    for (let i = 0; i < 4; i++) queue.enqueue(chunk(20));
+
+    // 放回序号0-3后待发送160字节，丢弃最早的3个
+    expect(queue.rewind(null)).toBe(4);
+    expect(queue.getPendingBytes()).toBe(100);
+    expect(queue.isFull()).toBe(true);
+    const frames = drain(queue);
+    expect(frames.map(frame => frame.sequence)).toEqual([3, 4, 5, 6, 7]);
+    expect(frames[0].resent).toBe(true);
+    expect(frames[0].discontinuity).toBe(true);
+  });
+
+  it('dropEncoded丢弃放回和未发送音频块的Opus数据', () => {
+    const queue = createQueue('drop_oldest');
+    queue.enqueue(chunk(20), { encoded: chunk(4) });
+    drain(queue);
+    queue.enqueue(chunk(20), { encoded: chunk(4) });
+
+    queue.rewind(null);
+    queue.dropEncoded();
+    const frames = drain(queue);
+    expect(frames.map(frame => frame.sequence)).toEqual([0, 1]);
+    frames.forEach(frame => {
+      expect(frame.encoded).toBeUndefined();
+      expect(frame.data.byteLength).toBe(20);
+    });
+  });
+});
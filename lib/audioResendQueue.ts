@@ -0,0 +1,245 @@
+/**
+ * 音频发送队列（背压与断线重连时补发）
+ *
+ * 每个上行音频块按顺序编号后进入队列，网络跟得上时立即取出发送；发送缓冲区积压（网络慢）
+ * 或断线期间留在队列中，积压消退或重连后再发送：
+ * - 已发送的音频块保留最近一段，因为断线前最后发送的数据可能并未到达服务器；
+ *   恢复会话时按服务器确认收到的最后序号，把之后的音频块放回队列重发，服务器按序号去重
+ * - 未发送的音频有上限（高水位），超过时按策略处理，丢弃的音频块使序号出现间隔：
+ *   drop_oldest丢弃最早的音频块；drop_silence先丢弃最早的静音块（语音门控的pre-roll和hangover），
+ *   没有静音块时再丢弃最早的音频块；pause_capture暂停采集（调用方据isCapturePaused停止产生音频），
+ *   直到队列降到低水位以下，暂停期间仍送来的音频块不被接受，恢复后的第一个音频块标记为不连续
+ * - 超过高水位后队列处于已满状态，降到低水位以下才恢复，避免在上限附近反复切换
+ * - 语音段边界作为不带数据的条目随音频块一起排队，序号为其后第一个音频块的序号，
+ *   因此积压或断线期间也与音频保持顺序；边界不占用序号，也不会因队列已满被丢弃
+ */
+
+import { AudioChannel, SpeechBoundaryEventType } from './protocol';
+import { PCM_TARGET_SAMPLE_RATE } from './pcmEncoder';
+
+// 16kHz单声道Int16音频每秒的字节数
+export const PCM_BYTES_PER_SECOND = PCM_TARGET_SAMPLE_RATE * 2;
+
+// 队列已满时的处理策略
+export type BackpressurePolicy = 'drop_oldest' | 'drop_silence' | 'pause_capture';
+
+export const BACKPRESSURE_POLICIES: BackpressurePolicy[] = ['drop_oldest', 'drop_silence', 'pause_capture'];
+
+export const DEFAULT_BACKPRESSURE_POLICY: BackpressurePolicy = 'drop_oldest';
+
+export interface QueuedAudioFrame {
+  sequence: number;
+  data: ArrayBuffer;                   // PCM数据，语音段边界为空
+  encoded?: ArrayBuffer;               // Opus编码后的数据（协商使用Opus时）
+  boundary?: SpeechBoundaryEventType;  // 语音段边界
+  channel?: AudioChannel;              // 双通道模式下所属的通道
+  silence: boolean;                    // 静音块（drop_silence策略优先丢弃）
+  capturedAt: number;                  // 采集时间（Unix毫秒）
+  discontinuity: boolean;              // 紧挨在前面的音频块因队列已满被丢弃
+  resent: boolean;                     // 重连后重发
+  streamOffset: number;                // 在会话上行音频流中的起始位置（字节）
+}
+
+export interface EnqueueAudioOptions {
+  channel?: AudioChannel;
+  silence?: boolean;
+  capturedAt?: number;                 // 默认为加入队列的时间
+  encoded?: ArrayBuffer;
+}
+
+export interface AudioResendQueueOptions {
+  maxPendingBytes: number;     // 高水位：未发送音频的上限
+  resumePendingBytes: number;  // 低水位：队列已满后降到该值以下时恢复
+  resendBytes: number;         // 保留的已发送音频，用于重连后重发
+  policy?: BackpressurePolicy;
+}
+
+export interface AudioResendQueue {
+  // 编号并加入待发送队列；pause_capture策略下队列已满时不接受，返回null
+  enqueue: (data: ArrayBuffer, options?: EnqueueAudioOptions) => QueuedAudioFrame | null;
+  enqueueBoundary: (event: SpeechBoundaryEventType, channel?: AudioChannel) => QueuedAudioFrame;
+  peekPending: () => QueuedAudioFrame | undefined;   // 最早的待发送音频块
+  shiftPending: () => QueuedAudioFrame | undefined;  // 取出最早的待发送音频块（视为已发送）
+  rewind: (lastReceived: number | null) => number;   // 把序号大于lastReceived的已发送音频块放回队列，返回放回的数量
+  dropEncoded: () => void;                           // 丢弃待发送音频块的Opus数据（改发PCM）
+  getPendingBytes: () => number;
+  getLastSentSequence: () => number | null;
+  getStreamBytes: () => number;                      // 已编号的音频总字节数，即下一个音频块在上行流中的位置
+  getDroppedFrames: () => number;                    // 因超出上限丢弃（或暂停期间未接受）的音频块数
+  isFull: () => boolean;                             // 超过高水位后、降到低水位以下之前为true
+  isCapturePaused: () => boolean;                    // pause_capture策略下队列已满，应暂停采集
+  getPolicy: () => BackpressurePolicy;
+  setPolicy: (policy: BackpressurePolicy) => void;
+  reset: () => void;                                 // 清空队列（保留策略）
+}
+
+/**
+ * 创建音频发送队列
+ */
+export function createAudioResendQueue({
+  maxPendingBytes,
+  resumePendingBytes,
+  resendBytes,
+  policy: initialPolicy = DEFAULT_BACKPRESSURE_POLICY
+}: AudioResendQueueOptions): AudioResendQueue {
+  let pending: QueuedAudioFrame[] = [];
+  let sent: QueuedAudioFrame[] = [];
+  let pendingBytes = 0;
+  let sentBytes = 0;
+  let nextSequence = 0;
+  let streamBytes = 0;
+  let lastSentSequence: number | null = null;
+  let droppedFrames = 0;
+  let full = false;
+  let policy = initialPolicy;
+  let gapSinceAccepted = false;        // pause_capture策略下上一个音频块之后暂停过采集或有音频块未被接受
+
+  // 丢弃一个音频块，之后的音频块标记为不连续
+  const dropPendingAt = (index: number) => {
+    const [dropped] = pending.splice(index, 1);
+    pendingBytes -= dropped.data.byteLength;
+    droppedFrames++;
+    const next = pending.slice(index).find(frame => !frame.boundary);
+    if (next) next.discontinuity = true;
+  };
+
+  // 按策略丢弃未发送的音频直到不超过上限，至少保留刚加入的音频块；不丢弃语音段边界
+  const trimPending = () => {
+    const droppable = (frame: QueuedAudioFrame, index: number) => !frame.boundary && index < pending.length - 1;
+    while (pendingBytes > maxPendingBytes) {
+      const silenceIndex = policy === 'drop_silence'
+        ? pending.findIndex((frame, index) => frame.silence && droppable(frame, index))
+        : -1;
+      const index = silenceIndex >= 0 ? silenceIndex : pending.findIndex(droppable);
+      if (index < 0) break;
+      dropPendingAt(index);
+    }
+  };
+
+  const updateFull = () => {
+    if (pendingBytes > maxPendingBytes) {
+      full = true;
+    } else if (pendingBytes < resumePendingBytes) {
+      full = false;
+    }
+    // 暂停采集期间的音频缺失，恢复后的第一个音频块与之前的音频不连续
+    if (full && policy === 'pause_capture') {
+      gapSinceAccepted = true;
+    }
+  };
+
+  return {
+    enqueue: (data: ArrayBuffer, { channel, silence = false, capturedAt = Date.now(), encoded }: EnqueueAudioOptions = {}) => {
+      if (policy === 'pause_capture' && full) {
+        droppedFrames++;
+        return null;
+      }
+
+      const frame: QueuedAudioFrame = {
+        sequence: nextSequence++,
+        data,
+        encoded,
+        channel,
+        silence,
+        capturedAt,
+        discontinuity: gapSinceAccepted,
+        resent: false,
+        streamOffset: streamBytes
+      };
+      gapSinceAccepted = false;
+      streamBytes += data.byteLength;
+      pending.push(frame);
+      pendingBytes += data.byteLength;
+
+      updateFull();
+      if (policy !== 'pause_capture') {
+        trimPending();
+      }
+      return frame;
+    },
+    enqueueBoundary: (event: SpeechBoundaryEventType, channel?: AudioChannel) => {
+      const frame: QueuedAudioFrame = {
+        sequence: nextSequence,
+        data: new ArrayBuffer(0),
+        boundary: event,
+        channel,
+        silence: false,
+        capturedAt: Date.now(),
+        discontinuity: false,
+        resent: false,
+        streamOffset: streamBytes
+      };
+      pending.push(frame);
+      return frame;
+    },
+    peekPending: () => pending[0],
+    shiftPending: () => {
+      const frame = pending.shift();
+      if (!frame) return undefined;
+      pendingBytes -= frame.data.byteLength;
+      updateFull();
+
+      sent.push(frame);
+      sentBytes += frame.data.byteLength;
+      if (!frame.boundary) {
+        lastSentSequence = frame.sequence;
+      }
+      while (sentBytes > resendBytes && sent.length > 0) {
+        sentBytes -= sent.shift()!.data.byteLength;
+      }
+      return frame;
+    },
+    rewind: (lastReceived: number | null) => {
+      const resend = sent.filter(frame => lastReceived === null || frame.sequence > lastReceived);
+      if (resend.length === 0) return 0;
+
+      sent = sent.slice(0, sent.length - resend.length);
+      resend.forEach(frame => {
+        frame.resent = true;
+      });
+      const bytes = resend.reduce((sum, frame) => sum + frame.data.byteLength, 0);
+      sentBytes -= bytes;
+      pending = [...resend, ...pending];
+      pendingBytes += bytes;
+      // 放回的音频同样受上限约束
+      updateFull();
+      if (policy !== 'pause_capture') {
+        trimPending();
+      }
+      const lastSentFrame = [...sent].reverse().find(frame => !frame.boundary);
+      lastSentSequence = lastSentFrame ? lastSentFrame.sequence : lastReceived;
+      return resend.length;
+    },
+    dropEncoded: () => {
+      pending.forEach(frame => {
+        frame.encoded = undefined;
+      });
+    },
+    getPendingBytes: () => pendingBytes,
+    getLastSentSequence: () => lastSentSequence,
+    getStreamBytes: () => streamBytes,
+    getDroppedFrames: () => droppedFrames,
+    isFull: () => full,
+    isCapturePaused: () => full && policy === 'pause_capture',
+    getPolicy: () => policy,
+    setPolicy: (next: BackpressurePolicy) => {
+      policy = next;
+      if (policy !== 'pause_capture') {
+        trimPending();
+      }
+      updateFull();
+    },
+    reset: () => {
+      pending = [];
+      sent = [];
+      pendingBytes = 0;
+      sentBytes = 0;
+      nextSequence = 0;
+      streamBytes = 0;
+      lastSentSequence = null;
+      droppedFrames = 0;
+      full = false;
+      gapSinceAccepted = false;
+    }
+  };
+}
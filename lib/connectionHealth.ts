@@ -0,0 +1,244 @@
+/**
+ * 连接健康状态
+ *
+ * 收集上行连接的各项指标：心跳往返时间（RTT）、已发送的字节和音频帧、被语音门控跳过的音频帧、
+ * WebSocket发送缓冲区积压（bufferedAmount），以及从音频发出到收到对应转写结果的端到端延迟。
+ *
+ * 计数器随事件即时更新，但快照只在定时采样、连接状态变化和收到心跳回复时重新生成，
+ * 避免每个音频块都触发界面更新。通过subscribe/getSnapshot接入React的useSyncExternalStore。
+ */
+
+import { useSyncExternalStore } from 'react';
+import { AudioCodec, AudioFraming } from './protocol';
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface ConnectionHealthSnapshot {
+  status: ConnectionStatus;
+  audioFraming: AudioFraming | null; // 协商的音频帧格式，尚未完成配置握手时为空
+  audioCodec: AudioCodec | null;     // 协商的音频编码
+  rttMs: number | null;              // 最近一次心跳的往返时间
+  averageRttMs: number | null;       // 平滑后的往返时间
+  missedPongs: number;               // 连续未收到回复的心跳数
+  bytesSent: number;                 // 已发送的音频字节（含重连后重发）
+  framesSent: number;
+  sendRate: number;                  // 最近一个采样周期的发送速率（字节/秒）
+  capturedFrames: number;            // 采集到的音频帧
+  gatedFrames: number;               // 被语音门控跳过（未发送）的音频帧
+  droppedFrames: number;             // 发送队列已满时丢弃（或暂停采集时未接受）的音频帧
+  bufferedAmount: number;            // WebSocket发送缓冲区中尚未发出的字节
+  pendingBytes: number;              // 发送队列中等待发送的音频字节
+  latencyMs: number | null;          // 最近一次转写结果的端到端延迟
+  averageLatencyMs: number | null;
+  updatedAt: number;
+}
+
+// 定时采样时由服务提供的当前值
+export interface ConnectionHealthSample {
+  bufferedAmount: number;
+  pendingBytes: number;
+  droppedFrames: number;
+}
+
+export interface ConnectionHealthSource {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => ConnectionHealthSnapshot;
+}
+
+export interface ConnectionHealthMonitor extends ConnectionHealthSource {
+  setStatus: (status: ConnectionStatus) => void;
+  setAudioFraming: (framing: AudioFraming) => void;
+  setAudioCodec: (codec: AudioCodec) => void;
+  recordPing: (id: number) => void;
+  recordPong: (id: number | undefined) => void;                  // 收到回复，更新RTT并立即发布
+  recordMissedPong: () => number;                                // 返回连续未回复的心跳数
+  hasReceivedPong: () => boolean;                                // 本次连接上是否收到过心跳回复
+  recordFrameSent: (sequence: number, bytes: number, streamEndSeconds: number) => void;
+  recordGateResult: (captured: number, passed: number) => void;  // 送入语音门控的帧数和门控放行的帧数
+  recordTranscript: (audioEndSeconds: number | undefined) => void;
+  resetConnection: () => void;                                   // 新连接：清空心跳状态
+  sample: (current: ConnectionHealthSample) => void;             // 定时采样并发布快照
+  reset: () => void;                                             // 新会话：清空全部计数
+}
+
+// 平滑系数：新测量值所占的比重
+const SMOOTHING = 0.2;
+// 最多保留的已发送音频帧时间记录（用于计算端到端延迟）
+const MAX_SENT_FRAME_RECORDS = 2000;
+
+const smooth = (average: number | null, value: number) =>
+  average === null ? value : average + SMOOTHING * (value - average);
+
+/**
+ * 创建连接健康状态监视器
+ */
+export function createConnectionHealth(): ConnectionHealthMonitor {
+  const listeners = new Set<() => void>();
+  const pendingPings = new Map<number, number>();  // 心跳ID -> 发送时间
+  // 首次发送的音频帧：在会话上行音频流中的结束位置（秒）和发送时间，按位置递增
+  let sentFrames: { streamEnd: number; sentAt: number }[] = [];
+  let lastTimedSequence = -1;
+
+  let status: ConnectionStatus = 'disconnected';
+  let audioFraming: AudioFraming | null = null;
+  let audioCodec: AudioCodec | null = null;
+  let rttMs: number | null = null;
+  let averageRttMs: number | null = null;
+  let missedPongs = 0;
+  let pongReceived = false;
+  let bytesSent = 0;
+  let framesSent = 0;
+  let sendRate = 0;
+  let capturedFrames = 0;
+  let passedFrames = 0;
+  let droppedFrames = 0;
+  let bufferedAmount = 0;
+  let pendingBytes = 0;
+  let latencyMs: number | null = null;
+  let averageLatencyMs: number | null = null;
+  let lastSampleAt = Date.now();
+  let lastSampleBytes = 0;
+
+  const buildSnapshot = (): ConnectionHealthSnapshot => ({
+    status,
+    audioFraming,
+    audioCodec,
+    rttMs,
+    averageRttMs,
+    missedPongs,
+    bytesSent,
+    framesSent,
+    sendRate,
+    capturedFrames,
+    // 门控缓存的pre-roll稍后可能放行，这里按累计的差值计算
+    gatedFrames: Math.max(0, capturedFrames - passedFrames),
+    droppedFrames,
+    bufferedAmount,
+    pendingBytes,
+    latencyMs,
+    averageLatencyMs,
+    updatedAt: Date.now()
+  });
+
+  let snapshot = buildSnapshot();
+
+  const publish = () => {
+    snapshot = buildSnapshot();
+    listeners.forEach(listener => listener());
+  };
+
+  const resetConnection = () => {
+    pendingPings.clear();
+    missedPongs = 0;
+    pongReceived = false;
+  };
+
+  return {
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+    setStatus: (next: ConnectionStatus) => {
+      if (next === status) return;
+      status = next;
+      publish();
+    },
+    setAudioFraming: (framing: AudioFraming) => {
+      if (framing === audioFraming) return;
+      audioFraming = framing;
+      publish();
+    },
+    setAudioCodec: (codec: AudioCodec) => {
+      if (codec === audioCodec) return;
+      audioCodec = codec;
+      publish();
+    },
+    recordPing: (id: number) => {
+      pendingPings.set(id, performance.now());
+    },
+    recordPong: (id: number | undefined) => {
+      // 服务器未回传ID时按最早发出的心跳计算
+      const key = id !== undefined && pendingPings.has(id) ? id : pendingPings.keys().next().value;
+      if (key === undefined) return;
+      const sentAt = pendingPings.get(key)!;
+      // 更早的心跳不会再有回复
+      Array.from(pendingPings.keys()).filter(pingId => pingId <= key).forEach(pingId => pendingPings.delete(pingId));
+
+      rttMs = performance.now() - sentAt;
+      averageRttMs = smooth(averageRttMs, rttMs);
+      missedPongs = 0;
+      pongReceived = true;
+      publish();
+    },
+    recordMissedPong: () => ++missedPongs,
+    hasReceivedPong: () => pongReceived,
+    recordFrameSent: (sequence: number, bytes: number, streamEndSeconds: number) => {
+      bytesSent += bytes;
+      framesSent++;
+      // 重发的音频帧不更新发送时间
+      if (sequence > lastTimedSequence) {
+        lastTimedSequence = sequence;
+        sentFrames.push({ streamEnd: streamEndSeconds, sentAt: Date.now() });
+        if (sentFrames.length > MAX_SENT_FRAME_RECORDS) {
+          sentFrames = sentFrames.slice(sentFrames.length - MAX_SENT_FRAME_RECORDS / 2);
+        }
+      }
+    },
+    recordGateResult: (captured: number, passed: number) => {
+      capturedFrames += captured;
+      passedFrames += passed;
+    },
+    recordTranscript: (audioEndSeconds: number | undefined) => {
+      if (audioEndSeconds === undefined) return;
+      // 结果覆盖到的最后一个音频帧：结束位置不早于audio_end的第一个帧（允许1毫秒误差）
+      const index = sentFrames.findIndex(frame => frame.streamEnd >= audioEndSeconds - 0.001);
+      if (index < 0) return;
+      latencyMs = Date.now() - sentFrames[index].sentAt;
+      averageLatencyMs = smooth(averageLatencyMs, latencyMs);
+    },
+    resetConnection,
+    sample: (current: ConnectionHealthSample) => {
+      const now = Date.now();
+      const elapsed = (now - lastSampleAt) / 1000;
+      sendRate = elapsed > 0 ? (bytesSent - lastSampleBytes) / elapsed : 0;
+      lastSampleAt = now;
+      lastSampleBytes = bytesSent;
+      bufferedAmount = current.bufferedAmount;
+      pendingBytes = current.pendingBytes;
+      droppedFrames = current.droppedFrames;
+      publish();
+    },
+    reset: () => {
+      resetConnection();
+      audioFraming = null;
+      audioCodec = null;
+      sentFrames = [];
+      lastTimedSequence = -1;
+      rttMs = null;
+      averageRttMs = null;
+      bytesSent = 0;
+      framesSent = 0;
+      sendRate = 0;
+      capturedFrames = 0;
+      passedFrames = 0;
+      droppedFrames = 0;
+      bufferedAmount = 0;
+      pendingBytes = 0;
+      latencyMs = null;
+      averageLatencyMs = null;
+      lastSampleAt = Date.now();
+      lastSampleBytes = 0;
+      publish();
+    }
+  };
+}
+
+/**
+ * 订阅连接健康状态，定时采样或状态变化时重新渲染
+ */
+export function useConnectionHealth(source: ConnectionHealthSource): ConnectionHealthSnapshot {
+  return useSyncExternalStore(source.subscribe, source.getSnapshot, source.getSnapshot);
+}
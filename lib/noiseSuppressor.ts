@@ -0,0 +1,72 @@
+/**
+ * RNNoise降噪AudioWorklet的主线程封装
+ *
+ * worklet在音频线程中加载RNNoise WASM模块，将128采样的渲染块缓冲成480采样的帧进行降噪，
+ * 并通过port回传每帧的语音概率（VAD）。WASM加载失败时worklet会直接传递音频并报告错误。
+ */
+
+export const NOISE_SUPPRESSOR_WORKLET_NAME = 'NoiseSuppressorWorklet';
+const NOISE_SUPPRESSOR_WORKLET_URL = '/worklets/noise-suppressor-worklet.js';
+
+// RNNoise模型按48kHz训练，降噪时应使用此采样率的AudioContext
+export const RNNOISE_SAMPLE_RATE = 48000;
+
+export interface NoiseSuppressorOptions {
+  onVoiceProbability?: (probability: number) => void;  // 每帧（480采样）的语音概率，0-1
+  onReady?: () => void;
+  onError?: (error: Error) => void;                    // WASM加载失败，此时音频原样通过
+}
+
+export interface NoiseSuppressor {
+  node: AudioWorkletNode;
+  dispose: () => void;
+}
+
+// worklet发送给主线程的消息
+type NoiseSuppressorMessage =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'vad'; probability: number };
+
+/**
+ * 在指定AudioContext中创建RNNoise降噪节点
+ *
+ * @throws 加载worklet模块失败时抛出错误（例如RNNoise文件未复制到public目录）
+ */
+export async function createNoiseSuppressor(
+  audioContext: AudioContext,
+  options: NoiseSuppressorOptions = {}
+): Promise<NoiseSuppressor> {
+  await audioContext.audioWorklet.addModule(NOISE_SUPPRESSOR_WORKLET_URL);
+
+  const node = new AudioWorkletNode(audioContext, NOISE_SUPPRESSOR_WORKLET_NAME, {
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    outputChannelCount: [1]
+  });
+
+  node.port.onmessage = (event: MessageEvent<NoiseSuppressorMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'vad':
+        options.onVoiceProbability?.(message.probability);
+        break;
+      case 'ready':
+        options.onReady?.();
+        break;
+      case 'error':
+        options.onError?.(new Error(`RNNoise加载失败: ${message.message}`));
+        break;
+    }
+  };
+
+  return {
+    node,
+    dispose: () => {
+      node.port.onmessage = null;
+      // 释放worklet中的WASM内存
+      node.port.postMessage({ type: 'destroy' });
+      node.disconnect();
+    }
+  };
+}
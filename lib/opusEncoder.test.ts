@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Decoder } from '@evan/opus';
+import { createOpusEncoder, isOpusEncodingSupported } from './opusEncoder';
+
+const OPUS_WASM = readFileSync(join(__dirname, '../node_modules/@evan/opus/wasm/opus.wasm'));
+
+// 16kHz下durationMs的正弦波（Int16 PCM）
+const tone = (frequency: number, durationMs: number, offset = 0): ArrayBuffer => {
+  const samples = new Int16Array(16 * durationMs);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(8000 * Math.sin(2 * Math.PI * frequency * (offset + i) / 16000));
+  }
+  return samples.buffer;
+};
+
+const rms = (samples: Int16Array): number => {
+  let sum = 0;
+  samples.forEach(sample => { sum += sample * sample; });
+  return Math.sqrt(sum / samples.length);
+};
+
+describe('createOpusEncoder（WASM）', () => {
+  const fetchMock = vi.fn(async () => new Response(OPUS_WASM));
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('没有WebCodecs时使用WASM编码器，每20毫秒输出一个Opus包', async () => {
+    expect(isOpusEncodingSupported()).toBe(false);
+    const encoder = await createOpusEncoder(24000);
+    expect(encoder).not.toBeNull();
+    expect(fetchMock).toHaveBeenCalledWith('/opus/opus.wasm');
+
+    // 250毫秒的块不是20毫秒的整数倍，不足一帧的采样留到下一块
+    const counts: number[] = [];
+    const packets: ArrayBuffer[] = [];
+    for (let i = 0; i < 4; i++) {
+      const encoded = await encoder!.encode(tone(440, 250, i * 4000));
+      counts.push(encoded.length);
+      packets.push(...encoded);
+    }
+    expect(counts).toEqual([12, 13, 12, 13]);
+    packets.forEach(packet => expect(packet.byteLength).toBeGreaterThan(0));
+
+    // 解码后得到相同时长、能量相近的音频
+    const decoder = new Decoder({ channels: 1, sample_rate: 16000 });
+    const decoded = packets.map(packet => new Int16Array(decoder.decode(new Uint8Array(packet)).slice().buffer));
+    const samples = new Int16Array(decoded.reduce((sum, part) => sum + part.length, 0));
+    decoded.reduce((offset, part) => {
+      samples.set(part, offset);
+      return offset + part.length;
+    }, 0);
+    expect(samples.length).toBe(16000);
+    const expected = rms(new Int16Array(tone(440, 1000)));
+    expect(rms(samples.subarray(1600)) / expected).toBeGreaterThan(0.7);
+    expect(rms(samples.subarray(1600)) / expected).toBeLessThan(1.3);
+    encoder!.close();
+  });
+
+  it('修改码率在下一个音频块生效', async () => {
+    const encoder = (await createOpusEncoder(48000))!;
+    const averageBytes = async () => {
+      const packets = await encoder.encode(tone(440, 500));
+      return packets.reduce((sum, packet) => sum + packet.byteLength, 0) / packets.length;
+    };
+    await averageBytes();
+    const high = await averageBytes();
+    await encoder.setBitrate(12000);
+    await averageBytes();
+    const low = await averageBytes();
+    // 48kbit/s约120字节/包，12kbit/s约30字节/包
+    expect(low).toBeLessThan(high / 2);
+    encoder.close();
+  });
+
+  it('关闭后不能继续编码', async () => {
+    const encoder = (await createOpusEncoder(24000))!;
+    encoder.close();
+    await expect(encoder.encode(tone(440, 20))).rejects.toThrow();
+  });
+});
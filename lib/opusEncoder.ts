@@ -0,0 +1,295 @@
+/**
+ * Opus上行音频编码
+ *
+ * 16kHz单声道Int16 PCM约为256kbit/s，在手机热点等窄带网络下负担很重；编码为Opus后只需十几到几十kbit/s。
+ * 优先使用浏览器的WebCodecs AudioEncoder；不支持WebCodecs的浏览器改用libopus的WASM构建
+ * （来自@evan/opus，由scripts/copy-opus.js复制到public/opus/），两者都不可用时继续发送PCM。
+ *
+ * 编码器按20毫秒的Opus帧编码，每次传入的音频块中不足一帧的采样留到下一块，
+ * 因此返回的Opus包与音频块不一定一一对应，但在上行流中是连续的。
+ * Opus编码器有状态，每路音源（混合音频、双通道模式下的麦克风和系统声音）各用一个编码器。
+ */
+
+import { PCM_TARGET_SAMPLE_RATE } from './pcmEncoder';
+
+export const OPUS_BITRATE_OPTIONS = [12000, 16000, 24000, 32000, 48000];
+export const DEFAULT_OPUS_BITRATE = 24000;
+export const OPUS_FRAME_DURATION_MS = 20;
+
+const OPUS_FRAME_SAMPLES = PCM_TARGET_SAMPLE_RATE * OPUS_FRAME_DURATION_MS / 1000;
+// 等待WebCodecs输出编码结果的最长时间
+const ENCODE_TIMEOUT_MS = 2000;
+
+const OPUS_WASM_URL = '/opus/opus.wasm';
+// libopus常量
+const OPUS_APPLICATION_VOIP = 2048;
+const OPUS_SET_BITRATE_REQUEST = 4002;
+// 单个Opus包的最大字节数（libopus推荐值）
+const MAX_PACKET_BYTES = 4000;
+
+export interface OpusEncoder {
+  encode: (pcm: ArrayBuffer) => Promise<ArrayBuffer[]>;  // Int16 PCM -> 本次完成编码的Opus包
+  setBitrate: (bitrate: number) => Promise<void>;       // 在进行中的编码完成后重新配置
+  close: () => void;
+}
+
+// 把PCM切成整帧，不足一帧的采样留在remainder中
+function createFramer() {
+  let remainder = new Int16Array(0);
+  return (pcm: ArrayBuffer): Int16Array[] => {
+    const input = new Int16Array(pcm);
+    const samples = new Int16Array(remainder.length + input.length);
+    samples.set(remainder);
+    samples.set(input, remainder.length);
+
+    const frames: Int16Array[] = [];
+    let offset = 0;
+    for (; offset + OPUS_FRAME_SAMPLES <= samples.length; offset += OPUS_FRAME_SAMPLES) {
+      frames.push(samples.slice(offset, offset + OPUS_FRAME_SAMPLES));
+    }
+    remainder = samples.slice(offset);
+    return frames;
+  };
+}
+
+const webCodecsConfig = (bitrate: number): AudioEncoderConfig => ({
+  codec: 'opus',
+  sampleRate: PCM_TARGET_SAMPLE_RATE,
+  numberOfChannels: 1,
+  bitrate,
+  opus: { frameDuration: OPUS_FRAME_DURATION_MS * 1000, format: 'opus' }
+});
+
+/**
+ * 浏览器是否提供WebCodecs音频编码（是否支持Opus还需以createOpusEncoder的结果为准）
+ */
+export function isOpusEncodingSupported(): boolean {
+  return typeof AudioEncoder !== 'undefined' && typeof AudioData !== 'undefined';
+}
+
+async function createWebCodecsEncoder(bitrate: number): Promise<OpusEncoder | null> {
+  if (!isOpusEncodingSupported()) return null;
+  const support = await AudioEncoder.isConfigSupported(webCodecsConfig(bitrate));
+  if (!support.supported) return null;
+
+  const frame = createFramer();
+  let output: ArrayBuffer[] = [];
+  let expected = 0;
+  let waiter: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  let encodeError: Error | null = null;
+  let timestampUs = 0;
+  // 编码和修改码率依次执行：新码率在上一个音频块编码完成后才生效
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const settle = () => {
+    if (waiter && (encodeError || output.length >= expected)) {
+      const current = waiter;
+      waiter = null;
+      if (encodeError) current.reject(encodeError);
+      else current.resolve();
+    }
+  };
+
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const packet = new ArrayBuffer(chunk.byteLength);
+      chunk.copyTo(packet);
+      output.push(packet);
+      settle();
+    },
+    error: (error) => {
+      encodeError = error instanceof Error ? error : new Error(String(error));
+      settle();
+    }
+  });
+  encoder.configure(webCodecsConfig(bitrate));
+
+  return {
+    encode: (pcm: ArrayBuffer) => serialize(async () => {
+      if (encodeError) throw encodeError;
+      const frames = frame(pcm);
+      expected += frames.length;
+      frames.forEach(samples => {
+        const data = new AudioData({
+          format: 's16',
+          sampleRate: PCM_TARGET_SAMPLE_RATE,
+          numberOfChannels: 1,
+          numberOfFrames: samples.length,
+          timestamp: timestampUs,
+          data: samples
+        });
+        timestampUs += OPUS_FRAME_DURATION_MS * 1000;
+        encoder.encode(data);
+        data.close();
+      });
+
+      // 每个整帧输出一个Opus包，等本次传入的帧全部输出
+      await new Promise<void>((resolve, reject) => {
+        // 超时后不再使用该编码器（输出与输入已无法对应）
+        const timeoutId = setTimeout(() => {
+          waiter = null;
+          encodeError = new Error('Opus编码超时');
+          reject(encodeError);
+        }, ENCODE_TIMEOUT_MS);
+        waiter = {
+          resolve: () => {
+            clearTimeout(timeoutId);
+            resolve();
+          },
+          reject: (error) => {
+            clearTimeout(timeoutId);
+            reject(error);
+          }
+        };
+        settle();
+      });
+
+      const packets = output.slice(0, expected);
+      output = output.slice(expected);
+      expected = 0;
+      return packets;
+    }),
+    setBitrate: (next: number) => serialize(async () => {
+      await encoder.flush();
+      // 重新配置前清空输出和计数，输出不会再与之前的音频块对应
+      if (waiter) {
+        const current = waiter;
+        waiter = null;
+        current.reject(new Error('Opus编码器已重新配置'));
+      }
+      output = [];
+      expected = 0;
+      encoder.configure(webCodecsConfig(next));
+    }),
+    close: () => {
+      if (encoder.state !== 'closed') encoder.close();
+      // 关闭后不会再有输出，等待中的编码立即失败
+      if (waiter) {
+        const current = waiter;
+        waiter = null;
+        current.reject(new Error('Opus编码器已关闭'));
+      }
+    }
+  };
+}
+
+// @evan/opus的WASM导出的libopus接口
+interface OpusWasmExports {
+  memory: WebAssembly.Memory;
+  _initialize?: () => void;
+  malloc: (size: number) => number;
+  free: (pointer: number) => void;
+  opus_strerror: (code: number) => number;
+  opus_encoder_get_size: (channels: number) => number;
+  opus_encoder_init: (encoder: number, sampleRate: number, channels: number, application: number) => number;
+  opus_encode: (encoder: number, pcm: number, frameSize: number, packet: number, maxBytes: number) => number;
+  opus_encoder_ctl_set: (encoder: number, request: number, value: number) => number;
+}
+
+// 所有WASM编码器共用一个实例（各自在其内存中分配编码器状态），首次使用时加载
+let opusWasm: Promise<OpusWasmExports> | null = null;
+
+function loadOpusWasm(): Promise<OpusWasmExports> {
+  if (!opusWasm) {
+    opusWasm = (async () => {
+      const response = await fetch(OPUS_WASM_URL);
+      if (!response.ok) throw new Error(`加载Opus WASM失败: ${response.status}`);
+      const noop = () => 0;
+      const { instance } = await WebAssembly.instantiate(await response.arrayBuffer(), {
+        wasi_snapshot_preview1: { fd_seek: noop, fd_write: noop, fd_close: noop, proc_exit: noop },
+        env: { emscripten_notify_memory_growth: noop }
+      });
+      const exports = instance.exports as unknown as OpusWasmExports;
+      exports._initialize?.();
+      return exports;
+    })();
+    // 加载失败时允许之后重试
+    opusWasm.catch(() => {
+      opusWasm = null;
+    });
+  }
+  return opusWasm;
+}
+
+// libopus返回负数表示错误
+function checkOpusResult(wasm: OpusWasmExports, code: number): number {
+  if (code >= 0) return code;
+  const message = new Uint8Array(wasm.memory.buffer, wasm.opus_strerror(code));
+  const end = message.indexOf(0);
+  throw new Error(`Opus编码失败: ${new TextDecoder().decode(message.subarray(0, end < 0 ? 0 : end))}`);
+}
+
+async function createWasmEncoder(bitrate: number): Promise<OpusEncoder> {
+  const wasm = await loadOpusWasm();
+  const state = wasm.malloc(wasm.opus_encoder_get_size(1));
+  const pcm = wasm.malloc(OPUS_FRAME_SAMPLES * 2);
+  const packet = wasm.malloc(MAX_PACKET_BYTES);
+  const release = () => {
+    wasm.free(state);
+    wasm.free(pcm);
+    wasm.free(packet);
+  };
+
+  try {
+    checkOpusResult(wasm, wasm.opus_encoder_init(state, PCM_TARGET_SAMPLE_RATE, 1, OPUS_APPLICATION_VOIP));
+    checkOpusResult(wasm, wasm.opus_encoder_ctl_set(state, OPUS_SET_BITRATE_REQUEST, bitrate));
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  const frame = createFramer();
+  let closed = false;
+
+  // 编码是同步的，码率修改自然在前后两个音频块之间生效
+  return {
+    encode: async (pcmData: ArrayBuffer) => {
+      if (closed) throw new Error('Opus编码器已关闭');
+      return frame(pcmData).map(samples => {
+        // 内存可能在编码过程中增长，每次重新获取视图
+        new Int16Array(wasm.memory.buffer, pcm, OPUS_FRAME_SAMPLES).set(samples);
+        const length = checkOpusResult(wasm, wasm.opus_encode(state, pcm, OPUS_FRAME_SAMPLES, packet, MAX_PACKET_BYTES));
+        return new Uint8Array(wasm.memory.buffer, packet, length).slice().buffer;
+      });
+    },
+    setBitrate: async (next: number) => {
+      if (closed) return;
+      checkOpusResult(wasm, wasm.opus_encoder_ctl_set(state, OPUS_SET_BITRATE_REQUEST, next));
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      release();
+    }
+  };
+}
+
+/**
+ * 创建Opus编码器
+ *
+ * 优先使用WebCodecs，浏览器不支持（isOpusEncodingSupported为false或不支持该配置）时使用WASM编码器。
+ *
+ * @returns 两者都不可用时返回null（继续发送PCM）
+ */
+export async function createOpusEncoder(bitrate: number = DEFAULT_OPUS_BITRATE): Promise<OpusEncoder | null> {
+  try {
+    const encoder = await createWebCodecsEncoder(bitrate);
+    if (encoder) return encoder;
+  } catch (error) {
+    console.warn('WebCodecs Opus编码器不可用:', error);
+  }
+
+  try {
+    const encoder = await createWasmEncoder(bitrate);
+    console.log('浏览器不支持WebCodecs Opus编码，使用WASM编码器');
+    return encoder;
+  } catch (error) {
+    console.warn('WASM Opus编码器不可用:', error);
+    return null;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * PCM编码AudioWorklet的主线程封装
+ *
+ * 重采样、Float32→Int16转换和分块都在音频线程的PcmEncoderWorklet中完成，
+ * 音频块经MessageChannel直接送到VAD Worker做语音检测，
+ * 主线程只接收打包好的音频块及其峰值/RMS统计和VAD结果，不再遍历任何采样。
+ */
+
+import { VadChunkResult, VadLevel } from './vad';
+import type { VadWorkerRequest, VadWorkerResponse } from './vad.worker';
+
+export const PCM_ENCODER_WORKLET_NAME = 'PcmEncoderWorklet';
+const PCM_ENCODER_WORKLET_URL = '/worklets/pcm-encoder-worklet.js';
+
+// 发送给服务器的音频格式：16kHz单声道Int16
+export const PCM_TARGET_SAMPLE_RATE = 16000;
+
+// 可选的分块时长（毫秒）
+export const CHUNK_DURATION_OPTIONS = [100, 250, 500];
+export const DEFAULT_CHUNK_DURATION = 250;
+
+// 音频块
+export interface PcmChunk {
+  buffer: ArrayBuffer;  // Int16 PCM数据
+  peak: number;         // 峰值（Int16范围）
+  rms: number;          // 均方根（Int16范围）
+  durationMs: number;   // 实际时长
+  vad?: VadChunkResult; // 频谱VAD结果（VAD Worker不可用时为空）
+}
+
+export interface PcmEncoderOptions {
+  chunkDurationMs: number;
+  onChunk: (chunk: PcmChunk) => void;
+  onLevel?: (level: number) => void;  // 0-1范围的音量电平
+  vadLevel: VadLevel;                 // 频谱VAD灵敏度
+}
+
+export interface PcmEncoder {
+  node: AudioWorkletNode;
+  setChunkDuration: (chunkDurationMs: number) => void;
+  setVadLevel: (level: VadLevel) => void;
+  setPaused: (paused: boolean) => void;  // 暂停时worklet不再产生音频块，仍上报音量电平
+  flush: () => Promise<void>;
+  dispose: () => void;
+}
+
+// worklet发送给主线程的消息
+type PcmEncoderMessage =
+  | ({ type: 'chunk' } & PcmChunk)
+  | { type: 'level'; level: number }
+  | { type: 'flushed' };
+
+// 创建VAD Worker，失败时返回null（音频块将直接发送给主线程，不附带VAD结果）
+function createVadWorker(): Worker | null {
+  try {
+    return new Worker(new URL('./vad.worker.ts', import.meta.url));
+  } catch (error) {
+    console.error('创建VAD Worker失败:', error);
+    return null;
+  }
+}
+
+// 等待worklet清空缓冲的最长时间
+const FLUSH_TIMEOUT_MS = 300;
+
+/**
+ * 在指定AudioContext中创建PCM编码节点
+ *
+ * 返回的node需要由调用方连接到音频源；它没有输出，不会播放声音。
+ *
+ * @throws 加载worklet模块失败时抛出错误
+ */
+export async function createPcmEncoder(
+  audioContext: AudioContext,
+  options: PcmEncoderOptions
+): Promise<PcmEncoder> {
+  await audioContext.audioWorklet.addModule(PCM_ENCODER_WORKLET_URL);
+
+  const node = new AudioWorkletNode(audioContext, PCM_ENCODER_WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    channelInterpretation: 'speakers',
+    processorOptions: {
+      targetSampleRate: PCM_TARGET_SAMPLE_RATE,
+      chunkDurationMs: options.chunkDurationMs
+    }
+  });
+
+  let flushResolvers: Array<() => void> = [];
+
+  const handleMessage = (message: PcmEncoderMessage | VadWorkerResponse) => {
+    switch (message.type) {
+      case 'chunk':
+        options.onChunk({
+          buffer: message.buffer,
+          peak: message.peak,
+          rms: message.rms,
+          durationMs: message.durationMs,
+          vad: message.vad
+        });
+        break;
+      case 'level':
+        options.onLevel?.(message.level);
+        break;
+      case 'flushed':
+        flushResolvers.forEach(resolve => resolve());
+        flushResolvers = [];
+        break;
+    }
+  };
+
+  node.port.onmessage = (event: MessageEvent<PcmEncoderMessage>) => handleMessage(event.data);
+
+  // worklet -> VAD Worker -> 主线程
+  const vadWorker = createVadWorker();
+  if (vadWorker) {
+    const channel = new MessageChannel();
+    const initRequest: VadWorkerRequest = {
+      type: 'init',
+      port: channel.port2,
+      sampleRate: PCM_TARGET_SAMPLE_RATE,
+      level: options.vadLevel
+    };
+    vadWorker.postMessage(initRequest, [channel.port2]);
+    vadWorker.onmessage = (event: MessageEvent<VadWorkerResponse>) => handleMessage(event.data);
+    vadWorker.onerror = (event) => console.error('VAD Worker出错:', event.message);
+    node.port.postMessage({ type: 'connect', port: channel.port1 }, [channel.port1]);
+  }
+
+  return {
+    node,
+    setChunkDuration: (chunkDurationMs: number) => {
+      node.port.postMessage({ type: 'configure', chunkDurationMs });
+    },
+    setVadLevel: (level: VadLevel) => {
+      const request: VadWorkerRequest = { type: 'configure', level };
+      vadWorker?.postMessage(request);
+    },
+    setPaused: (paused: boolean) => {
+      node.port.postMessage({ type: 'pause', paused });
+    },
+    flush: () => new Promise<void>((resolve) => {
+      // 超时后不再等待（例如AudioContext已暂停）
+      const timeoutId = setTimeout(resolve, FLUSH_TIMEOUT_MS);
+      flushResolvers.push(() => {
+        clearTimeout(timeoutId);
+        resolve();
+      });
+      node.port.postMessage({ type: 'flush' });
+    }),
+    dispose: () => {
+      node.port.onmessage = null;
+      node.disconnect();
+      vadWorker?.terminate();
+    }
+  };
+}
@@ -0,0 +1,122 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { runInNewContext } from 'vm';
+import { describe, expect, it } from 'vitest';
+
+interface WorkletChunk {
+  type: string;
+  buffer: ArrayBuffer;
+}
+
+interface WorkletInstance {
+  process: (inputs: Float32Array[][]) => boolean;
+  port: { onmessage: (event: { data: object }) => void };
+}
+
+type WorkletConstructor = new (options: object) => WorkletInstance;
+
+const WORKLET_SOURCE = readFileSync(join(__dirname, '../public/worklets/pcm-encoder-worklet.js'), 'utf8');
+
+// 在模拟的AudioWorkletGlobalScope中加载worklet，返回处理器实例和收到的音频块
+const loadWorklet = (inputSampleRate: number) => {
+  let Processor: WorkletConstructor | undefined;
+  const chunks: WorkletChunk[] = [];
+
+  class FakeAudioWorkletProcessor {
+    port = {
+      onmessage: null as unknown,
+      postMessage: (message: WorkletChunk) => {
+        if (message.type === 'chunk') chunks.push(message);
+      }
+    };
+  }
+
+  runInNewContext(WORKLET_SOURCE, {
+    AudioWorkletProcessor: FakeAudioWorkletProcessor,
+    registerProcessor: (_name: string, processor: WorkletConstructor) => { Processor = processor; },
+    sampleRate: inputSampleRate,
+    Float32Array,
+    Int16Array,
+    Math
+  });
+
+  const processor = new Processor!({ processorOptions: { targetSampleRate: 16000, chunkDurationMs: 100 } });
+  return { processor, chunks };
+};
+
+// 以128采样的渲染块输入durationMs的正弦波，返回输出的Int16采样
+const resampleTone = (frequency: number, inputSampleRate: number, durationMs: number): Int16Array => {
+  const { processor, chunks } = loadWorklet(inputSampleRate);
+  const total = Math.round(inputSampleRate * durationMs / 1000);
+  for (let offset = 0; offset < total; offset += 128) {
+    const block = new Float32Array(128);
+    for (let i = 0; i < block.length; i++) {
+      block[i] = 0.5 * Math.sin(2 * Math.PI * frequency * (offset + i) / inputSampleRate);
+    }
+    processor.process([[block]]);
+  }
+
+  const output = new Int16Array(chunks.reduce((sum, chunk) => sum + chunk.buffer.byteLength / 2, 0));
+  let position = 0;
+  chunks.forEach(chunk => {
+    const samples = new Int16Array(chunk.buffer);
+    output.set(samples, position);
+    position += samples.length;
+  });
+  return output;
+};
+
+// 跳过开头的滤波器暂态后计算RMS
+const rms = (samples: Int16Array): number => {
+  const steady = samples.subarray(160);
+  let sum = 0;
+  steady.forEach(sample => { sum += sample * sample; });
+  return Math.sqrt(sum / steady.length);
+};
+
+describe('PcmEncoderWorklet重采样', () => {
+  it('48kHz降到16kHz时输出16kHz采样率的音频', () => {
+    const output = resampleTone(1000, 48000, 1000);
+    expect(Math.abs(output.length - 16000)).toBeLessThanOrEqual(1600);
+  });
+
+  it('语音频段的信号基本无衰减', () => {
+    const expected = 0.5 * 0x7FFF / Math.SQRT2;
+    expect(rms(resampleTone(1000, 48000, 500)) / expected).toBeGreaterThan(0.95);
+    expect(rms(resampleTone(5000, 48000, 500)) / expected).toBeGreaterThan(0.9);
+  });
+
+  it('目标奈奎斯特频率以上的信号被滤除，不会混叠到输出中', () => {
+    const passband = rms(resampleTone(1000, 48000, 500));
+    // 10kHz在16kHz输出中会混叠为6kHz，滤波后应衰减40dB以上
+    expect(rms(resampleTone(10000, 48000, 500)) / passband).toBeLessThan(0.01);
+    expect(rms(resampleTone(10000, 44100, 500)) / passband).toBeLessThan(0.01);
+  });
+});
+
+describe('PcmEncoderWorklet暂停采集', () => {
+  // 输入一段正弦波（每块128采样）
+  const feed = (processor: WorkletInstance, blocks: number) => {
+    for (let i = 0; i < blocks; i++) {
+      const block = new Float32Array(128).map((_, j) => 0.5 * Math.sin(2 * Math.PI * 440 * (i * 128 + j) / 48000));
+      processor.process([[block]]);
+    }
+  };
+
+  it('暂停期间不产生音频块，恢复后继续按分块时长产生', () => {
+    const { processor, chunks } = loadWorklet(48000);
+    // 100ms = 37.5个渲染块
+    feed(processor, 40);
+    expect(chunks).toHaveLength(1);
+
+    // 暂停时丢弃未发出的部分块
+    processor.port.onmessage({ data: { type: 'pause', paused: true } });
+    feed(processor, 400);
+    expect(chunks).toHaveLength(1);
+
+    processor.port.onmessage({ data: { type: 'pause', paused: false } });
+    feed(processor, 38);
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1].buffer.byteLength).toBe(1600 * 2);
+  });
+});
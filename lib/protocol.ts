@@ -0,0 +1,397 @@
+/**
+ * WebSocket通信协议
+ *
+ * 定义与后端交换的所有JSON消息类型，并在运行时校验服务器消息。
+ * 服务器消息使用snake_case字段，解析后统一转换为camelCase的类型化事件对象。
+ */
+
+// ---- 服务器 -> 客户端 ----
+
+export interface ConnectedEvent {
+  event: 'connected';
+  clientId?: string;
+  message?: string;
+}
+
+// 各类转写事件共有的字段
+interface TranscriptFields {
+  text: string;
+  refinedText?: string;
+  translation?: string;        // 主翻译（第一个目标语言）
+  translations?: Record<string, string>; // 各目标语言的翻译，语言代码 -> 译文
+  timestamp?: number;          // 服务器时间（秒）
+  isKeywordMatch: boolean;
+  isContinuation: boolean;
+  continuationReason?: string;
+  matchedKeywords: string[];
+  matchReason?: string;
+  speaker?: string;            // 服务器识别的说话人
+  channel?: AudioChannel;      // 双通道模式下音频所属的通道
+  audioStart?: number;         // 在上行音频流中的起止位置（秒），从连接后发送的第一个音频块起算
+  audioEnd?: number;
+}
+
+// 完整的转写结果；带segmentId时按片段合并，否则作为新条目（或按isContinuation替换上一条）
+export interface TranscriptionEvent extends TranscriptFields {
+  event: 'transcription';
+  segmentId?: string;
+}
+
+// 片段的中间识别结果，同一片段的后续partial会原地更新，直到收到final
+export interface PartialTranscriptEvent extends TranscriptFields {
+  event: 'partial';
+  segmentId: string;
+}
+
+// 片段的最终识别结果，之后该片段不再接受partial
+export interface FinalTranscriptEvent extends TranscriptFields {
+  event: 'final';
+  segmentId: string;
+}
+
+// 片段的优化文本/翻译，通常在final之后到达
+export interface SegmentUpdateEvent {
+  event: 'segment_update';
+  segmentId: string;
+  refinedText?: string;
+  translation?: string;
+  translations?: Record<string, string>;
+}
+
+// 交给onTranscription回调的事件
+export type TranscriptEvent =
+  | TranscriptionEvent
+  | PartialTranscriptEvent
+  | FinalTranscriptEvent
+  | SegmentUpdateEvent;
+
+export interface ServerErrorEvent {
+  event: 'error';
+  message: string;
+}
+
+export interface ConfigUpdatedEvent {
+  event: 'config_updated';
+  status?: string;
+  message?: string;
+  config?: Record<string, unknown>;
+  audioFraming?: AudioFraming;   // 服务器选用的音频帧格式，旧版本服务器不返回（即raw）
+  audioCodec?: AudioCodec;       // 服务器选用的音频编码，不返回时为PCM
+}
+
+export interface ConfigReceivedEvent {
+  event: 'config_received';
+  status?: string;
+  message?: string;
+  config?: Record<string, unknown>;
+  audioFraming?: AudioFraming;
+  audioCodec?: AudioCodec;
+}
+
+// 恢复会话的确认：服务器仍保留该会话的关键词、上下文和已收到的音频
+export interface ResumedEvent {
+  event: 'resumed';
+  sessionId?: string;
+  lastSequence?: number;   // 服务器已收到的最后一个音频帧序号，之后的音频帧需要重发
+}
+
+// 心跳回复：回传客户端ping中的id
+export interface PongEvent {
+  event: 'pong';
+  id?: number;
+}
+
+export interface KeywordsUpdatedEvent {
+  event: 'keywords_updated';
+  status: string;
+  keywords: string[];
+}
+
+export type ServerEvent =
+  | ConnectedEvent
+  | TranscriptEvent
+  | ServerErrorEvent
+  | ConfigUpdatedEvent
+  | ConfigReceivedEvent
+  | ResumedEvent
+  | PongEvent
+  | KeywordsUpdatedEvent;
+
+export type ServerEventType = ServerEvent['event'];
+
+// ---- 客户端 -> 服务器 ----
+
+export interface ConfigMessage {
+  event: 'config';
+  config: {
+    language: string;
+    model_type: string;
+    target_language: string;     // 主翻译语言（兼容只支持单个目标语言的服务器）
+    target_languages: string[];  // 全部目标语言，第一个与target_language相同
+    audio_framing: AudioFraming[];  // 客户端支持的音频帧格式（按优先级），服务器在确认中返回选用的格式
+    audio_codecs: AudioCodec[];     // 客户端可发送的音频编码（按优先级），服务器在确认中返回选用的编码
+    opus?: {                        // 启用Opus编码时的参数
+      bitrate: number;
+      frame_duration_ms: number;
+    };
+  };
+}
+
+export interface KeywordsMessage {
+  event: 'keywords';
+  keywords: string[];
+}
+
+// 双通道模式下的音频通道：microphone为本人，system为远程参会者
+export type AudioChannel = 'microphone' | 'system';
+
+const AUDIO_CHANNELS: readonly AudioChannel[] = ['microphone', 'system'];
+
+// 上行音频的二进制格式：framed为带帧头的音频帧（见audioFraming），raw为不带帧头的Int16 PCM
+export type AudioFraming = 'framed' | 'raw';
+
+const AUDIO_FRAMINGS: readonly AudioFraming[] = ['framed', 'raw'];
+
+// 上行音频编码：pcm_s16le为16kHz单声道Int16 PCM，opus只能在framed格式下使用
+export type AudioCodec = 'pcm_s16le' | 'opus';
+
+const AUDIO_CODECS: readonly AudioCodec[] = ['pcm_s16le', 'opus'];
+
+// 语音段边界，服务器可据此切分转录片段（raw格式；framed格式下为只有帧头的边界帧）
+export interface SpeechBoundaryMessage {
+  event: 'speech_start' | 'speech_end';
+  timestamp: number;       // 客户端时间（秒）
+  channel?: AudioChannel;  // 双通道模式下所属的通道
+}
+
+export type SpeechBoundaryEventType = SpeechBoundaryMessage['event'];
+
+// 双通道模式：声明其后的二进制音频帧属于哪个通道（仅在通道切换时发送；framed格式下由帧头携带）
+export interface AudioChannelMessage {
+  event: 'audio_channel';
+  channel: AudioChannel;
+}
+
+// 声明其后第一个二进制音频帧的序号，之后每帧序号加一（每次连接开始时、序号不连续时发送）。
+// 服务器按序号对重连后重发的音频去重（framed格式下由帧头携带）
+export interface AudioSequenceMessage {
+  event: 'audio_sequence';
+  sequence: number;
+}
+
+// 断线重连后恢复会话（连接URL中使用同一个会话ID），服务器以resumed确认
+export interface ResumeMessage {
+  event: 'resume';
+  session_id: string;
+  last_sequence: number | null;  // 客户端已发送的最后一个音频帧序号，尚未发送过音频时为null
+}
+
+// 应用层心跳，服务器以pong回复，用于测量往返时间和发现失效的连接
+export interface PingMessage {
+  event: 'ping';
+  id: number;
+  timestamp: number;       // 客户端时间（秒）
+}
+
+export type ClientMessage =
+  | ConfigMessage
+  | KeywordsMessage
+  | SpeechBoundaryMessage
+  | AudioChannelMessage
+  | AudioSequenceMessage
+  | ResumeMessage
+  | PingMessage;
+
+/**
+ * 序列化客户端消息
+ */
+export function encodeClientMessage(message: ClientMessage): string {
+  return JSON.stringify(message);
+}
+
+// ---- 运行时校验 ----
+
+type RawMessage = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawMessage =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readString(raw: RawMessage, field: string, required: true): string;
+function readString(raw: RawMessage, field: string, required?: false): string | undefined;
+function readString(raw: RawMessage, field: string, required = false): string | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) {
+    if (required) throw new Error(`缺少字段 ${field}`);
+    return undefined;
+  }
+  if (typeof value !== 'string') throw new Error(`字段 ${field} 应为字符串`);
+  return value;
+}
+
+function readNumber(raw: RawMessage, field: string): number | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !isFinite(value)) throw new Error(`字段 ${field} 应为数字`);
+  return value;
+}
+
+function readBoolean(raw: RawMessage, field: string): boolean {
+  const value = raw[field];
+  if (value === undefined || value === null) return false;
+  if (typeof value !== 'boolean') throw new Error(`字段 ${field} 应为布尔值`);
+  return value;
+}
+
+function readStringArray(raw: RawMessage, field: string): string[] {
+  const value = raw[field];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    throw new Error(`字段 ${field} 应为字符串数组`);
+  }
+  return value as string[];
+}
+
+function readOneOf<T extends string>(raw: RawMessage, field: string, values: readonly T[]): T | undefined {
+  const value = readString(raw, field);
+  if (value === undefined) return undefined;
+  if (!(values as readonly string[]).includes(value)) {
+    throw new Error(`字段 ${field} 的取值无效: ${value}`);
+  }
+  return value as T;
+}
+
+function readRecord(raw: RawMessage, field: string): Record<string, unknown> | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) throw new Error(`字段 ${field} 应为对象`);
+  return value;
+}
+
+function readStringRecord(raw: RawMessage, field: string): Record<string, string> | undefined {
+  const value = readRecord(raw, field);
+  if (value === undefined) return undefined;
+  if (Object.values(value).some(v => typeof v !== 'string')) {
+    throw new Error(`字段 ${field} 应为字符串映射`);
+  }
+  return value as Record<string, string>;
+}
+
+// 转写事件的公共字段
+const readTranscriptFields = (raw: RawMessage): TranscriptFields => ({
+  text: readString(raw, 'text', true),
+  refinedText: readString(raw, 'refined_text'),
+  translation: readString(raw, 'translation'),
+  translations: readStringRecord(raw, 'translations'),
+  timestamp: readNumber(raw, 'timestamp'),
+  isKeywordMatch: readBoolean(raw, 'is_keyword_match'),
+  isContinuation: readBoolean(raw, 'is_continuation'),
+  continuationReason: readString(raw, 'continuation_reason'),
+  matchedKeywords: readStringArray(raw, 'matched_keywords'),
+  matchReason: readString(raw, 'match_reason'),
+  speaker: readString(raw, 'speaker'),
+  channel: readOneOf(raw, 'channel', AUDIO_CHANNELS),
+  audioStart: readNumber(raw, 'audio_start'),
+  audioEnd: readNumber(raw, 'audio_end')
+});
+
+// 各事件类型的解析器
+const eventParsers: { [K in ServerEventType]: (raw: RawMessage) => Extract<ServerEvent, { event: K }> } = {
+  connected: (raw) => ({
+    event: 'connected',
+    clientId: readString(raw, 'client_id'),
+    message: readString(raw, 'message')
+  }),
+  transcription: (raw) => ({
+    event: 'transcription',
+    ...readTranscriptFields(raw),
+    segmentId: readString(raw, 'segment_id')
+  }),
+  partial: (raw) => ({
+    event: 'partial',
+    ...readTranscriptFields(raw),
+    segmentId: readString(raw, 'segment_id', true)
+  }),
+  final: (raw) => ({
+    event: 'final',
+    ...readTranscriptFields(raw),
+    segmentId: readString(raw, 'segment_id', true)
+  }),
+  segment_update: (raw) => ({
+    event: 'segment_update',
+    segmentId: readString(raw, 'segment_id', true),
+    refinedText: readString(raw, 'refined_text'),
+    translation: readString(raw, 'translation'),
+    translations: readStringRecord(raw, 'translations')
+  }),
+  error: (raw) => ({
+    event: 'error',
+    message: readString(raw, 'message') || '服务器未知错误'
+  }),
+  config_updated: (raw) => ({
+    event: 'config_updated',
+    status: readString(raw, 'status'),
+    message: readString(raw, 'message'),
+    config: readRecord(raw, 'config'),
+    audioFraming: readOneOf(raw, 'audio_framing', AUDIO_FRAMINGS),
+    audioCodec: readOneOf(raw, 'audio_codec', AUDIO_CODECS)
+  }),
+  config_received: (raw) => ({
+    event: 'config_received',
+    status: readString(raw, 'status'),
+    message: readString(raw, 'message'),
+    config: readRecord(raw, 'config'),
+    audioFraming: readOneOf(raw, 'audio_framing', AUDIO_FRAMINGS),
+    audioCodec: readOneOf(raw, 'audio_codec', AUDIO_CODECS)
+  }),
+  resumed: (raw) => ({
+    event: 'resumed',
+    sessionId: readString(raw, 'session_id'),
+    lastSequence: readNumber(raw, 'last_sequence')
+  }),
+  pong: (raw) => ({
+    event: 'pong',
+    id: readNumber(raw, 'id')
+  }),
+  keywords_updated: (raw) => ({
+    event: 'keywords_updated',
+    status: readString(raw, 'status', true),
+    keywords: readStringArray(raw, 'keywords')
+  })
+};
+
+const isServerEventType = (value: unknown): value is ServerEventType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(eventParsers, value);
+
+/**
+ * 解析并校验服务器消息
+ *
+ * @param data WebSocket收到的原始消息
+ * @returns 类型化的服务器事件
+ * @throws 消息不是合法JSON、事件类型未知或字段类型不符时抛出错误
+ */
+export function parseServerEvent(data: unknown): ServerEvent {
+  if (typeof data !== 'string') {
+    throw new Error('服务器消息应为文本');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    throw new Error('服务器消息不是有效的JSON');
+  }
+
+  if (!isRecord(raw)) {
+    throw new Error('服务器消息应为JSON对象');
+  }
+  if (!isServerEventType(raw.event)) {
+    throw new Error(`未知的消息类型: ${String(raw.event)}`);
+  }
+
+  try {
+    return eventParsers[raw.event](raw);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${raw.event} 消息格式错误: ${reason}`);
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * 会话导出与导入（JSON / Markdown会议纪要）
+ *
+ * JSON格式（version 1）：
+ *
+ * {
+ *   "format": "realtime-transcription-session",
+ *   "version": 1,
+ *   "exportedAt": "2024-01-01T08:00:00.000Z",
+ *   "title": "会话标题",
+ *   "startedAt": "2024-01-01T07:00:00.000Z" | null,
+ *   "config": {
+ *     "language": "zh", "model": "tiny", "targetLanguages": ["en", "ja"],
+ *     "keywords": ["..."]
+ *   },
+ *   "statistics": { "textCount": 0, "totalCharacters": 0, "totalTokens": 0 },
+ *   "summary": {
+ *     "scene": "...", "topic": "...", "keyPoints": ["..."], "summary": "...",
+ *     "updatedAt": "ISO时间"
+ *   } | null,
+ *   "speakers": { "local": "张三", "SPEAKER_01": "李四" },
+ *   "items": [
+ *     {
+ *       "id": "...", "text": "...", "refinedText": "...", "translation": "...",
+ *       "translations": { "en": "...", "ja": "..." },
+ *       "timestamp": "ISO时间",
+ *       "isKeywordMatch": false, "matchedKeywords": [], "matchReason": "",
+ *       "isContinuation": false, "continuationReason": "",
+ *       "contextEnhanced": false,
+ *       "speaker": "local",
+ *       "segmentId": "...", "isPartial": false,
+ *       "audioStart": 12.5, "audioEnd": 15.25,
+ *       "edits": { "text": "...", "refinedText": "...", "translation": "..." }
+ *     }
+ *   ]
+ * }
+ *
+ * 时间均为ISO 8601字符串；statistics在导入时会被忽略并重新计算。
+ * speakers（说话人显示名称）以及条目的speaker、segmentId、isPartial是可选字段，旧文件中没有这些字段。
+ * audioStart/audioEnd是条目在会话录音中的位置（秒），同样可选；录音本身不包含在JSON中。
+ * edits是人工编辑后的文本（可选），text等字段始终是服务器的原始识别结果。
+ * translation是主翻译（第一个目标语言），translations是各目标语言的翻译（可选）；
+ * 旧文件的config只有单个targetLanguage，导入时转换为targetLanguages。
+ */
+
+import {
+  TranscriptionItem,
+  SessionSummaryRecord,
+  SessionConfig,
+  SpeakerNames,
+  TranscriptEdits
+} from './transcriptionTypes';
+import { calculateTextStatistics, TextStatistics } from './textUtils';
+import { getSpeakerName, listSpeakers } from './speakers';
+import { applyEditsToItem, EDITABLE_FIELDS } from './transcriptEdits';
+import { fillPrimaryTranslation, getLanguageLabel, normalizeTargetLanguages } from './translations';
+
+export const SESSION_EXPORT_FORMAT = 'realtime-transcription-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+// 导出/导入的会话数据
+export interface SessionExportData {
+  title: string;
+  startedAt: Date | null;
+  config: SessionConfig;
+  summary: SessionSummaryRecord | null;
+  items: TranscriptionItem[];
+  speakerNames?: SpeakerNames;
+}
+
+interface ExportedItem {
+  id: string;
+  text: string;
+  refinedText?: string;
+  translation?: string;
+  translations?: Record<string, string>;
+  timestamp: string;
+  isKeywordMatch: boolean;
+  matchedKeywords: string[];
+  matchReason?: string;
+  isContinuation: boolean;
+  continuationReason?: string;
+  contextEnhanced: boolean;
+  speaker?: string;
+  segmentId?: string;
+  isPartial?: boolean;
+  audioStart?: number;
+  audioEnd?: number;
+  edits?: TranscriptEdits;
+}
+
+interface ExportedSession {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: typeof SESSION_EXPORT_VERSION;
+  exportedAt: string;
+  title: string;
+  startedAt: string | null;
+  config: SessionConfig;
+  statistics: TextStatistics;
+  summary: (Omit<SessionSummaryRecord, 'updatedAt'> & { updatedAt: string }) | null;
+  speakers?: SpeakerNames;
+  items: ExportedItem[];
+}
+
+/**
+ * 生成JSON格式的会话导出
+ */
+export function buildSessionJson(data: SessionExportData): string {
+  const exported: ExportedSession = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: data.title,
+    startedAt: data.startedAt ? data.startedAt.toISOString() : null,
+    config: data.config,
+    statistics: calculateTextStatistics(data.items.map(item => item.text)),
+    summary: data.summary
+      ? { ...data.summary, updatedAt: data.summary.updatedAt.toISOString() }
+      : null,
+    speakers: data.speakerNames && Object.keys(data.speakerNames).length > 0 ? data.speakerNames : undefined,
+    items: data.items.map(item => ({
+      id: item.id,
+      text: item.text,
+      refinedText: item.refinedText || undefined,
+      translation: item.translation || undefined,
+      translations: item.translations,
+      timestamp: item.timestamp.toISOString(),
+      isKeywordMatch: !!item.isKeywordMatch,
+      matchedKeywords: item.matchedKeywords || [],
+      matchReason: item.matchReason || undefined,
+      isContinuation: !!item.isContinuation,
+      continuationReason: item.continuationReason || undefined,
+      contextEnhanced: !!item.contextEnhanced,
+      speaker: item.speaker || undefined,
+      segmentId: item.segmentId || undefined,
+      isPartial: item.isPartial || undefined,
+      audioStart: item.audioStart,
+      audioEnd: item.audioEnd,
+      edits: item.edits
+    }))
+  };
+
+  return JSON.stringify(exported, null, 2);
+}
+
+// ---- 导入校验辅助函数 ----
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new Error(`字段 ${field} 应为字符串`);
+  return value;
+};
+
+const optionalNumber = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !isFinite(value)) throw new Error(`字段 ${field} 应为数字`);
+  return value;
+};
+
+const stringArray = (value: unknown, field: string): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    throw new Error(`字段 ${field} 应为字符串数组`);
+  }
+  return value as string[];
+};
+
+const stringRecord = (value: unknown, field: string): Record<string, string> => {
+  if (value === undefined || value === null) return {};
+  if (!isRecord(value) || Object.values(value).some(v => typeof v !== 'string')) {
+    throw new Error(`字段 ${field} 应为字符串映射`);
+  }
+  return value as Record<string, string>;
+};
+
+const parseEdits = (value: unknown, field: string): TranscriptEdits | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) throw new Error(`字段 ${field} 格式错误`);
+  const edits: TranscriptEdits = {};
+  EDITABLE_FIELDS.forEach(name => {
+    const edited = optionalString(value[name], `${field}.${name}`);
+    if (edited !== undefined) edits[name] = edited;
+  });
+  return Object.keys(edits).length > 0 ? edits : undefined;
+};
+
+const parseDate = (value: unknown, field: string): Date => {
+  if (typeof value !== 'string') throw new Error(`字段 ${field} 应为ISO时间字符串`);
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`字段 ${field} 不是有效的时间: ${value}`);
+  return date;
+};
+
+/**
+ * 解析JSON格式的会话导出文件
+ *
+ * @param content 文件内容
+ * @returns 会话数据
+ * @throws 格式不正确时抛出带说明的错误
+ */
+export function parseSessionJson(content: string): SessionExportData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error('文件不是有效的JSON');
+  }
+
+  if (!isRecord(raw) || raw.format !== SESSION_EXPORT_FORMAT) {
+    throw new Error('不是会话导出文件');
+  }
+  if (raw.version !== SESSION_EXPORT_VERSION) {
+    throw new Error(`不支持的导出版本: ${String(raw.version)}`);
+  }
+  if (!isRecord(raw.config)) {
+    throw new Error('缺少config字段');
+  }
+  if (!Array.isArray(raw.items)) {
+    throw new Error('缺少items字段');
+  }
+
+  const config: SessionConfig = {
+    language: optionalString(raw.config.language, 'config.language') || 'zh',
+    model: optionalString(raw.config.model, 'config.model') || 'tiny',
+    targetLanguages: normalizeTargetLanguages(
+      stringArray(raw.config.targetLanguages, 'config.targetLanguages'),
+      optionalString(raw.config.targetLanguage, 'config.targetLanguage')
+    ),
+    keywords: stringArray(raw.config.keywords, 'config.keywords')
+  };
+
+  let summary: SessionSummaryRecord | null = null;
+  if (raw.summary !== undefined && raw.summary !== null) {
+    if (!isRecord(raw.summary)) throw new Error('summary字段格式错误');
+    summary = {
+      scene: optionalString(raw.summary.scene, 'summary.scene') || '',
+      topic: optionalString(raw.summary.topic, 'summary.topic') || '',
+      keyPoints: stringArray(raw.summary.keyPoints, 'summary.keyPoints'),
+      summary: optionalString(raw.summary.summary, 'summary.summary') || '',
+      updatedAt: parseDate(raw.summary.updatedAt, 'summary.updatedAt')
+    };
+  }
+
+  const items: TranscriptionItem[] = raw.items.map((entry: unknown, index: number) => {
+    const prefix = `items[${index}]`;
+    if (!isRecord(entry)) throw new Error(`${prefix} 格式错误`);
+    if (typeof entry.text !== 'string') throw new Error(`${prefix}.text 应为字符串`);
+
+    return fillPrimaryTranslation({
+      id: optionalString(entry.id, `${prefix}.id`) || `imported-${index}`,
+      text: entry.text,
+      refinedText: optionalString(entry.refinedText, `${prefix}.refinedText`),
+      translation: optionalString(entry.translation, `${prefix}.translation`),
+      translations: entry.translations === undefined ? undefined : stringRecord(entry.translations, `${prefix}.translations`),
+      timestamp: parseDate(entry.timestamp, `${prefix}.timestamp`),
+      isKeywordMatch: !!entry.isKeywordMatch,
+      matchedKeywords: stringArray(entry.matchedKeywords, `${prefix}.matchedKeywords`),
+      matchReason: optionalString(entry.matchReason, `${prefix}.matchReason`),
+      isContinuation: !!entry.isContinuation,
+      continuationReason: optionalString(entry.continuationReason, `${prefix}.continuationReason`),
+      contextEnhanced: !!entry.contextEnhanced,
+      speaker: optionalString(entry.speaker, `${prefix}.speaker`),
+      segmentId: optionalString(entry.segmentId, `${prefix}.segmentId`),
+      isPartial: !!entry.isPartial,
+      audioStart: optionalNumber(entry.audioStart, `${prefix}.audioStart`),
+      audioEnd: optionalNumber(entry.audioEnd, `${prefix}.audioEnd`),
+      edits: parseEdits(entry.edits, `${prefix}.edits`)
+    }, config.targetLanguages);
+  });
+
+  return {
+    title: optionalString(raw.title, 'title') || '导入的会话',
+    startedAt: raw.startedAt ? parseDate(raw.startedAt, 'startedAt') : null,
+    config,
+    summary,
+    items,
+    speakerNames: stringRecord(raw.speakers, 'speakers')
+  };
+}
+
+/**
+ * 生成Markdown格式的会议纪要（使用人工编辑后的文本）
+ */
+export function buildMeetingMinutes(data: SessionExportData): string {
+  const { title, startedAt, config, summary, speakerNames } = data;
+  const items = data.items.map(applyEditsToItem);
+  const speakers = listSpeakers(items);
+  const statistics = calculateTextStatistics(items.map(item => item.text));
+  const lines: string[] = [];
+
+  lines.push(`# ${title}`, '');
+  if (startedAt) {
+    lines.push(`- 开始时间: ${startedAt.toLocaleString()}`);
+  }
+  lines.push(`- 识别语言: ${config.language}`);
+  lines.push(`- 模型: ${config.model}`);
+  lines.push(`- 翻译目标: ${config.targetLanguages.map(getLanguageLabel).join('、')}`);
+  if (config.keywords.length > 0) {
+    lines.push(`- 关注关键词: ${config.keywords.join('、')}`);
+  }
+  if (speakers.length > 0) {
+    lines.push(`- 参会者: ${speakers.map(speaker => getSpeakerName(speaker, speakerNames)).join('、')}`);
+  }
+  lines.push(`- 统计: ${statistics.textCount} 条，${statistics.totalCharacters} 字符，${statistics.totalTokens} tokens`, '');
+
+  if (summary) {
+    lines.push('## 会话总结', '');
+    lines.push(`**场景**: ${summary.scene}`, '');
+    lines.push(`**主题**: ${summary.topic}`, '');
+    if (summary.keyPoints.length > 0) {
+      lines.push('### 关键点', '');
+      summary.keyPoints.forEach(point => lines.push(`- ${point}`));
+      lines.push('');
+    }
+    lines.push('### 总结', '', summary.summary, '');
+  }
+
+  const keywordMatches = items.filter(item => item.isKeywordMatch);
+  if (keywordMatches.length > 0) {
+    lines.push('## 关键词命中', '');
+    keywordMatches.forEach(item => {
+      const speaker = item.speaker ? ` ${getSpeakerName(item.speaker, speakerNames)}:` : '';
+      let line = `- **[${item.timestamp.toLocaleTimeString()}]${speaker}** ${item.refinedText || item.text}`;
+      if (item.matchedKeywords && item.matchedKeywords.length > 0) {
+        line += `（匹配词: ${item.matchedKeywords.join('、')}）`;
+      }
+      if (item.matchReason) {
+        line += ` — ${item.matchReason}`;
+      }
+      lines.push(line);
+    });
+    lines.push('');
+  }
+
+  lines.push('## 转写记录', '');
+  items.forEach(item => {
+    const speaker = item.speaker ? ` ${getSpeakerName(item.speaker, speakerNames)}:` : '';
+    lines.push(`**[${item.timestamp.toLocaleTimeString()}]${speaker}** ${item.text}`);
+    // 引用块内的行尾两个空格表示换行
+    if (item.refinedText) {
+      lines.push(`> 优化: ${item.refinedText}  `);
+    }
+    if (item.translation) {
+      lines.push(`> 翻译: ${item.translation}  `);
+    }
+    // 主翻译以外的其他目标语言
+    Object.entries(item.translations || {})
+      .filter(([language]) => language !== config.targetLanguages[0])
+      .forEach(([language, translation]) => {
+        lines.push(`> 翻译（${getLanguageLabel(language)}）: ${translation}  `);
+      });
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,165 @@
+/**
+ * 会话录音与时间轴映射
+ *
+ * 录音直接使用PCM编码worklet产生的16kHz Int16音频块（包括被语音门控跳过的静音块），
+ * 因此录音中的位置与音频块一一对应，不需要额外的编码器：
+ * - 每次开始录音是一个新的片段，接在已有录音之后，停止期间的时间不计入录音
+ * - 双通道模式下两路音频块写入同一位置并相加，录音始终为单声道
+ * - 导出为WAV文件
+ *
+ * 由于语音门控会跳过静音，上行音频流中的位置（服务器返回的audio_start/audio_end）
+ * 与录音中的位置并不相同，StreamTimeline记录每个已发送音频块在两者中的位置，用于换算。
+ */
+
+import { PCM_TARGET_SAMPLE_RATE } from './pcmEncoder';
+
+// 录音按固定大小的块存储，避免录音变长时反复复制整段数据
+const BLOCK_SAMPLES = PCM_TARGET_SAMPLE_RATE * 10;
+
+// 混合模式下只有一路音频
+const DEFAULT_TRACK = 'mixed';
+
+export interface SessionRecorder {
+  beginTake: () => void;                                // 开始新的录音片段（接在已有录音之后）
+  write: (pcm: ArrayBuffer, track?: string) => number;  // 写入一个音频块，返回它在录音中的起始位置（秒）
+  getDuration: () => number;                            // 录音总时长（秒）
+  toWavBlob: () => Blob | null;                         // 还没有录音时返回null
+  reset: () => void;
+}
+
+/**
+ * 创建会话录音器
+ */
+export function createSessionRecorder(sampleRate: number = PCM_TARGET_SAMPLE_RATE): SessionRecorder {
+  let blocks: Int16Array[] = [];
+  let length = 0;
+  // 当前片段中各路音频已写到的位置
+  let takeStart = 0;
+  let trackPositions = new Map<string, number>();
+
+  const ensureCapacity = (end: number) => {
+    while (blocks.length * BLOCK_SAMPLES < end) {
+      blocks.push(new Int16Array(BLOCK_SAMPLES));
+    }
+  };
+
+  return {
+    beginTake: () => {
+      takeStart = length;
+      trackPositions = new Map();
+    },
+    write: (pcm: ArrayBuffer, track: string = DEFAULT_TRACK): number => {
+      const samples = new Int16Array(pcm);
+      const start = trackPositions.get(track) ?? takeStart;
+      const end = start + samples.length;
+      ensureCapacity(end);
+
+      for (let i = 0; i < samples.length; i++) {
+        const position = start + i;
+        const block = blocks[Math.floor(position / BLOCK_SAMPLES)];
+        const offset = position % BLOCK_SAMPLES;
+        // 多路音频相加，超出Int16范围时截断
+        block[offset] = Math.max(-32768, Math.min(32767, block[offset] + samples[i]));
+      }
+
+      trackPositions.set(track, end);
+      length = Math.max(length, end);
+      return start / sampleRate;
+    },
+    getDuration: () => length / sampleRate,
+    toWavBlob: () => {
+      if (length === 0) return null;
+      const parts: BlobPart[] = [buildWavHeader(length, sampleRate)];
+      let remaining = length;
+      for (const block of blocks) {
+        if (remaining <= 0) break;
+        const count = Math.min(remaining, BLOCK_SAMPLES);
+        parts.push(count === BLOCK_SAMPLES ? block : block.slice(0, count));
+        remaining -= count;
+      }
+      return new Blob(parts, { type: 'audio/wav' });
+    },
+    reset: () => {
+      blocks = [];
+      length = 0;
+      takeStart = 0;
+      trackPositions = new Map();
+    }
+  };
+}
+
+// 16位单声道PCM的WAV文件头
+function buildWavHeader(sampleCount: number, sampleRate: number): ArrayBuffer {
+  const dataSize = sampleCount * 2;
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);            // fmt块大小
+  header.setUint16(20, 1, true);             // PCM
+  header.setUint16(22, 1, true);             // 单声道
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // 字节率
+  header.setUint16(32, 2, true);             // 块对齐
+  header.setUint16(34, 16, true);            // 位深
+  writeString(36, 'data');
+  header.setUint32(40, dataSize, true);
+  return header.buffer;
+}
+
+// 一个已发送音频块在上行流和录音中的位置（秒）
+interface TimelineSpan {
+  streamStart: number;
+  recordingStart: number;
+  duration: number;
+}
+
+export interface StreamTimeline {
+  add: (streamStart: number, recordingStart: number, duration: number) => void;
+  toRecordingTime: (streamTime: number) => number | undefined;  // 还没有发送过音频时返回undefined
+  reset: () => void;
+}
+
+/**
+ * 创建上行流位置到录音位置的映射
+ *
+ * 音频块按发送顺序添加，streamStart单调递增，查询时二分查找。
+ * 落在两个音频块之间的位置（不应出现）归到前一个音频块的末尾。
+ */
+export function createStreamTimeline(): StreamTimeline {
+  let spans: TimelineSpan[] = [];
+
+  return {
+    add: (streamStart: number, recordingStart: number, duration: number) => {
+      spans.push({ streamStart, recordingStart, duration });
+    },
+    toRecordingTime: (streamTime: number): number | undefined => {
+      if (spans.length === 0) return undefined;
+
+      let low = 0;
+      let high = spans.length - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (spans[mid].streamStart <= streamTime) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+
+      const span = spans[low];
+      const offset = Math.max(0, Math.min(streamTime - span.streamStart, span.duration));
+      return span.recordingStart + offset;
+    },
+    reset: () => {
+      spans = [];
+    }
+  };
+}
@@ -0,0 +1,367 @@
+/**
+ * 会话历史存储服务
+ *
+ * 使用IndexedDB在浏览器本地保存录音会话（转写条目、会话总结、配置和会话录音），
+ * 避免页面刷新或标签页崩溃时丢失整场会议的转写结果。
+ */
+
+import { TranscriptionItem, SessionSummaryRecord, SessionConfig, SpeakerNames } from './transcriptionTypes';
+import { normalizeTargetLanguages } from './translations';
+
+const DB_NAME = 'realtime-transcription';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const ITEM_STORE = 'items';
+// 录音单独存放，列出会话时不会读取录音数据
+const RECORDING_STORE = 'recordings';
+
+export interface StoredSession {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  config: SessionConfig;
+  summary: SessionSummaryRecord | null;
+  itemCount: number;
+  preview: string;     // 首条转写文本，用于列表展示
+  speakerNames?: SpeakerNames;  // 用户设置的说话人名称
+}
+
+interface StoredRecording {
+  sessionId: string;
+  blob: Blob;
+}
+
+interface StoredItem extends TranscriptionItem {
+  sessionId: string;
+  order: number;       // 条目在会话中的位置
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// 打开（必要时创建）数据库
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前环境不支持IndexedDB'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        sessions.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(ITEM_STORE)) {
+        const items = db.createObjectStore(ITEM_STORE, { keyPath: ['sessionId', 'id'] });
+        items.createIndex('sessionId', 'sessionId');
+      }
+      if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+        db.createObjectStore(RECORDING_STORE, { keyPath: 'sessionId' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('打开会话数据库失败'));
+    };
+  });
+
+  return dbPromise;
+}
+
+// 将IDBRequest包装为Promise
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// 等待事务完成
+function waitForTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('事务已中止'));
+  });
+}
+
+// 生成会话ID
+function generateSessionId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+}
+
+// 去掉存储时附加的字段，还原为转写条目
+function toTranscriptionItem(stored: StoredItem): TranscriptionItem {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { sessionId, order, ...item } = stored;
+  return item;
+}
+
+// 旧版本保存的会话配置只有单个targetLanguage，读取时转换为目标语言列表
+function toSession(stored: StoredSession): StoredSession {
+  const config = stored.config as SessionConfig & { targetLanguage?: string };
+  if (Array.isArray(config.targetLanguages)) return stored;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { targetLanguage, ...rest } = config;
+  return {
+    ...stored,
+    config: { ...rest, targetLanguages: normalizeTargetLanguages(undefined, targetLanguage) }
+  };
+}
+
+/**
+ * 创建新的会话记录
+ *
+ * @param config 会话开始时的语言/模型配置及关键词
+ * @returns 新建的会话
+ */
+export async function createSession(config: SessionConfig): Promise<StoredSession> {
+  const db = await openDatabase();
+  const now = new Date();
+  const session: StoredSession = {
+    id: generateSessionId(),
+    title: `会话 ${now.toLocaleString()}`,
+    createdAt: now,
+    updatedAt: now,
+    config,
+    summary: null,
+    itemCount: 0,
+    preview: ''
+  };
+
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put(session);
+  await waitForTransaction(tx);
+
+  console.log('已创建会话记录:', session.id);
+  return session;
+}
+
+/**
+ * 导入一个完整的会话（例如从JSON导出文件恢复）
+ *
+ * @returns 新建的会话
+ */
+export async function importSession(data: {
+  title: string;
+  createdAt: Date;
+  config: SessionConfig;
+  summary: SessionSummaryRecord | null;
+  items: TranscriptionItem[];
+  speakerNames?: SpeakerNames;
+}): Promise<StoredSession> {
+  const db = await openDatabase();
+  const session: StoredSession = {
+    id: generateSessionId(),
+    title: data.title,
+    createdAt: data.createdAt,
+    updatedAt: new Date(),
+    config: data.config,
+    summary: data.summary,
+    itemCount: data.items.length,
+    preview: data.items.length > 0 ? data.items[0].text : '',
+    speakerNames: data.speakerNames
+  };
+
+  const tx = db.transaction([SESSION_STORE, ITEM_STORE], 'readwrite');
+  tx.objectStore(SESSION_STORE).put(session);
+  data.items.forEach((item, order) => {
+    const stored: StoredItem = { ...item, sessionId: session.id, order };
+    tx.objectStore(ITEM_STORE).put(stored);
+  });
+  await waitForTransaction(tx);
+
+  console.log('已导入会话记录:', session.id);
+  return session;
+}
+
+/**
+ * 更新会话的元数据（标题、配置、总结、说话人名称等）
+ *
+ * @param id 会话ID
+ * @param changes 需要更新的字段
+ */
+export async function updateSession(
+  id: string,
+  changes: Partial<Pick<StoredSession, 'title' | 'config' | 'summary' | 'speakerNames'>>
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  const store = tx.objectStore(SESSION_STORE);
+
+  const existing = await promisifyRequest<StoredSession | undefined>(store.get(id));
+  if (!existing) {
+    tx.abort();
+    throw new Error(`会话不存在: ${id}`);
+  }
+
+  store.put({ ...existing, ...changes, updatedAt: new Date() });
+  await waitForTransaction(tx);
+}
+
+/**
+ * 增量保存会话中的转写条目
+ *
+ * 只写入发生变化的条目，并删除已被替换的条目。
+ *
+ * @param id 会话ID
+ * @param changedItems 新增或变化的条目及其在会话中的位置
+ * @param removedIds 需要删除的条目ID
+ * @param itemCount 会话当前的条目总数
+ * @param preview 会话预览文本
+ */
+export async function saveSessionItems(
+  id: string,
+  changedItems: { item: TranscriptionItem; order: number }[],
+  removedIds: string[],
+  itemCount: number,
+  preview: string
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_STORE, ITEM_STORE], 'readwrite');
+  const sessionStore = tx.objectStore(SESSION_STORE);
+  const itemStore = tx.objectStore(ITEM_STORE);
+
+  removedIds.forEach(itemId => itemStore.delete([id, itemId]));
+  changedItems.forEach(({ item, order }) => {
+    const stored: StoredItem = { ...item, sessionId: id, order };
+    itemStore.put(stored);
+  });
+
+  const existing = await promisifyRequest<StoredSession | undefined>(sessionStore.get(id));
+  if (existing) {
+    sessionStore.put({ ...existing, itemCount, preview, updatedAt: new Date() });
+  }
+
+  await waitForTransaction(tx);
+}
+
+/**
+ * 列出所有会话，按最后更新时间倒序
+ */
+export async function listSessions(): Promise<StoredSession[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const sessions = await promisifyRequest<StoredSession[]>(tx.objectStore(SESSION_STORE).getAll());
+  return sessions
+    .map(toSession)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * 读取单个会话及其全部转写条目
+ *
+ * @param id 会话ID
+ * @returns 会话和按顺序排列的条目，会话不存在时返回null
+ */
+export async function getSession(
+  id: string
+): Promise<{ session: StoredSession; items: TranscriptionItem[] } | null> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_STORE, ITEM_STORE], 'readonly');
+
+  const session = await promisifyRequest<StoredSession | undefined>(tx.objectStore(SESSION_STORE).get(id));
+  if (!session) return null;
+
+  const storedItems = await promisifyRequest<StoredItem[]>(
+    tx.objectStore(ITEM_STORE).index('sessionId').getAll(id)
+  );
+  const items = storedItems
+    .sort((a, b) => a.order - b.order)
+    .map(toTranscriptionItem);
+
+  return { session: toSession(session), items };
+}
+
+/**
+ * 保存会话录音（覆盖之前保存的录音）
+ */
+export async function saveSessionRecording(id: string, blob: Blob): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDING_STORE, 'readwrite');
+  const stored: StoredRecording = { sessionId: id, blob };
+  tx.objectStore(RECORDING_STORE).put(stored);
+  await waitForTransaction(tx);
+}
+
+/**
+ * 读取会话录音
+ *
+ * @returns 录音，会话没有录音时返回null
+ */
+export async function getSessionRecording(id: string): Promise<Blob | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDING_STORE, 'readonly');
+  const stored = await promisifyRequest<StoredRecording | undefined>(tx.objectStore(RECORDING_STORE).get(id));
+  return stored ? stored.blob : null;
+}
+
+/**
+ * 重命名会话
+ */
+export async function renameSession(id: string, title: string): Promise<void> {
+  await updateSession(id, { title });
+}
+
+/**
+ * 删除会话及其全部转写条目和录音
+ */
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_STORE, ITEM_STORE, RECORDING_STORE], 'readwrite');
+
+  tx.objectStore(SESSION_STORE).delete(id);
+  tx.objectStore(RECORDING_STORE).delete(id);
+  const itemKeys = await promisifyRequest<IDBValidKey[]>(
+    tx.objectStore(ITEM_STORE).index('sessionId').getAllKeys(id)
+  );
+  itemKeys.forEach(key => tx.objectStore(ITEM_STORE).delete(key));
+
+  await waitForTransaction(tx);
+  console.log('已删除会话记录:', id);
+}
+
+/**
+ * 搜索会话
+ *
+ * 匹配会话标题、总结内容以及任意条目的原文/优化文本/翻译。
+ *
+ * @param query 搜索关键词
+ * @returns 匹配的会话，按最后更新时间倒序
+ */
+export async function searchSessions(query: string): Promise<StoredSession[]> {
+  const sessions = await listSessions();
+  const keyword = query.trim().toLowerCase();
+  if (!keyword) return sessions;
+
+  const contains = (value?: string) => !!value && value.toLowerCase().includes(keyword);
+
+  const db = await openDatabase();
+  const tx = db.transaction(ITEM_STORE, 'readonly');
+  const allItems = await promisifyRequest<StoredItem[]>(tx.objectStore(ITEM_STORE).getAll());
+  const matchedSessionIds = new Set(
+    allItems
+      .filter(item =>
+        contains(item.text) ||
+        contains(item.refinedText) ||
+        contains(item.translation) ||
+        Object.values(item.translations || {}).some(contains)
+      )
+      .map(item => item.sessionId)
+  );
+
+  return sessions.filter(session =>
+    matchedSessionIds.has(session.id) ||
+    contains(session.title) ||
+    contains(session.summary?.topic) ||
+    contains(session.summary?.summary)
+  );
+}
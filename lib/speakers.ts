@@ -0,0 +1,83 @@
+/**
+ * 说话人标签
+ *
+ * 说话人ID优先使用服务器transcription事件中的speaker字段（例如说话人分离的结果），
+ * 否则根据音频通道区分本人（麦克风）和远程参会者（系统声音）。
+ * 显示名称由用户重命名，按会话保存在SpeakerNames中。
+ */
+
+import { AudioChannel } from './protocol';
+import { TranscriptionItem, SpeakerNames } from './transcriptionTypes';
+
+export const LOCAL_SPEAKER_ID = 'local';
+export const REMOTE_SPEAKER_ID = 'remote';
+
+const DEFAULT_SPEAKER_NAMES: SpeakerNames = {
+  [LOCAL_SPEAKER_ID]: '我',
+  [REMOTE_SPEAKER_ID]: '远程参会者'
+};
+
+export interface SpeakerColor {
+  badge: string;   // 名称标签的样式
+  border: string;  // 条目左边框的样式
+}
+
+// 说话人配色（Tailwind类名需完整写出，才能被构建时扫描到）
+const SPEAKER_COLORS: SpeakerColor[] = [
+  { badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200', border: 'border-blue-400' },
+  { badge: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200', border: 'border-green-400' },
+  { badge: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200', border: 'border-purple-400' },
+  { badge: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200', border: 'border-orange-400' },
+  { badge: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200', border: 'border-pink-400' },
+  { badge: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200', border: 'border-teal-400' }
+];
+
+/**
+ * 根据服务器的speaker字段或音频通道确定说话人ID
+ *
+ * @returns 说话人ID，无法确定时返回undefined
+ */
+export function resolveSpeakerId(speaker?: string, channel?: AudioChannel): string | undefined {
+  if (speaker && speaker.trim()) {
+    return speaker.trim();
+  }
+  if (channel === 'microphone') return LOCAL_SPEAKER_ID;
+  if (channel === 'system') return REMOTE_SPEAKER_ID;
+  return undefined;
+}
+
+/**
+ * 获取说话人的显示名称：用户设置的名称 > 默认名称 > 说话人ID
+ */
+export function getSpeakerName(speakerId: string, names: SpeakerNames = {}): string {
+  return names[speakerId] || DEFAULT_SPEAKER_NAMES[speakerId] || speakerId;
+}
+
+/**
+ * 获取说话人的配色
+ *
+ * 本人和远程参会者使用固定颜色，其他说话人按ID哈希选取，保证同一说话人颜色稳定。
+ */
+export function getSpeakerColor(speakerId: string): SpeakerColor {
+  if (speakerId === LOCAL_SPEAKER_ID) return SPEAKER_COLORS[0];
+  if (speakerId === REMOTE_SPEAKER_ID) return SPEAKER_COLORS[1];
+
+  let hash = 0;
+  for (let i = 0; i < speakerId.length; i++) {
+    hash = (hash * 31 + speakerId.charCodeAt(i)) | 0;
+  }
+  return SPEAKER_COLORS[2 + Math.abs(hash) % (SPEAKER_COLORS.length - 2)];
+}
+
+/**
+ * 按首次出现的顺序列出条目中的说话人ID
+ */
+export function listSpeakers(items: TranscriptionItem[]): string[] {
+  const speakers: string[] = [];
+  items.forEach(item => {
+    if (item.speaker && !speakers.includes(item.speaker)) {
+      speakers.push(item.speaker);
+    }
+  });
+  return speakers;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { SpeechGateAction, createSpeechGate } from './speechGate';
+
+interface TestChunk {
+  id: number;
+  durationMs: number;
+}
+
+let nextId = 0;
+const chunk = (durationMs: number): TestChunk => ({ id: nextId++, durationMs });
+
+// 动作的简写：音频块为其id，边界为类型名
+const describeActions = (actions: SpeechGateAction<TestChunk>[]) =>
+  actions.map(action => (action.type === 'audio' ? action.chunk.id : action.type));
+
+describe('createSpeechGate', () => {
+  it('语音开始时先发出speech_start，再按原顺序补发pre-roll，最后是当前块', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 300, hangoverMs: 500 });
+    for (let i = 0; i < 5; i++) {
+      expect(gate.push(chunk(100), false)).toEqual([]);
+    }
+    expect(describeActions(gate.push(chunk(100), true))).toEqual(['speech_start', 2, 3, 4, 5]);
+    expect(gate.isInSpeech()).toBe(true);
+  });
+
+  it('块长不整除pre-roll时，保留覆盖preRollMs所需的最少块', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 300, hangoverMs: 500 });
+    [120, 120, 120, 120, 120].forEach(duration => gate.push(chunk(duration), false));
+    // 360ms >= 300ms，再去掉最旧的一块就不足300ms
+    expect(describeActions(gate.push(chunk(120), true))).toEqual(['speech_start', 2, 3, 4, 5]);
+  });
+
+  it('pre-roll为0时只发送当前块', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 0, hangoverMs: 500 });
+    gate.push(chunk(100), false);
+    gate.push(chunk(100), false);
+    expect(describeActions(gate.push(chunk(100), true))).toEqual(['speech_start', 2]);
+  });
+
+  it('hangover按毫秒计算，不受块长变化影响', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 0, hangoverMs: 500 });
+    gate.push(chunk(250), true);
+
+    // 100 + 250 + 100 = 450ms，仍在hangover内
+    expect(describeActions(gate.push(chunk(100), false))).toEqual([1]);
+    expect(describeActions(gate.push(chunk(250), false))).toEqual([2]);
+    expect(describeActions(gate.push(chunk(100), false))).toEqual([3]);
+    // 累计550ms超过500ms，发送本块后结束
+    expect(describeActions(gate.push(chunk(100), false))).toEqual([4, 'speech_end']);
+    expect(gate.isInSpeech()).toBe(false);
+  });
+
+  it('hangover期间再次出现语音时重新计时', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 0, hangoverMs: 300 });
+    gate.push(chunk(100), true);
+    gate.push(chunk(200), false);
+    expect(describeActions(gate.push(chunk(100), true))).toEqual([2]);
+    expect(describeActions(gate.push(chunk(200), false))).toEqual([3]);
+    expect(describeActions(gate.push(chunk(200), false))).toEqual([4, 'speech_end']);
+  });
+
+  it('hangover为0时语音后的第一个静音块不发送，留作下一段的pre-roll', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 200, hangoverMs: 0 });
+    gate.push(chunk(100), true);
+    expect(describeActions(gate.push(chunk(100), false))).toEqual(['speech_end']);
+    expect(describeActions(gate.push(chunk(100), true))).toEqual(['speech_start', 1, 2]);
+  });
+
+  it('每段语音的speech_end只发出一次', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 100, hangoverMs: 200 });
+    const actions: SpeechGateAction<TestChunk>[] = [];
+    const pattern = [true, true, false, false, false, false, true, false, false, false];
+    pattern.forEach(isSpeech => actions.push(...gate.push(chunk(100), isSpeech)));
+    actions.push(...gate.end());
+
+    const boundaries = describeActions(actions).filter(action => typeof action === 'string');
+    expect(boundaries).toEqual(['speech_start', 'speech_end', 'speech_start', 'speech_end']);
+    expect(gate.end()).toEqual([]);
+  });
+
+  it('语音中途重置时补发speech_end，之后的语音重新以speech_start开始', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 300, hangoverMs: 500 });
+    gate.push(chunk(100), false);
+    gate.push(chunk(100), true);
+    expect(describeActions(gate.end())).toEqual(['speech_end']);
+    expect(gate.isInSpeech()).toBe(false);
+
+    // 重置后的静音块不会产生speech_end
+    expect(gate.push(chunk(100), false)).toEqual([]);
+    // 重置前的pre-roll已丢弃，只补发重置后缓存的块
+    expect(describeActions(gate.push(chunk(100), true))).toEqual(['speech_start', 2, 3]);
+  });
+
+  it('静音时重置不产生任何动作，并丢弃pre-roll', () => {
+    nextId = 0;
+    const gate = createSpeechGate<TestChunk>({ preRollMs: 300, hangoverMs: 500 });
+    gate.push(chunk(100), false);
+    gate.push(chunk(100), false);
+    expect(gate.end()).toEqual([]);
+    expect(describeActions(gate.push(chunk(100), true))).toEqual(['speech_start', 2]);
+  });
+});
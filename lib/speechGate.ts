@@ -0,0 +1,124 @@
+/**
+ * 语音门控：决定哪些音频块发送给服务器
+ *
+ * - 静音期间保留最近preRollMs毫秒的音频块（环形缓冲），语音开始时先补发，避免吞掉第一个音节
+ * - 语音结束后继续发送hangoverMs毫秒，避免截断词尾辅音
+ * - 在语音段的边界产生speech_start / speech_end动作，供服务器按语音段切分
+ *
+ * 门控只根据调用方给出的“是否为语音”判断工作，不访问采样数据，是纯状态机，可直接测试。
+ */
+
+export interface SpeechGateOptions {
+  preRollMs: number;    // 语音开始前补发的时长
+  hangoverMs: number;   // 语音结束后继续发送的时长
+}
+
+export const DEFAULT_SPEECH_GATE_OPTIONS: SpeechGateOptions = {
+  preRollMs: 300,
+  hangoverMs: 500
+};
+
+// 可选的pre-roll和hangover时长（毫秒）
+export const PRE_ROLL_OPTIONS = [0, 200, 300, 500];
+export const HANGOVER_OPTIONS = [0, 300, 500, 1000];
+
+// 门控需要的音频块信息
+export interface GatedChunk {
+  durationMs: number;
+}
+
+// 门控产生的动作，按顺序执行
+export type SpeechGateAction<T extends GatedChunk> =
+  | { type: 'speech_start' }
+  | { type: 'audio'; chunk: T }
+  | { type: 'speech_end' };
+
+export interface SpeechGate<T extends GatedChunk> {
+  push: (chunk: T, isSpeech: boolean) => SpeechGateAction<T>[];
+  end: () => SpeechGateAction<T>[];
+  setOptions: (options: SpeechGateOptions) => void;
+  isInSpeech: () => boolean;
+}
+
+/**
+ * 创建语音门控
+ */
+export function createSpeechGate<T extends GatedChunk>(
+  initialOptions: SpeechGateOptions = DEFAULT_SPEECH_GATE_OPTIONS
+): SpeechGate<T> {
+  let options = initialOptions;
+  let inSpeech = false;
+  let hangoverLeft = 0;
+  let preRoll: T[] = [];
+  let preRollDuration = 0;
+
+  // 加入环形缓冲，并丢弃超出preRollMs的最旧块
+  const bufferChunk = (chunk: T) => {
+    preRoll.push(chunk);
+    preRollDuration += chunk.durationMs;
+    while (preRoll.length > 0 && preRollDuration - preRoll[0].durationMs >= options.preRollMs) {
+      preRollDuration -= preRoll[0].durationMs;
+      preRoll.shift();
+    }
+    if (options.preRollMs <= 0) {
+      preRoll = [];
+      preRollDuration = 0;
+    }
+  };
+
+  const takePreRoll = (): T[] => {
+    const chunks = preRoll;
+    preRoll = [];
+    preRollDuration = 0;
+    return chunks;
+  };
+
+  return {
+    push: (chunk: T, isSpeech: boolean): SpeechGateAction<T>[] => {
+      if (isSpeech) {
+        hangoverLeft = options.hangoverMs;
+        if (inSpeech) {
+          return [{ type: 'audio', chunk }];
+        }
+        inSpeech = true;
+        return [
+          { type: 'speech_start' },
+          ...takePreRoll().map(buffered => ({ type: 'audio' as const, chunk: buffered })),
+          { type: 'audio', chunk }
+        ];
+      }
+
+      if (!inSpeech) {
+        bufferChunk(chunk);
+        return [];
+      }
+
+      // 语音刚结束，hangover期间继续发送
+      if (hangoverLeft > 0) {
+        hangoverLeft -= chunk.durationMs;
+        if (hangoverLeft > 0) {
+          return [{ type: 'audio', chunk }];
+        }
+        inSpeech = false;
+        return [{ type: 'audio', chunk }, { type: 'speech_end' }];
+      }
+
+      inSpeech = false;
+      bufferChunk(chunk);
+      return [{ type: 'speech_end' }];
+    },
+    end: (): SpeechGateAction<T>[] => {
+      takePreRoll();
+      hangoverLeft = 0;
+      if (!inSpeech) {
+        return [];
+      }
+      inSpeech = false;
+      return [{ type: 'speech_end' }];
+    },
+    setOptions: (nextOptions: SpeechGateOptions) => {
+      options = nextOptions;
+    },
+    isInSpeech: () => inSpeech
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * 转写条目的人工编辑
+ *
+ * 编辑结果保存在条目的edits字段中，不覆盖服务器返回的原始文本，
+ * 因此服务器之后的更新（final、优化文本、翻译）不会冲掉人工修改，导出时也可以选择原始版本。
+ * 撤销/重做通过编辑记录栈实现；编辑记录只描述变化，可以应用到最新的条目上，
+ * 不会覆盖编辑期间新到达的转写结果。都是纯函数。
+ */
+
+import { TranscriptionItem, EditableField, TranscriptEdits, ShowMode } from './transcriptionTypes';
+
+export const EDITABLE_FIELDS: EditableField[] = ['text', 'refinedText', 'translation'];
+
+// 各字段的显示名称
+export const FIELD_LABELS: Record<EditableField, string> = {
+  text: '原文',
+  refinedText: '优化文本',
+  translation: '翻译'
+};
+
+// 一次编辑：某个条目某个字段的编辑值从previous变为next（undefined表示没有编辑）
+export interface EditRecord {
+  itemId: string;
+  field: EditableField;
+  previous?: string;
+  next?: string;
+}
+
+export interface EditHistory {
+  past: EditRecord[];
+  future: EditRecord[];
+}
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { past: [], future: [] };
+
+// 撤销栈的最大长度
+const MAX_HISTORY = 100;
+
+/**
+ * 字段的当前值：有人工编辑时使用编辑值，否则使用服务器返回的值
+ */
+export function getEditedValue(item: TranscriptionItem, field: EditableField): string | undefined {
+  const edited = item.edits?.[field];
+  return edited !== undefined ? edited : item[field];
+}
+
+/**
+ * 条目在指定显示模式下的文本（有人工编辑时使用编辑后的文本）
+ *
+ * 优化文本模式下没有优化文本的条目显示原文。
+ */
+export function getShowModeText(item: TranscriptionItem, mode: ShowMode): string {
+  switch (mode) {
+    case 'refined':
+      return getEditedValue(item, 'refinedText') || getEditedValue(item, 'text') || '';
+    case 'translation':
+      return getEditedValue(item, 'translation') || '';
+    case 'original':
+    default:
+      return getEditedValue(item, 'text') || '';
+  }
+}
+
+/**
+ * 把人工编辑合并进文本字段，得到用于显示、导出和总结的条目
+ */
+export function applyEditsToItem(item: TranscriptionItem): TranscriptionItem {
+  if (!item.edits) return item;
+  return {
+    ...item,
+    text: getEditedValue(item, 'text') || '',
+    refinedText: getEditedValue(item, 'refinedText'),
+    translation: getEditedValue(item, 'translation')
+  };
+}
+
+// 设置（或清除）条目某个字段的编辑值
+function setEdit(item: TranscriptionItem, field: EditableField, value: string | undefined): TranscriptionItem {
+  const edits: TranscriptEdits = { ...item.edits };
+  // 与服务器原文相同时视为没有编辑
+  if (value === undefined || value === (item[field] || '')) {
+    delete edits[field];
+  } else {
+    edits[field] = value;
+  }
+  return { ...item, edits: Object.keys(edits).length > 0 ? edits : undefined };
+}
+
+/**
+ * 生成一次编辑的记录
+ *
+ * @returns 内容没有变化时返回null
+ */
+export function createEditRecord(item: TranscriptionItem, field: EditableField, value: string): EditRecord | null {
+  if ((getEditedValue(item, field) || '') === value) return null;
+  return {
+    itemId: item.id,
+    field,
+    previous: item.edits?.[field],
+    next: setEdit(item, field, value).edits?.[field]
+  };
+}
+
+/**
+ * 把编辑记录应用到它所属的条目：'next'为执行/重做，'previous'为撤销
+ */
+export function applyEditRecord(
+  item: TranscriptionItem,
+  record: EditRecord,
+  side: 'previous' | 'next'
+): TranscriptionItem {
+  return setEdit(item, record.field, record[side]);
+}
+
+/**
+ * 把新的编辑加入撤销栈，并清空重做栈
+ */
+export function pushEditRecord(history: EditHistory, record: EditRecord): EditHistory {
+  return { past: [...history.past, record].slice(-MAX_HISTORY), future: [] };
+}
+
+/**
+ * 取出要撤销的记录
+ *
+ * @returns 没有可撤销的编辑时返回null
+ */
+export function stepBack(history: EditHistory): { record: EditRecord; history: EditHistory } | null {
+  const record = history.past[history.past.length - 1];
+  if (!record) return null;
+  return {
+    record,
+    history: { past: history.past.slice(0, -1), future: [...history.future, record] }
+  };
+}
+
+/**
+ * 取出要重做的记录
+ *
+ * @returns 没有可重做的编辑时返回null
+ */
+export function stepForward(history: EditHistory): { record: EditRecord; history: EditHistory } | null {
+  const record = history.future[history.future.length - 1];
+  if (!record) return null;
+  return {
+    record,
+    history: { past: [...history.past, record], future: history.future.slice(0, -1) }
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { buildSrt, buildSubtitleCues, buildWebVtt } from './transcriptExport';
+import { TranscriptionItem } from './transcriptionTypes';
+
+const START = new Date('2024-01-01T10:00:00Z');
+
+// 相对START偏移offsetMs的条目
+const item = (id: string, offsetMs: number, fields: Partial<TranscriptionItem> = {}): TranscriptionItem => ({
+  id,
+  text: `原文${id}`,
+  timestamp: new Date(START.getTime() + offsetMs),
+  ...fields
+});
+
+describe('buildSubtitleCues', () => {
+  it('按时间戳排序，每条字幕在下一条出现时结束', () => {
+    const cues = buildSubtitleCues(
+      [item('b', 3000), item('a', 0), item('c', 5000)],
+      { track: 'original', recordingStart: START }
+    );
+
+    expect(cues.map(cue => cue.lines[0])).toEqual(['原文a', '原文b', '原文c']);
+    expect(cues.map(cue => cue.index)).toEqual([1, 2, 3]);
+    expect(cues.map(cue => [cue.start, cue.end])).toEqual([[0, 3000], [3000, 5000], [5000, 8000]]);
+    cues.forEach(cue => expect(cue.end).toBeGreaterThan(cue.start));
+  });
+
+  it('未指定录音开始时间时以最早的条目为起点', () => {
+    const cues = buildSubtitleCues([item('b', 4000), item('a', 2000)], { track: 'original' });
+    expect(cues[0].start).toBe(0);
+    expect(cues[1].start).toBe(2000);
+  });
+
+  it('限制在最长显示时长内', () => {
+    const cues = buildSubtitleCues(
+      [item('a', 0), item('b', 20000)],
+      { track: 'original', recordingStart: START, maxDuration: 7000 }
+    );
+    expect(cues[0].end).toBe(7000);
+  });
+
+  it('最短显示时长不与下一条字幕重叠', () => {
+    const cues = buildSubtitleCues(
+      [item('a', 0), item('b', 400), item('c', 900)],
+      { track: 'original', recordingStart: START, minDuration: 1000 }
+    );
+    expect(cues[0].end).toBe(400);
+    expect(cues[1].end).toBe(900);
+    expect(cues[2].end).toBe(3900);
+    // 最后一条使用默认时长，不短于最短时长
+    const last = buildSubtitleCues(
+      [item('a', 0)],
+      { track: 'original', recordingStart: START, minDuration: 4000, defaultDuration: 2000 }
+    );
+    expect(last[0].end).toBe(4000);
+  });
+
+  it('跳过没有对应轨道内容的条目', () => {
+    const cues = buildSubtitleCues(
+      [item('a', 0, { translation: 'A' }), item('b', 1000), item('c', 2000, { translation: 'C' })],
+      { track: 'translation', recordingStart: START }
+    );
+    expect(cues.map(cue => cue.lines)).toEqual([['A'], ['C']]);
+    expect(cues[0].end).toBe(2000);
+  });
+});
+
+describe('buildSrt / buildWebVtt', () => {
+  const items = [
+    item('a', 3723456, { translation: 'Hello' }),
+    item('b', 3725000)
+  ];
+
+  it('SRT使用逗号分隔毫秒', () => {
+    const srt = buildSrt(items, { track: 'original', recordingStart: START });
+    expect(srt).toBe(
+      '1\n01:02:03,456 --> 01:02:05,000\n原文a\n\n' +
+      '2\n01:02:05,000 --> 01:02:08,000\n原文b\n'
+    );
+  });
+
+  it('WebVTT使用点分隔毫秒并以WEBVTT开头', () => {
+    const vtt = buildWebVtt(items, { track: 'original', recordingStart: START });
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+    expect(vtt).toContain('01:02:03.456 --> 01:02:05.000');
+  });
+
+  it('双语字幕为原文和翻译两行，没有翻译时只有原文', () => {
+    const srt = buildSrt(items, { track: 'bilingual', recordingStart: START });
+    const blocks = srt.trim().split('\n\n');
+    expect(blocks[0].split('\n').slice(2)).toEqual(['原文a', 'Hello']);
+    expect(blocks[1].split('\n').slice(2)).toEqual(['原文b']);
+
+    const vtt = buildWebVtt(
+      [item('a', 0, { translation: 'Hello', speaker: 'me' })],
+      { track: 'bilingual', recordingStart: START, speakerNames: { me: '张三' } }
+    );
+    expect(vtt.trim().split('\n').slice(-2)).toEqual(['<v 张三>原文a', '<v 张三>Hello']);
+  });
+});
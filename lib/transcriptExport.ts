@@ -0,0 +1,255 @@
+/**
+ * 转写结果导出
+ *
+ * 将转写条目导出为纯文本、SRT字幕、WebVTT字幕或逐条对齐的对照表。
+ * 所有函数都是纯函数，只负责生成文本内容；下载由downloadTextFile完成。
+ */
+
+import { TranscriptionItem, SpeakerNames, EditableField } from './transcriptionTypes';
+import { getSpeakerName } from './speakers';
+import { FIELD_LABELS } from './transcriptEdits';
+
+// 字幕轨道：原文、优化文本、翻译，或原文+翻译双语
+export type SubtitleTrack = 'original' | 'refined' | 'translation' | 'bilingual';
+
+export type ExportFormat = 'txt' | 'srt' | 'vtt' | 'json' | 'md' | 'aligned';
+
+export interface SubtitleCue {
+  index: number;   // 从1开始的序号
+  start: number;   // 相对录音开始的毫秒数
+  end: number;     // 相对录音开始的毫秒数
+  lines: string[]; // 字幕行（双语时为两行）
+  speaker?: string; // 说话人显示名称
+}
+
+export interface SubtitleOptions {
+  track: SubtitleTrack;
+  recordingStart?: Date;     // 录音开始时间，缺省时使用第一条结果的时间
+  minDuration?: number;      // 单条字幕最短显示时长（毫秒）
+  maxDuration?: number;      // 单条字幕最长显示时长（毫秒）
+  defaultDuration?: number;  // 最后一条字幕的显示时长（毫秒）
+  speakerNames?: SpeakerNames; // 说话人显示名称，条目带说话人时写入字幕
+}
+
+const DEFAULT_MIN_DURATION = 1000;
+const DEFAULT_MAX_DURATION = 7000;
+const DEFAULT_LAST_DURATION = 3000;
+
+// 获取指定轨道的字幕行，没有内容时返回空数组
+function getTrackLines(item: TranscriptionItem, track: SubtitleTrack): string[] {
+  switch (track) {
+    case 'refined':
+      return [item.refinedText || item.text];
+    case 'translation':
+      return item.translation ? [item.translation] : [];
+    case 'bilingual':
+      return item.translation ? [item.text, item.translation] : [item.text];
+    case 'original':
+    default:
+      return [item.text];
+  }
+}
+
+/**
+ * 根据条目时间戳计算字幕时间轴
+ *
+ * 条目按时间戳排序，每条字幕从条目时间戳（相对录音开始）出现，到下一条字幕出现时结束，
+ * 并限制在最短/最长显示时长之间；最短时长不会让字幕与下一条重叠。没有对应轨道内容的条目会被跳过。
+ */
+export function buildSubtitleCues(items: TranscriptionItem[], options: SubtitleOptions): SubtitleCue[] {
+  const {
+    track,
+    minDuration = DEFAULT_MIN_DURATION,
+    maxDuration = DEFAULT_MAX_DURATION,
+    defaultDuration = DEFAULT_LAST_DURATION,
+    speakerNames
+  } = options;
+
+  const entries = items
+    .map(item => ({ item, lines: getTrackLines(item, track).map(line => line.trim()).filter(Boolean) }))
+    .filter(entry => entry.lines.length > 0)
+    .sort((a, b) => a.item.timestamp.getTime() - b.item.timestamp.getTime());
+
+  if (entries.length === 0) return [];
+
+  const origin = (options.recordingStart || entries[0].item.timestamp).getTime();
+  const starts = entries.map(entry => Math.max(0, entry.item.timestamp.getTime() - origin));
+
+  return entries.map((entry, i) => {
+    const start = starts[i];
+    const hasNext = i + 1 < starts.length;
+    const nextStart = hasNext ? starts[i + 1] : start + defaultDuration;
+    let end = Math.max(start + minDuration, Math.min(nextStart, start + maxDuration));
+    // 下一条字幕出现时结束（同时出现的字幕仍按最短时长显示）
+    if (hasNext && nextStart > start) {
+      end = Math.min(end, nextStart);
+    }
+    const speaker = entry.item.speaker ? getSpeakerName(entry.item.speaker, speakerNames) : undefined;
+    return { index: i + 1, start, end, lines: entry.lines, speaker };
+  });
+}
+
+// 毫秒转字幕时间格式，SRT使用逗号分隔毫秒，WebVTT使用点
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}${separator}${millis.toString().padStart(3, '0')}`;
+}
+
+// 字幕行内不能出现空行，否则会被解析为字幕块结束
+function normalizeCueLine(line: string): string {
+  return line.replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * 生成SRT字幕
+ *
+ * SRT没有说话人语法，说话人名称作为第一行的前缀。
+ */
+export function buildSrt(items: TranscriptionItem[], options: SubtitleOptions): string {
+  return buildSubtitleCues(items, options)
+    .map(cue => [
+      String(cue.index),
+      `${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}`,
+      ...cue.lines.map((line, i) => (
+        i === 0 && cue.speaker ? `${cue.speaker}: ${normalizeCueLine(line)}` : normalizeCueLine(line)
+      ))
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+// WebVTT字幕文本需要转义 & < >
+function escapeVttText(line: string): string {
+  return normalizeCueLine(line)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * 生成WebVTT字幕
+ *
+ * 说话人使用WebVTT的语音标签（<v 名称>）标注。
+ */
+export function buildWebVtt(items: TranscriptionItem[], options: SubtitleOptions): string {
+  const cues = buildSubtitleCues(items, options).map(cue => [
+    String(cue.index),
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`,
+    ...cue.lines.map(line => (
+      cue.speaker ? `<v ${escapeVttText(cue.speaker)}>${escapeVttText(line)}` : escapeVttText(line)
+    ))
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * 生成带时间戳的纯文本，包含说话人、原文、优化文本和翻译
+ */
+export function buildTimestampedText(items: TranscriptionItem[], speakerNames?: SpeakerNames): string {
+  return items.map(item => {
+    let result = `[${item.timestamp.toLocaleTimeString()}]`;
+    if (item.speaker) {
+      result += ` ${getSpeakerName(item.speaker, speakerNames)}`;
+    }
+    result += '\n';
+    result += `原文: ${item.text}\n`;
+    if (item.refinedText) {
+      result += `优化: ${item.refinedText}\n`;
+    }
+    if (item.translation) {
+      result += `翻译: ${item.translation}\n`;
+    }
+    return result;
+  }).join('\n\n');
+}
+
+/**
+ * 生成连续文本，不含时间戳
+ *
+ * 条目带说话人时，每次换人另起一段并以说话人名称开头。
+ *
+ * @param getText 获取条目当前显示文本的函数
+ */
+export function buildContinuousText(
+  items: TranscriptionItem[],
+  getText: (item: TranscriptionItem) => string,
+  speakerNames?: SpeakerNames
+): string {
+  return items.map((item, index) => {
+    const displayText = getText(item);
+    const speakerChanged = !!item.speaker && (index === 0 || items[index - 1].speaker !== item.speaker);
+    if (speakerChanged) {
+      const prefix = `${getSpeakerName(item.speaker!, speakerNames)}: ${displayText}`;
+      return index === 0 ? prefix : `\n\n${prefix}`;
+    }
+    if (index === 0) {
+      return displayText;
+    }
+    // 根据前一条文本长度添加适当的分隔
+    const prevTextLength = getText(items[index - 1]).length;
+    return (prevTextLength > 40 ? '. ' : ' ') + displayText;
+  }).join('');
+}
+
+// Markdown表格单元格：转义竖线，换行改为<br>
+function escapeTableCell(text: string): string {
+  return text.trim().replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>');
+}
+
+/**
+ * 生成逐条对齐的对照表（Markdown表格）
+ *
+ * 每个条目一行，按columns的顺序并排列出原文、优化文本和翻译；缺少的内容留为“—”。
+ * 有说话人时增加说话人列。
+ */
+export function buildAlignedTable(
+  items: TranscriptionItem[],
+  columns: EditableField[],
+  speakerNames?: SpeakerNames
+): string {
+  const hasSpeakers = items.some(item => !!item.speaker);
+  const headers = ['时间', ...(hasSpeakers ? ['说话人'] : []), ...columns.map(field => FIELD_LABELS[field])];
+
+  const rows = items.map(item => {
+    const cells = [item.timestamp.toLocaleTimeString()];
+    if (hasSpeakers) {
+      cells.push(item.speaker ? getSpeakerName(item.speaker, speakerNames) : '');
+    }
+    columns.forEach(field => cells.push(item[field] || '—'));
+    return `| ${cells.map(escapeTableCell).join(' | ')} |`;
+  });
+
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows
+  ].join('\n') + '\n';
+}
+
+/**
+ * 在浏览器中下载文本文件
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string = 'text/plain'): void {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+}
+
+/**
+ * 在浏览器中下载二进制文件（如会话录音）
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+
+  document.body.appendChild(a);
+  a.click();
+
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
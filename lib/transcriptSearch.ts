@@ -0,0 +1,89 @@
+/**
+ * 转写结果的搜索与筛选
+ *
+ * 搜索同时匹配原文、优化文本和翻译（有人工编辑时匹配编辑后的文本），不区分大小写；
+ * 筛选条件包括只看关键词命中、时间范围和说话人。都是纯函数，条目持续到达时直接重新计算即可。
+ */
+
+import { TranscriptionItem, EditableField } from './transcriptionTypes';
+import { EDITABLE_FIELDS, getEditedValue } from './transcriptEdits';
+
+export interface TranscriptFilter {
+  query: string;
+  keywordOnly: boolean;   // 只看匹配关注关键词的条目
+  speaker: string;        // 说话人ID，'all'表示全部
+  timeFrom: string;       // 'HH:MM'，为空表示不限
+  timeTo: string;
+}
+
+export const EMPTY_TRANSCRIPT_FILTER: TranscriptFilter = {
+  query: '',
+  keywordOnly: false,
+  speaker: 'all',
+  timeFrom: '',
+  timeTo: ''
+};
+
+// 文本按搜索词切分后的片段
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// 'HH:MM' -> 当天的分钟数，格式不正确时返回null
+function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * 条目中包含搜索词的字段
+ */
+export function findMatchedFields(item: TranscriptionItem, query: string): EditableField[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return EDITABLE_FIELDS.filter(field => (getEditedValue(item, field) || '').toLowerCase().includes(needle));
+}
+
+/**
+ * 条目是否满足除搜索词以外的筛选条件
+ */
+export function matchesFilter(item: TranscriptionItem, filter: TranscriptFilter): boolean {
+  if (filter.speaker !== 'all' && item.speaker !== filter.speaker) return false;
+  if (filter.keywordOnly && !item.isKeywordMatch) return false;
+
+  const from = parseTimeOfDay(filter.timeFrom);
+  const to = parseTimeOfDay(filter.timeTo);
+  if (from !== null || to !== null) {
+    const minutes = item.timestamp.getHours() * 60 + item.timestamp.getMinutes();
+    if (from !== null && minutes < from) return false;
+    if (to !== null && minutes > to) return false;
+  }
+  return true;
+}
+
+/**
+ * 按搜索词切分文本，用于高亮显示
+ */
+export function splitByQuery(text: string, query: string): HighlightSegment[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, isMatch: false }];
+
+  const segments: HighlightSegment[] = [];
+  const haystack = text.toLowerCase();
+  let position = 0;
+  let index = haystack.indexOf(needle);
+  while (index >= 0) {
+    if (index > position) {
+      segments.push({ text: text.slice(position, index), isMatch: false });
+    }
+    segments.push({ text: text.slice(index, index + needle.length), isMatch: true });
+    position = index + needle.length;
+    index = haystack.indexOf(needle, position);
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), isMatch: false });
+  }
+  return segments;
+}
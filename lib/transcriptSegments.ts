@@ -0,0 +1,84 @@
+/**
+ * 转写片段合并
+ *
+ * 把服务器的转写事件转换为条目，或合并进同一片段已有的条目：
+ * 带segmentId的事件按片段原地更新，partial更新文本并保持中间状态，final锁定片段，之后同一片段的partial被忽略。
+ *
+ * 都是纯函数，返回新的条目对象；条目的查找和列表维护（包括segment_update附加优化文本/翻译）由transcriptStore负责。
+ */
+
+import { TranscriptEvent } from './protocol';
+import { TranscriptionItem } from './transcriptionTypes';
+import { resolveSpeakerId } from './speakers';
+import { mergeTranslations } from './translations';
+
+export type TextTranscriptEvent = Exclude<TranscriptEvent, { event: 'segment_update' }>;
+
+/**
+ * 根据转写事件创建条目
+ */
+export function createItemFromEvent(event: TextTranscriptEvent, id: string): TranscriptionItem {
+  return {
+    id,
+    text: event.text,
+    refinedText: event.refinedText,
+    translation: event.translation,
+    translations: event.translations,
+    timestamp: event.timestamp ? new Date(event.timestamp * 1000) : new Date(),
+    isKeywordMatch: event.isKeywordMatch,
+    isContinuation: event.isContinuation,
+    continuationReason: event.continuationReason,
+    matchedKeywords: event.matchedKeywords,
+    matchReason: event.matchReason,
+    speaker: resolveSpeakerId(event.speaker, event.channel),
+    segmentId: event.segmentId,
+    isPartial: event.event === 'partial',
+    audioStart: event.audioStart,
+    audioEnd: event.audioEnd
+  };
+}
+
+/**
+ * 把同一片段的新结果合并到已有条目
+ *
+ * @returns 片段已确定而新结果是中间结果时返回null，表示忽略
+ */
+export function mergeSegmentEvent(
+  existing: TranscriptionItem,
+  event: TextTranscriptEvent
+): TranscriptionItem | null {
+  // 片段已确定，忽略迟到的中间结果
+  if (event.event === 'partial' && !existing.isPartial) return null;
+
+  const updated = createItemFromEvent(event, existing.id);
+  return {
+    ...updated,
+    // 片段的时间以第一次出现为准，之前附加的优化文本/翻译、说话人和录音位置在新结果没有时保留
+    timestamp: existing.timestamp,
+    refinedText: updated.refinedText ?? existing.refinedText,
+    translation: updated.translation ?? existing.translation,
+    translations: mergeTranslations(existing.translations, updated.translations),
+    speaker: updated.speaker ?? existing.speaker,
+    audioStart: updated.audioStart ?? existing.audioStart,
+    audioEnd: updated.audioEnd ?? existing.audioEnd,
+    edits: existing.edits
+  };
+}
+
+/**
+ * 用连续文本替换上一条条目
+ *
+ * 新条目继承上一条的ID和人工编辑，编辑记录仍指向同一条目，可以撤销/重做；
+ * 新结果没有segmentId时继承上一条的片段，之后该片段的优化文本和翻译仍能附加上去。
+ */
+export function replaceWithContinuation(
+  existing: TranscriptionItem,
+  item: TranscriptionItem
+): TranscriptionItem {
+  return {
+    ...item,
+    id: existing.id,
+    segmentId: item.segmentId ?? existing.segmentId,
+    edits: existing.edits
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createTranscriptStore } from './transcriptStore';
+import { TranscriptionEvent } from './protocol';
+import { createEditRecord, getShowModeText } from './transcriptEdits';
+
+const transcription = (text: string, fields: Partial<TranscriptionEvent> = {}): TranscriptionEvent => ({
+  event: 'transcription',
+  text,
+  isKeywordMatch: false,
+  isContinuation: false,
+  matchedKeywords: [],
+  ...fields
+});
+
+describe('createTranscriptStore连续文本', () => {
+  it('连续文本替换上一条时保留人工编辑，编辑仍可撤销', () => {
+    const store = createTranscriptStore();
+    store.applyEvent(transcription('今天天气'));
+    const [first] = store.getItems();
+    const record = createEditRecord(first, 'text', '今天天气很好')!;
+    store.dispatch({ type: 'edit', record, side: 'next' });
+
+    store.applyEvent(transcription('今天天气不错', { isContinuation: true }));
+    const [replaced] = store.getItems();
+    expect(store.getItems()).toHaveLength(1);
+    expect(replaced.id).toBe(first.id);
+    expect(replaced.text).toBe('今天天气不错');
+    expect(getShowModeText(replaced, 'original')).toBe('今天天气很好');
+    expect(store.getSnapshot().statistics.original.totalCharacters).toBe(6);
+
+    store.dispatch({ type: 'edit', record, side: 'previous' });
+    expect(getShowModeText(store.getItems()[0], 'original')).toBe('今天天气不错');
+  });
+
+  it('连续文本替换带片段的条目后，该片段的优化文本和翻译仍附加到新条目', () => {
+    const store = createTranscriptStore();
+    store.applyEvent(transcription('你好', { segmentId: 's1' }));
+    store.applyEvent(transcription('你好世界', { isContinuation: true }));
+    store.applyEvent({ event: 'segment_update', segmentId: 's1', refinedText: '你好，世界。', translation: 'Hello world' });
+
+    const items = store.getItems();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ text: '你好世界', segmentId: 's1', refinedText: '你好，世界。', translation: 'Hello world' });
+  });
+
+  it('没有条目时连续文本作为新条目追加', () => {
+    const store = createTranscriptStore();
+    store.applyEvent(transcription('开始', { isContinuation: true }));
+    expect(store.getItems().map(item => item.text)).toEqual(['开始']);
+    expect(store.getSnapshot().count).toBe(1);
+  });
+});
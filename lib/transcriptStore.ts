@@ -0,0 +1,252 @@
+/**
+ * 转写条目存储
+ *
+ * 会话中所有转写条目的唯一来源：转写显示、会话总结、导出、持久化和调试面板都从这里读取。
+ * 条目只能通过类型化的动作修改（dispatch），服务器事件由applyEvent转换为动作。
+ *
+ * 长时间录音（例如3小时的讲座）会产生数千条转写结果，每个结果都复制整个列表、
+ * 重新计算全部统计信息会越来越慢。这里按ID规范化存储条目：
+ * - 追加条目、按片段或ID更新条目都是O(1)（片段ID -> 条目ID的索引）
+ * - 条目对象不可变，更新时替换为新对象，未变化的条目保持同一引用
+ * - 统计信息随条目的增删改增量更新，三种显示模式各维护一份
+ *
+ * 存储本身是可变的，通过subscribe/getSnapshot接入React的useSyncExternalStore；
+ * 条目数组只在被读取时按需生成，并缓存到下一次变化。
+ */
+
+import { createContext, useSyncExternalStore } from 'react';
+import { TranscriptEvent } from './protocol';
+import { TranscriptionItem, ShowMode } from './transcriptionTypes';
+import { TextTranscriptEvent, createItemFromEvent, mergeSegmentEvent, replaceWithContinuation } from './transcriptSegments';
+import { EditRecord, getShowModeText, applyEditRecord } from './transcriptEdits';
+import { TextStatistics, calculateCharacters, calculateTokens } from './textUtils';
+import { mergeTranslations } from './translations';
+
+const SHOW_MODES: ShowMode[] = ['original', 'refined', 'translation'];
+
+// 各显示模式下的统计信息
+export type TranscriptStatistics = Record<ShowMode, TextStatistics>;
+
+// 存储的快照：每次变化后version递增
+export interface TranscriptSnapshot {
+  version: number;
+  count: number;
+  statistics: TranscriptStatistics;
+}
+
+// 修改条目的动作；目标条目或片段不存在时动作被忽略
+export type TranscriptAction =
+  | { type: 'append'; item: TranscriptionItem }                             // 追加新条目
+  | { type: 'replaceContinuation'; item: TranscriptionItem }                // 连续文本替换最后一条
+  | { type: 'updateSegment'; segmentId: string; event: TextTranscriptEvent } // 同一片段的新结果原地更新
+  | { type: 'attachRefinement'; segmentId: string; refinedText: string }    // 附加优化文本
+  | { type: 'attachTranslation'; segmentId: string; translation?: string; translations?: Record<string, string> } // 附加主翻译和/或各语言的翻译
+  | { type: 'edit'; record: EditRecord; side: 'previous' | 'next' };        // 人工编辑（next）或撤销（previous）
+
+export interface TranscriptStore {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => TranscriptSnapshot;
+  getItems: () => TranscriptionItem[];                   // 按顺序排列的条目，未变化时返回同一数组
+  getItem: (id: string) => TranscriptionItem | undefined;
+  dispatch: (action: TranscriptAction) => void;
+  applyEvent: (event: TranscriptEvent) => void;          // 把服务器转写事件转换为动作并执行
+}
+
+// 单个条目对统计信息的贡献
+type ItemContribution = Record<ShowMode, { characters: number; tokens: number }>;
+
+function measureItem(item: TranscriptionItem): ItemContribution {
+  const contribution = {} as ItemContribution;
+  SHOW_MODES.forEach(mode => {
+    const text = getShowModeText(item, mode);
+    contribution[mode] = { characters: calculateCharacters(text), tokens: calculateTokens(text) };
+  });
+  return contribution;
+}
+
+function emptyStatistics(): TranscriptStatistics {
+  const statistics = {} as TranscriptStatistics;
+  SHOW_MODES.forEach(mode => {
+    statistics[mode] = { textCount: 0, totalCharacters: 0, totalTokens: 0 };
+  });
+  return statistics;
+}
+
+/**
+ * 创建转写条目存储
+ *
+ * @param initialItems 初始条目（例如历史会话）
+ */
+export function createTranscriptStore(initialItems: TranscriptionItem[] = []): TranscriptStore {
+  const ids: string[] = [];
+  const byId = new Map<string, TranscriptionItem>();
+  const segmentIndex = new Map<string, string>();   // 片段ID -> 条目ID
+  const contributions = new Map<string, ItemContribution>();
+  const listeners = new Set<() => void>();
+
+  let statistics = emptyStatistics();
+  let snapshot: TranscriptSnapshot = { version: 0, count: 0, statistics };
+  let itemsCache: TranscriptionItem[] | null = null;
+
+  // 从统计信息中加上（sign=1）或减去（sign=-1）一个条目的贡献
+  const applyContribution = (contribution: ItemContribution, sign: 1 | -1) => {
+    const next = { ...statistics };
+    SHOW_MODES.forEach(mode => {
+      const current = next[mode];
+      next[mode] = {
+        textCount: current.textCount + sign,
+        totalCharacters: current.totalCharacters + sign * contribution[mode].characters,
+        totalTokens: current.totalTokens + sign * contribution[mode].tokens
+      };
+    });
+    statistics = next;
+  };
+
+  const setItem = (item: TranscriptionItem) => {
+    const previous = contributions.get(item.id);
+    if (previous) {
+      applyContribution(previous, -1);
+    }
+    const contribution = measureItem(item);
+    applyContribution(contribution, 1);
+    contributions.set(item.id, contribution);
+    byId.set(item.id, item);
+    if (item.segmentId) {
+      segmentIndex.set(item.segmentId, item.id);
+    }
+  };
+
+  const appendItem = (item: TranscriptionItem) => {
+    ids.push(item.id);
+    setItem(item);
+  };
+
+  const getSegmentItem = (segmentId: string) => {
+    const id = segmentIndex.get(segmentId);
+    return id ? byId.get(id) : undefined;
+  };
+
+  // 执行一个动作，返回条目是否发生变化
+  const reduce = (action: TranscriptAction): boolean => {
+    switch (action.type) {
+      case 'append':
+        appendItem(action.item);
+        return true;
+      case 'replaceContinuation': {
+        if (ids.length === 0) {
+          appendItem(action.item);
+          return true;
+        }
+        setItem(replaceWithContinuation(byId.get(ids[ids.length - 1])!, action.item));
+        return true;
+      }
+      case 'updateSegment': {
+        const existing = getSegmentItem(action.segmentId);
+        const merged = existing ? mergeSegmentEvent(existing, action.event) : null;
+        if (!merged) return false;
+        setItem(merged);
+        return true;
+      }
+      case 'attachRefinement': {
+        const existing = getSegmentItem(action.segmentId);
+        if (!existing) return false;
+        setItem({ ...existing, refinedText: action.refinedText });
+        return true;
+      }
+      case 'attachTranslation': {
+        const existing = getSegmentItem(action.segmentId);
+        if (!existing) return false;
+        setItem({
+          ...existing,
+          translation: action.translation ?? existing.translation,
+          translations: mergeTranslations(existing.translations, action.translations)
+        });
+        return true;
+      }
+      case 'edit': {
+        const existing = byId.get(action.record.itemId);
+        if (!existing) return false;
+        setItem(applyEditRecord(existing, action.record, action.side));
+        return true;
+      }
+    }
+  };
+
+  const notify = () => {
+    itemsCache = null;
+    snapshot = { version: snapshot.version + 1, count: ids.length, statistics };
+    listeners.forEach(listener => listener());
+  };
+
+  const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+  // 服务器事件 -> 动作
+  const actionsForEvent = (event: TranscriptEvent): TranscriptAction[] => {
+    if (event.event === 'segment_update') {
+      const actions: TranscriptAction[] = [];
+      if (event.refinedText !== undefined) {
+        actions.push({ type: 'attachRefinement', segmentId: event.segmentId, refinedText: event.refinedText });
+      }
+      if (event.translation !== undefined || event.translations !== undefined) {
+        actions.push({
+          type: 'attachTranslation',
+          segmentId: event.segmentId,
+          translation: event.translation,
+          translations: event.translations
+        });
+      }
+      return actions;
+    }
+    if (event.segmentId && segmentIndex.has(event.segmentId)) {
+      return [{ type: 'updateSegment', segmentId: event.segmentId, event }];
+    }
+    const item = createItemFromEvent(event, generateId());
+    // 不带segmentId的连续文本替换上一条，其余结果（包括新片段）追加
+    if (!event.segmentId && event.isContinuation) {
+      return [{ type: 'replaceContinuation', item }];
+    }
+    return [{ type: 'append', item }];
+  };
+
+  initialItems.forEach(appendItem);
+  snapshot = { version: 0, count: ids.length, statistics };
+
+  return {
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+    getItems: () => {
+      if (!itemsCache) {
+        itemsCache = ids.map(id => byId.get(id)!);
+      }
+      return itemsCache;
+    },
+    getItem: (id: string) => byId.get(id),
+    dispatch: (action: TranscriptAction) => {
+      if (reduce(action)) {
+        notify();
+      }
+    },
+    applyEvent: (event: TranscriptEvent) => {
+      // 同一事件产生的多个动作只通知一次
+      const changed = actionsForEvent(event).map(reduce).some(Boolean);
+      if (changed) {
+        notify();
+      }
+    }
+  };
+}
+
+// 当前会话的转写条目存储，由页面提供
+export const TranscriptStoreContext = createContext<TranscriptStore | null>(null);
+
+/**
+ * 订阅转写条目存储，存储变化时重新渲染
+ */
+export function useTranscriptStore(store: TranscriptStore): TranscriptSnapshot {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
@@ -0,0 +1,53 @@
+/**
+ * 转写相关的共享类型
+ *
+ * 供转写显示组件、会话存储和导出模块共同使用。
+ */
+
+import { SessionSummary } from './summaryService';
+
+export interface TranscriptionItem {
+  id: string;         // 唯一ID
+  text: string;
+  refinedText?: string;
+  translation?: string;      // 主翻译（第一个目标语言）
+  translations?: Record<string, string>; // 各目标语言的翻译，语言代码 -> 译文（见translations.ts）
+  timestamp: Date;
+  contextEnhanced?: boolean;
+  isKeywordMatch?: boolean;  // 是否匹配关键词
+  isContinuation?: boolean;  // 是否是连续文本
+  continuationReason?: string; // 连续原因
+  matchedKeywords?: string[];
+  matchReason?: string;
+  speaker?: string;          // 说话人ID（见speakers.ts）
+  segmentId?: string;        // 服务器片段ID，同一片段的结果原地更新
+  isPartial?: boolean;       // 是否为尚未确定的中间结果
+  audioStart?: number;       // 在会话录音中的起止位置（秒）
+  audioEnd?: number;
+  edits?: TranscriptEdits;   // 人工编辑后的文本，原始识别结果保留在text等字段中
+}
+
+// 可以人工编辑的文本字段
+export type EditableField = 'text' | 'refinedText' | 'translation';
+
+// 各字段人工编辑后的文本
+export type TranscriptEdits = Partial<Record<EditableField, string>>;
+
+// 转写列表的显示模式：原始文本、优化文本或翻译
+export type ShowMode = 'original' | 'refined' | 'translation';
+
+// 说话人ID -> 用户设置的显示名称
+export type SpeakerNames = Record<string, string>;
+
+// 带更新时间的会话总结
+export interface SessionSummaryRecord extends SessionSummary {
+  updatedAt: Date;     // 更新时间
+}
+
+// 录音会话的配置
+export interface SessionConfig {
+  language: string;
+  model: string;
+  targetLanguages: string[];   // 翻译目标语言，第一个为主翻译
+  keywords: string[];
+}
@@ -0,0 +1,84 @@
+/**
+ * 多语言翻译
+ *
+ * 会话可以同时翻译为多个目标语言。第一个目标语言为主翻译，保存在条目的translation字段中，可以人工编辑；
+ * 各目标语言的翻译（通常也包括主翻译）按语言代码保存在条目的translations字段中。
+ * 查看其他语言时把条目投影为该语言的翻译，显示、搜索和导出直接使用投影后的条目。
+ */
+
+import { TranscriptionItem } from './transcriptionTypes';
+
+// 语言代码 -> 显示名称
+export const LANGUAGE_LABELS: Record<string, string> = {
+  zh: '中文',
+  en: '英文',
+  ja: '日文',
+  ko: '韩文',
+  fr: '法语',
+  de: '德语',
+  ru: '俄语'
+};
+
+export const DEFAULT_TARGET_LANGUAGES: string[] = ['en'];
+
+export function getLanguageLabel(language: string): string {
+  return LANGUAGE_LABELS[language] || language;
+}
+
+/**
+ * 读取保存的目标语言列表
+ *
+ * 旧版本的会话配置只有单个targetLanguage，转换为只含一个语言的列表。
+ */
+export function normalizeTargetLanguages(targetLanguages: unknown, legacyTargetLanguage?: unknown): string[] {
+  if (Array.isArray(targetLanguages)) {
+    const languages = targetLanguages.filter((language): language is string => typeof language === 'string' && !!language);
+    if (languages.length > 0) return languages;
+  }
+  if (typeof legacyTargetLanguage === 'string' && legacyTargetLanguage) {
+    return [legacyTargetLanguage];
+  }
+  return DEFAULT_TARGET_LANGUAGES;
+}
+
+/**
+ * 合并同一片段先后到达的各语言翻译，新到达的覆盖旧的
+ */
+export function mergeTranslations(
+  existing?: Record<string, string>,
+  incoming?: Record<string, string>
+): Record<string, string> | undefined {
+  if (!incoming) return existing;
+  if (!existing) return incoming;
+  return { ...existing, ...incoming };
+}
+
+/**
+ * 补全主翻译
+ *
+ * 服务器可能只发送translations而不单独发送translation，这时用第一个目标语言的翻译作为主翻译，
+ * 否则默认视图和导出中的翻译为空。
+ */
+export function fillPrimaryTranslation<T extends { translation?: string; translations?: Record<string, string> }>(
+  value: T,
+  targetLanguages: string[]
+): T {
+  if (value.translation !== undefined || !value.translations) return value;
+  const primary = value.translations[targetLanguages[0]];
+  return primary === undefined ? value : { ...value, translation: primary };
+}
+
+/**
+ * 把条目投影为指定语言的翻译
+ *
+ * translation替换为该语言的翻译（没有时为空）；人工编辑只针对主翻译，投影后不再带翻译的编辑。
+ */
+export function selectTranslation(item: TranscriptionItem, language: string): TranscriptionItem {
+  let edits = item.edits;
+  if (edits?.translation !== undefined) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { translation, ...rest } = edits;
+    edits = Object.keys(rest).length > 0 ? rest : undefined;
+  }
+  return { ...item, translation: item.translations?.[language], edits };
+}
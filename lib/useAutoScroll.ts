@@ -0,0 +1,74 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+// 距离底部不超过该像素数时视为位于底部
+const BOTTOM_THRESHOLD_PX = 40;
+
+interface AutoScrollOptions {
+  itemCount: number;   // 当前显示的条目数，用于统计未读的新内容
+  contentKey: unknown; // 内容变化的标识（中间结果原地更新时条目数不变，但内容会变长）
+  paused?: boolean;    // 暂停跟随（例如在搜索结果间跳转时）
+}
+
+/**
+ * 转写列表的智能自动滚动
+ *
+ * 位于底部时跟随新内容；用户向上滚动后暂停跟随，并统计期间新增的条目数，
+ * 用户回到底部（或调用jumpToLive）后恢复跟随。
+ *
+ * @returns isFollowing 是否正在跟随，newCount 暂停期间新增的条目数，
+ *          handleScroll 需绑定到滚动容器的onScroll，jumpToLive 回到最新内容
+ */
+export function useAutoScroll(
+  containerRef: RefObject<HTMLElement>,
+  { itemCount, contentKey, paused = false }: AutoScrollOptions
+) {
+  const [isFollowing, setIsFollowing] = useState<boolean>(true);
+  const [newCount, setNewCount] = useState<number>(0);
+  const followingRef = useRef<boolean>(true);
+  const lastCountRef = useRef<number>(itemCount);
+
+  const scrollToBottom = useCallback(() => {
+    const container = containerRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [containerRef]);
+
+  const setFollowing = useCallback((following: boolean) => {
+    followingRef.current = following;
+    setIsFollowing(following);
+    if (following) {
+      setNewCount(0);
+    }
+  }, []);
+
+  // 根据滚动位置判断是否跟随（程序滚动到底部同样会触发，结果一致）
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const distance = container.scrollHeight - container.scrollTop - container.clientHeight;
+    const atBottom = distance <= BOTTOM_THRESHOLD_PX;
+    if (atBottom !== followingRef.current) {
+      setFollowing(atBottom);
+    }
+  }, [containerRef, setFollowing]);
+
+  // 内容变化时：跟随则滚动到底部，否则累计新增条目数
+  useEffect(() => {
+    const added = itemCount - lastCountRef.current;
+    lastCountRef.current = itemCount;
+
+    if (followingRef.current && !paused) {
+      scrollToBottom();
+    } else if (added > 0) {
+      setNewCount(prev => prev + added);
+    }
+  }, [itemCount, contentKey, paused, scrollToBottom]);
+
+  const jumpToLive = useCallback(() => {
+    setFollowing(true);
+    scrollToBottom();
+  }, [setFollowing, scrollToBottom]);
+
+  return { isFollowing, newCount, handleScroll, jumpToLive };
+}
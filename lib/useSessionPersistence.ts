@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TranscriptionItem, SessionSummaryRecord, SessionConfig, SpeakerNames } from './transcriptionTypes';
+import { createSession, updateSession, saveSessionItems, saveSessionRecording } from './sessionStorage';
+import { TranscriptStore } from './transcriptStore';
+
+interface SessionPersistenceOptions {
+  isRecording: boolean;
+  store: TranscriptStore;
+  summary: SessionSummaryRecord | null;
+  config: SessionConfig;
+  speakerNames: SpeakerNames;
+  recording?: Blob | null;
+}
+
+// 浅比较两个字符串映射（各语言的翻译）
+const isSameRecord = (a?: Record<string, string>, b?: Record<string, string>): boolean => {
+  if (a === b) return true;
+  const aKeys = Object.keys(a || {});
+  const bKeys = Object.keys(b || {});
+  return aKeys.length === bKeys.length && aKeys.every(key => a?.[key] === b?.[key]);
+};
+
+// 比较两个条目的内容是否一致（未变化的条目通常是同一对象，直接返回）
+const isSameItem = (a: TranscriptionItem, b: TranscriptionItem): boolean => {
+  if (a === b) return true;
+  return (
+    a.id === b.id &&
+    a.text === b.text &&
+    a.refinedText === b.refinedText &&
+    a.translation === b.translation &&
+    isSameRecord(a.translations, b.translations) &&
+    a.timestamp.getTime() === b.timestamp.getTime() &&
+    a.isKeywordMatch === b.isKeywordMatch &&
+    a.isContinuation === b.isContinuation &&
+    a.continuationReason === b.continuationReason &&
+    a.segmentId === b.segmentId &&
+    a.matchReason === b.matchReason &&
+    a.speaker === b.speaker &&
+    a.isPartial === b.isPartial &&
+    a.audioStart === b.audioStart &&
+    a.audioEnd === b.audioEnd &&
+    JSON.stringify(a.edits || {}) === JSON.stringify(b.edits || {}) &&
+    (a.matchedKeywords || []).join('\u0000') === (b.matchedKeywords || []).join('\u0000')
+  );
+};
+
+/**
+ * 将当前录音会话增量写入IndexedDB
+ *
+ * 首次开始录音时创建会话记录，之后订阅转写条目存储，只写入新增、变化或被替换掉的条目，
+ * 并同步会话总结、配置、说话人名称和会话录音。订阅存储不会让调用方随每条转写结果重新渲染。
+ *
+ * @returns 当前会话ID，尚未创建时为null
+ */
+export function useSessionPersistence({
+  isRecording,
+  store,
+  summary,
+  config,
+  speakerNames,
+  recording
+}: SessionPersistenceOptions) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const creatingRef = useRef<boolean>(false);
+  // 已写入数据库的条目及其位置
+  const persistedRef = useRef<Map<string, { item: TranscriptionItem; order: number }>>(new Map());
+  // 串行化写入，避免并发事务互相覆盖会话元数据
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const enqueueWrite = useCallback((write: () => Promise<void>) => {
+    writeQueueRef.current = writeQueueRef.current
+      .then(write)
+      .catch(error => console.error('保存会话记录时出错:', error));
+  }, []);
+
+  // 首次开始录音时创建会话
+  useEffect(() => {
+    if (!isRecording || sessionId || creatingRef.current) return;
+
+    creatingRef.current = true;
+    createSession(configRef.current)
+      .then(session => setSessionId(session.id))
+      .catch(error => console.error('创建会话记录失败:', error))
+      .finally(() => {
+        creatingRef.current = false;
+      });
+  }, [isRecording, sessionId]);
+
+  // 增量保存条目：会话创建时保存一次已有条目，之后在存储变化时保存
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const persistItems = () => {
+      const items = store.getItems();
+      const persisted = persistedRef.current;
+      const currentIds = new Set(items.map(item => item.id));
+
+      const changedItems = items
+        .map((item, order) => ({ item, order }))
+        .filter(({ item, order }) => {
+          const previous = persisted.get(item.id);
+          return !previous || previous.order !== order || !isSameItem(previous.item, item);
+        });
+      const removedIds = Array.from(persisted.keys()).filter(id => !currentIds.has(id));
+
+      if (changedItems.length === 0 && removedIds.length === 0) return;
+
+      changedItems.forEach(entry => persisted.set(entry.item.id, entry));
+      removedIds.forEach(id => persisted.delete(id));
+
+      const preview = items.length > 0 ? items[0].text : '';
+      enqueueWrite(() => saveSessionItems(sessionId, changedItems, removedIds, items.length, preview));
+    };
+
+    persistItems();
+    return store.subscribe(persistItems);
+  }, [sessionId, store, enqueueWrite]);
+
+  // 同步会话总结
+  useEffect(() => {
+    if (!sessionId || !summary) return;
+    enqueueWrite(() => updateSession(sessionId, { summary }));
+  }, [sessionId, summary, enqueueWrite]);
+
+  // 同步说话人名称
+  useEffect(() => {
+    if (!sessionId) return;
+    enqueueWrite(() => updateSession(sessionId, { speakerNames }));
+  }, [sessionId, speakerNames, enqueueWrite]);
+
+  // 同步会话录音（每次停止录音后更新）
+  useEffect(() => {
+    if (!sessionId || !recording) return;
+    enqueueWrite(() => saveSessionRecording(sessionId, recording));
+  }, [sessionId, recording, enqueueWrite]);
+
+  // 同步配置和关键词
+  const { language, model, targetLanguages, keywords } = config;
+  useEffect(() => {
+    if (!sessionId) return;
+    enqueueWrite(() => updateSession(sessionId, {
+      config: { language, model, targetLanguages, keywords }
+    }));
+  }, [sessionId, language, model, targetLanguages, keywords, enqueueWrite]);
+
+  return sessionId;
+}
@@ -0,0 +1,169 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+interface VirtualListOptions {
+  keys: string[];          // 各行的唯一键（按显示顺序）
+  estimateSize: number;    // 尚未测量的行的估计高度（像素）
+  overscan?: number;       // 可见区域上下额外渲染的行数
+  resetKey?: unknown;      // 变化时丢弃已测量的高度（例如切换显示模式后行高整体改变）
+}
+
+// 需要渲染的一行
+export interface VirtualRow {
+  index: number;
+  key: string;
+}
+
+export type ScrollAlign = 'center' | 'nearest';
+
+// 找到第一个结束位置超过position的行（offsets[i]为第i行的起始位置，offsets[count]为总高度）
+function findRowAt(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offsets[mid + 1] <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * 窗口化列表：只渲染滚动容器可见区域内的行
+ *
+ * 行高不固定，渲染后通过ResizeObserver测量并按键缓存，未渲染的行使用估计高度；
+ * 可见区域之外用上下两个占位块撑开滚动高度。
+ * 由于不可见的行不在DOM中，跳转到某一行需要使用scrollToIndex按计算出的位置滚动。
+ *
+ * @returns rows 需要渲染的行，paddingTop/paddingBottom 上下占位高度，totalSize 列表总高度，
+ *          measureRef 需绑定到每一行的根元素（同时设置data-virtual-key），
+ *          handleScroll 需绑定到滚动容器的onScroll，scrollToIndex 滚动到指定行
+ */
+export function useVirtualList(
+  containerRef: RefObject<HTMLElement>,
+  { keys, estimateSize, overscan = 8, resetKey }: VirtualListOptions
+) {
+  const sizesRef = useRef<Map<string, number>>(new Map());
+  const [, setMeasureVersion] = useState<number>(0);
+  const [viewport, setViewport] = useState<{ scrollTop: number; height: number }>({ scrollTop: 0, height: 0 });
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const offsetsRef = useRef<number[]>([0]);
+
+  // 行的起始位置（前缀和），每次渲染重新计算，只涉及数字相加
+  const offsets: number[] = new Array(keys.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i] + (sizesRef.current.get(keys[i]) ?? estimateSize);
+  }
+  const totalSize = offsets[keys.length];
+  offsetsRef.current = offsets;
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewport(prev => (
+      prev.scrollTop === container.scrollTop && prev.height === container.clientHeight
+        ? prev
+        : { scrollTop: container.scrollTop, height: container.clientHeight }
+    ));
+  }, [containerRef]);
+
+  // 显示模式等变化导致行高整体改变时，丢弃旧的测量结果
+  useEffect(() => {
+    sizesRef.current = new Map();
+    setMeasureVersion(version => version + 1);
+  }, [resetKey]);
+
+  // 测量行高；已从DOM移除的行不更新（移除时会被报告为0高度）
+  useEffect(() => {
+    const observer = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        if (!element.isConnected) {
+          observer.unobserve(element);
+          return;
+        }
+        const key = element.dataset.virtualKey;
+        const height = element.getBoundingClientRect().height;
+        if (key && sizesRef.current.get(key) !== height) {
+          sizesRef.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) {
+        setMeasureVersion(version => version + 1);
+      }
+    });
+    observerRef.current = observer;
+
+    // 容器大小变化时更新可见区域
+    const container = containerRef.current;
+    const containerObserver = new ResizeObserver(updateViewport);
+    if (container) {
+      containerObserver.observe(container);
+    }
+    updateViewport();
+
+    return () => {
+      observer.disconnect();
+      containerObserver.disconnect();
+      observerRef.current = null;
+    };
+  }, [containerRef, updateViewport]);
+
+  const measureRef = useCallback((element: HTMLElement | null) => {
+    if (element) {
+      observerRef.current?.observe(element);
+    }
+  }, []);
+
+  // 可见区域内的行，加上前后overscan行
+  const rows: VirtualRow[] = [];
+  let paddingTop = 0;
+  let paddingBottom = 0;
+  if (keys.length > 0) {
+    // 尚未测量容器时至少渲染一屏估计数量的行
+    const height = viewport.height || estimateSize * overscan;
+    const first = Math.max(0, findRowAt(offsets, viewport.scrollTop) - overscan);
+    const last = Math.min(keys.length - 1, findRowAt(offsets, viewport.scrollTop + height) + overscan);
+    for (let index = first; index <= last; index++) {
+      rows.push({ index, key: keys[index] });
+    }
+    paddingTop = offsets[first];
+    paddingBottom = totalSize - offsets[last + 1];
+  }
+
+  const scrollToIndex = useCallback((index: number, align: ScrollAlign = 'nearest') => {
+    const container = containerRef.current;
+    const offsets = offsetsRef.current;
+    if (!container || index < 0 || index >= offsets.length - 1) return;
+
+    const start = offsets[index];
+    const end = offsets[index + 1];
+    const height = container.clientHeight;
+    let top: number | null = null;
+    if (align === 'center') {
+      top = start - (height - (end - start)) / 2;
+    } else if (start < container.scrollTop) {
+      top = start;
+    } else if (end > container.scrollTop + height) {
+      top = end - height;
+    }
+    if (top !== null) {
+      container.scrollTo({ top: Math.max(0, top), behavior: 'smooth' });
+    }
+  }, [containerRef]);
+
+  return {
+    rows,
+    paddingTop,
+    paddingBottom,
+    totalSize,
+    measureRef,
+    handleScroll: updateViewport,
+    scrollToIndex
+  };
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  VAD_FRAME_SIZE,
+  VAD_THRESHOLDS,
+  VadLevel,
+  computeFrameFeatures,
+  createVadState,
+  createVoiceActivityDetector,
+  detectVoiceActivity,
+  stepVad
+} from './vad';
+
+const SAMPLE_RATE = 16000;
+const LEVELS: Exclude<VadLevel, 'off'>[] = ['low', 'medium', 'high'];
+
+// 可复现的伪随机数（-1到1）
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 0x80000000 - 1;
+};
+
+type Signal = (index: number, random: () => number) => number;
+
+const silence: Signal = (_index, random) => 0.0005 * random();
+const whiteNoise = (amplitude: number): Signal => (_index, random) => amplitude * random();
+const tone = (frequency: number, amplitude: number): Signal =>
+  index => amplitude * Math.sin(2 * Math.PI * frequency * index / SAMPLE_RATE);
+// 基频320Hz、前10个谐波按1/k衰减的浊音，全部落在语音频段内
+const voiced: Signal = index => {
+  let value = 0;
+  for (let k = 1; k <= 10; k++) {
+    value += Math.sin(2 * Math.PI * 320 * k * index / SAMPLE_RATE) / k;
+  }
+  return 0.15 * value;
+};
+const mix = (...signals: Signal[]): Signal => (index, random) =>
+  signals.reduce((sum, signal) => sum + signal(index, random), 0);
+
+// 按帧数拼接各段信号，生成Int16 PCM
+const synthesize = (segments: [Signal, number][]): Int16Array => {
+  const total = segments.reduce((sum, [, frames]) => sum + frames * VAD_FRAME_SIZE, 0);
+  const samples = new Int16Array(total);
+  const random = createRandom(1);
+  let index = 0;
+  segments.forEach(([signal, frames]) => {
+    for (let i = 0; i < frames * VAD_FRAME_SIZE; i++, index++) {
+      samples[index] = Math.max(-32768, Math.min(32767, Math.round(signal(index, random) * 32767)));
+    }
+  });
+  return samples;
+};
+
+// 判为语音的帧序号
+const speechFrames = (samples: Int16Array, level: VadLevel) =>
+  detectVoiceActivity(samples, SAMPLE_RATE, level)
+    .map((frame, index) => (frame.speech ? index : -1))
+    .filter(index => index >= 0);
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe('detectVoiceActivity', () => {
+  // 静音20帧 -> 语音30帧（序号20-49） -> 静音30帧
+  describe.each([
+    ['纯音', tone(1000, 0.3)],
+    ['浊音谐波', voiced]
+  ])('静音-%s-静音', (_name, speech) => {
+    const samples = synthesize([[silence, 20], [speech, 30], [silence, 30]]);
+
+    it.each(LEVELS)('%s：按onset、hangover和pre-roll帧数确定语音范围', level => {
+      const { onsetFrames, hangoverFrames, preRollFrames } = VAD_THRESHOLDS[level];
+      const results = detectVoiceActivity(samples, SAMPLE_RATE, level);
+
+      expect(results).toHaveLength(80);
+      expect(results.map((frame, index) => (frame.rawSpeech ? index : -1)).filter(index => index >= 0))
+        .toEqual(range(20, 49));
+      // 第onsetFrames个连续语音帧开始，向前补preRollFrames帧，语音结束后保持hangoverFrames帧
+      const onset = 20 + onsetFrames - 1;
+      expect(speechFrames(samples, level)).toEqual(range(onset - preRollFrames, 49 + hangoverFrames));
+    });
+
+    it('off：所有帧都判为语音', () => {
+      expect(speechFrames(samples, 'off')).toEqual(range(0, 79));
+    });
+  });
+
+  it.each(LEVELS)('%s：语音中短暂的单个语音帧也会刷新hangover', level => {
+    const { hangoverFrames } = VAD_THRESHOLDS[level];
+    // 语音20-29，停顿4帧（短于hangover），第34帧为单个语音帧
+    const samples = synthesize([[silence, 20], [voiced, 10], [silence, 4], [voiced, 1], [silence, 20]]);
+    const frames = speechFrames(samples, level);
+    expect(frames[frames.length - 1]).toBe(34 + hangoverFrames);
+    expect(frames).toEqual(range(frames[0], 34 + hangoverFrames));
+  });
+
+  it.each(LEVELS)('%s：白噪声不判为语音', level => {
+    const samples = synthesize([[silence, 10], [whiteNoise(0.3), 60], [silence, 10]]);
+    expect(speechFrames(samples, level)).toEqual([]);
+  });
+
+  it('off：白噪声也判为语音', () => {
+    const samples = synthesize([[whiteNoise(0.3), 10]]);
+    expect(speechFrames(samples, 'off')).toEqual(range(0, 9));
+  });
+});
+
+describe('stepVad噪声底', () => {
+  it.each(LEVELS)('%s：噪声底跟随稳定的噪声，噪声上的语音仍能检出', level => {
+    const noise = whiteNoise(0.05);
+    const samples = synthesize([[silence, 10], [noise, 100], [mix(noise, voiced), 20], [noise, 30]]);
+    const thresholds = VAD_THRESHOLDS[level];
+    const frameAt = (index: number) =>
+      computeFrameFeatures(samples.subarray(index * VAD_FRAME_SIZE, (index + 1) * VAD_FRAME_SIZE), SAMPLE_RATE);
+
+    let state = createVadState();
+    const raw: boolean[] = [];
+    for (let i = 0; i < samples.length / VAD_FRAME_SIZE; i++) {
+      const step = stepVad(state, frameAt(i), thresholds);
+      state = step.state;
+      raw.push(step.rawSpeech);
+      if (i === 109) {
+        // 噪声持续100帧后，噪声底接近噪声能量
+        expect(Math.abs(state.noiseFloorDb! - frameAt(109).energyDb)).toBeLessThan(1);
+      }
+    }
+
+    expect(raw.slice(0, 110).some(Boolean)).toBe(false);
+    expect(raw.slice(110, 130).every(Boolean)).toBe(true);
+    expect(raw.slice(130).some(Boolean)).toBe(false);
+    expect(state.inSpeech).toBe(false);
+  });
+});
+
+describe('createVoiceActivityDetector', () => {
+  const samples = synthesize([[silence, 20], [voiced, 30], [silence, 30]]);
+
+  // 按给定的块长循环切分输入，返回每块的结果及块内完整帧数
+  const runChunks = (level: VadLevel, chunkSizes: number[]) => {
+    const detector = createVoiceActivityDetector(SAMPLE_RATE, level);
+    const results = [];
+    let pending = 0;
+    for (let offset = 0, i = 0; offset < samples.length; i++) {
+      const size = Math.min(chunkSizes[i % chunkSizes.length], samples.length - offset);
+      const frames = Math.floor((pending + size) / VAD_FRAME_SIZE);
+      pending = (pending + size) % VAD_FRAME_SIZE;
+      results.push({ ...detector.process(samples.subarray(offset, offset + size)), frames });
+      offset += size;
+    }
+    return results;
+  };
+
+  it.each(LEVELS)('%s：块长不是帧长整数倍时，语音开始和结束各报告一次，语音帧数与整段检测一致', level => {
+    const { onsetFrames, hangoverFrames } = VAD_THRESHOLDS[level];
+    const results = runChunks(level, [4000, 1000, 7000, 300]);
+
+    expect(results.filter(result => result.speechStart)).toHaveLength(1);
+    expect(results.filter(result => result.speechEnd)).toHaveLength(1);
+    expect(results.findIndex(result => result.speechStart))
+      .toBeLessThan(results.findIndex(result => result.speechEnd));
+
+    // 流式检测没有pre-roll：从第onsetFrames个语音帧到hangover结束
+    const total = results.reduce((sum, result) => sum + Math.round(result.speechRatio * result.frames), 0);
+    expect(total).toBe((49 + hangoverFrames) - (20 + onsetFrames - 1) + 1);
+  });
+
+  it.each(LEVELS)('%s：逐帧输入时在onset帧报告开始，hangover结束后报告结束', level => {
+    const { onsetFrames, hangoverFrames } = VAD_THRESHOLDS[level];
+    const results = runChunks(level, [VAD_FRAME_SIZE]);
+
+    expect(results.findIndex(result => result.speechStart)).toBe(20 + onsetFrames - 1);
+    expect(results.findIndex(result => result.speechEnd)).toBe(50 + hangoverFrames);
+    expect(results.filter(result => result.isSpeech)).toHaveLength(30 - onsetFrames + 1 + hangoverFrames);
+  });
+
+  it('reset后重新估计噪声底', () => {
+    const detector = createVoiceActivityDetector(SAMPLE_RATE, 'medium');
+    detector.process(samples.subarray(0, 40 * VAD_FRAME_SIZE));
+    detector.reset();
+    // reset后第一帧作为噪声底，持续的语音不会被判为语音
+    const result = detector.process(samples.subarray(25 * VAD_FRAME_SIZE, 45 * VAD_FRAME_SIZE));
+    expect(result.isSpeech).toBe(false);
+  });
+
+  it('off：每块都判为语音', () => {
+    const results = runChunks('off', [4000]);
+    expect(results.every(result => result.isSpeech && result.speechRatio === 1)).toBe(true);
+    expect(results.some(result => result.speechStart || result.speechEnd)).toBe(false);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * 语音活动检测（VAD）
+ *
+ * 对16kHz单声道PCM按512采样（32ms）分帧，加汉宁窗后做FFT，提取以下频谱特征：
+ * - 帧能量（dBFS），与自适应噪声底比较得到信噪比
+ * - 语音频段（300-3400Hz）能量占比
+ * - 语音频段的频谱平坦度（白噪声接近1，浊音明显小于1）
+ *
+ * 逐帧判定后再做平滑：连续若干帧判为语音才算开始（onset），
+ * 语音结束后继续保持若干帧（hangover），离线检测时还会把开始前的若干帧标为语音（pre-roll），
+ * 避免吞掉词首和词尾。
+ *
+ * 所有函数都是纯函数或只依赖自身状态，不访问浏览器API，可在Worker中运行，也可直接用合成音频测试。
+ */
+
+export type VadLevel = 'off' | 'low' | 'medium' | 'high';
+
+export const VAD_FRAME_SIZE = 512;
+
+// 各灵敏度对应的判定参数
+export interface VadThresholds {
+  minSnrDb: number;          // 高于噪声底的最小dB数
+  minEnergyDb: number;       // 绝对能量下限（dBFS）
+  minBandRatio: number;      // 语音频段能量占比下限
+  maxFlatness: number;       // 语音频段平坦度上限
+  onsetFrames: number;       // 连续多少帧语音才判定开始
+  hangoverFrames: number;    // 语音结束后保持的帧数
+  preRollFrames: number;     // 离线检测时向前补充的帧数
+}
+
+export const VAD_THRESHOLDS: Record<Exclude<VadLevel, 'off'>, VadThresholds> = {
+  low: {
+    minSnrDb: 6,
+    minEnergyDb: -60,
+    minBandRatio: 0.35,
+    maxFlatness: 0.45,
+    onsetFrames: 1,
+    hangoverFrames: 12,
+    preRollFrames: 6
+  },
+  medium: {
+    minSnrDb: 9,
+    minEnergyDb: -55,
+    minBandRatio: 0.45,
+    maxFlatness: 0.35,
+    onsetFrames: 2,
+    hangoverFrames: 9,
+    preRollFrames: 5
+  },
+  high: {
+    minSnrDb: 12,
+    minEnergyDb: -50,
+    minBandRatio: 0.55,
+    maxFlatness: 0.25,
+    onsetFrames: 3,
+    hangoverFrames: 6,
+    preRollFrames: 4
+  }
+};
+
+// 单帧频谱特征
+export interface VadFrameFeatures {
+  energyDb: number;
+  bandRatio: number;
+  flatness: number;
+}
+
+// 单帧检测结果
+export interface VadFrameResult extends VadFrameFeatures {
+  start: number;        // 帧起点（采样序号）
+  rawSpeech: boolean;   // 平滑前的判定
+  speech: boolean;      // 平滑后的判定
+}
+
+const SPEECH_BAND_LOW_HZ = 300;
+const SPEECH_BAND_HIGH_HZ = 3400;
+const EPSILON = 1e-10;
+
+// 噪声底跟踪：能量更低时立即下调；非语音帧较快跟随，语音帧极慢跟随（防止持续噪声被锁定为语音）
+const NOISE_FLOOR_ALPHA = 0.05;
+const NOISE_FLOOR_SPEECH_ALPHA = 0.002;
+
+// ---- FFT ----
+
+const hannWindows = new Map<number, Float64Array>();
+
+function getHannWindow(size: number): Float64Array {
+  let window = hannWindows.get(size);
+  if (!window) {
+    window = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+    }
+    hannWindows.set(size, window);
+  }
+  return window;
+}
+
+// 原地迭代基2 FFT，size必须是2的幂
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // 位反转重排
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let j = 0; j < len / 2; j++) {
+        const aRe = re[i + j];
+        const aIm = im[i + j];
+        const bRe = re[i + j + len / 2] * curRe - im[i + j + len / 2] * curIm;
+        const bIm = re[i + j + len / 2] * curIm + im[i + j + len / 2] * curRe;
+        re[i + j] = aRe + bRe;
+        im[i + j] = aIm + bIm;
+        re[i + j + len / 2] = aRe - bRe;
+        im[i + j + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * 计算一帧音频的频谱特征
+ *
+ * @param frame Int16或归一化Float32采样，长度必须是2的幂
+ * @param sampleRate 采样率
+ */
+export function computeFrameFeatures(frame: ArrayLike<number>, sampleRate: number, isInt16: boolean = true): VadFrameFeatures {
+  const size = frame.length;
+  const scale = isInt16 ? 1 / 32768 : 1;
+  const window = getHannWindow(size);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+
+  let sumSquares = 0;
+  for (let i = 0; i < size; i++) {
+    const sample = frame[i] * scale;
+    sumSquares += sample * sample;
+    re[i] = sample * window[i];
+  }
+  const energyDb = 10 * Math.log10(sumSquares / size + EPSILON);
+
+  fft(re, im);
+
+  const binHz = sampleRate / size;
+  const lowBin = Math.max(1, Math.ceil(SPEECH_BAND_LOW_HZ / binHz));
+  const highBin = Math.min(size / 2, Math.floor(SPEECH_BAND_HIGH_HZ / binHz));
+
+  let totalPower = EPSILON;
+  let bandPower = 0;
+  let logSum = 0;
+  // 跳过直流分量
+  for (let k = 1; k <= size / 2; k++) {
+    const power = re[k] * re[k] + im[k] * im[k];
+    totalPower += power;
+    if (k >= lowBin && k <= highBin) {
+      bandPower += power;
+      logSum += Math.log(power + EPSILON);
+    }
+  }
+
+  const bandBins = highBin - lowBin + 1;
+  const geometricMean = Math.exp(logSum / bandBins);
+  const arithmeticMean = bandPower / bandBins + EPSILON;
+
+  return {
+    energyDb,
+    bandRatio: bandPower / totalPower,
+    flatness: Math.min(1, geometricMean / arithmeticMean)
+  };
+}
+
+/**
+ * 根据特征与当前噪声底判定单帧是否为语音
+ */
+export function classifyFrame(features: VadFrameFeatures, noiseFloorDb: number | null, thresholds: VadThresholds): boolean {
+  if (noiseFloorDb === null) {
+    return false;
+  }
+  return features.energyDb >= thresholds.minEnergyDb
+    && features.energyDb - noiseFloorDb >= thresholds.minSnrDb
+    && features.bandRatio >= thresholds.minBandRatio
+    && features.flatness <= thresholds.maxFlatness;
+}
+
+/**
+ * 更新噪声底估计
+ */
+export function updateNoiseFloor(noiseFloorDb: number | null, features: VadFrameFeatures, isSpeech: boolean): number {
+  if (noiseFloorDb === null || features.energyDb < noiseFloorDb) {
+    return features.energyDb;
+  }
+  const alpha = isSpeech ? NOISE_FLOOR_SPEECH_ALPHA : NOISE_FLOOR_ALPHA;
+  return noiseFloorDb + (features.energyDb - noiseFloorDb) * alpha;
+}
+
+// ---- 流式检测 ----
+
+export interface VadState {
+  noiseFloorDb: number | null;   // 尚未收到音频时为null，以第一帧能量作为初始噪声底
+  speechRun: number;       // 连续语音帧数
+  hangoverLeft: number;    // 剩余保持帧数
+  inSpeech: boolean;
+}
+
+export function createVadState(): VadState {
+  return {
+    noiseFloorDb: null,
+    speechRun: 0,
+    hangoverLeft: 0,
+    inSpeech: false
+  };
+}
+
+/**
+ * 处理一帧并返回新状态（不修改传入的状态）
+ */
+export function stepVad(
+  state: VadState,
+  features: VadFrameFeatures,
+  thresholds: VadThresholds
+): { state: VadState; rawSpeech: boolean } {
+  const rawSpeech = classifyFrame(features, state.noiseFloorDb, thresholds);
+  const noiseFloorDb = updateNoiseFloor(state.noiseFloorDb, features, rawSpeech);
+  const speechRun = rawSpeech ? state.speechRun + 1 : 0;
+
+  let inSpeech = state.inSpeech;
+  let hangoverLeft = state.hangoverLeft;
+  // 语音中的任何语音帧都刷新保持帧数；尚未开始时需要连续onsetFrames帧
+  if (rawSpeech && (inSpeech || speechRun >= thresholds.onsetFrames)) {
+    inSpeech = true;
+    hangoverLeft = thresholds.hangoverFrames;
+  } else if (inSpeech && !rawSpeech) {
+    if (hangoverLeft > 0) {
+      hangoverLeft--;
+    } else {
+      inSpeech = false;
+    }
+  }
+
+  return {
+    state: { noiseFloorDb, speechRun, hangoverLeft, inSpeech },
+    rawSpeech
+  };
+}
+
+/**
+ * 对整段音频做语音活动检测
+ *
+ * @param samples 16kHz（或sampleRate指定的）Int16 PCM
+ * @param level 灵敏度；'off'时所有帧都判为语音
+ * @returns 每帧的检测结果（不足一帧的尾部会被忽略）
+ */
+export function detectVoiceActivity(
+  samples: Int16Array,
+  sampleRate: number,
+  level: VadLevel
+): VadFrameResult[] {
+  const results: VadFrameResult[] = [];
+  let state = createVadState();
+
+  for (let start = 0; start + VAD_FRAME_SIZE <= samples.length; start += VAD_FRAME_SIZE) {
+    const features = computeFrameFeatures(samples.subarray(start, start + VAD_FRAME_SIZE), sampleRate);
+    if (level === 'off') {
+      results.push({ ...features, start, rawSpeech: true, speech: true });
+      continue;
+    }
+    const step = stepVad(state, features, VAD_THRESHOLDS[level]);
+    state = step.state;
+    results.push({ ...features, start, rawSpeech: step.rawSpeech, speech: state.inSpeech });
+  }
+
+  if (level !== 'off') {
+    // 把每段语音开始前的若干帧也标为语音，以免词首被截断
+    const { preRollFrames } = VAD_THRESHOLDS[level];
+    for (let i = 1; i < results.length; i++) {
+      if (results[i].speech && !results[i - 1].speech) {
+        for (let j = Math.max(0, i - preRollFrames); j < i; j++) {
+          results[j].speech = true;
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+// 一个音频块的检测结果
+export interface VadChunkResult {
+  isSpeech: boolean;      // 块内是否有语音（含hangover）
+  speechStart: boolean;   // 语音是否在本块内开始
+  speechEnd: boolean;     // 语音是否在本块内结束
+  speechRatio: number;    // 块内语音帧占比
+}
+
+export interface VoiceActivityDetector {
+  process: (samples: Int16Array) => VadChunkResult;
+  setLevel: (level: VadLevel) => void;
+  reset: () => void;
+}
+
+/**
+ * 创建流式语音活动检测器
+ *
+ * 块长度不必是帧长的整数倍，不足一帧的尾部会留到下一块。
+ */
+export function createVoiceActivityDetector(sampleRate: number, initialLevel: VadLevel): VoiceActivityDetector {
+  let level = initialLevel;
+  let state = createVadState();
+  let pending = new Int16Array(0);
+
+  return {
+    process: (samples: Int16Array): VadChunkResult => {
+      const wasSpeech = state.inSpeech;
+
+      if (level === 'off') {
+        return { isSpeech: true, speechStart: false, speechEnd: false, speechRatio: 1 };
+      }
+
+      const input = new Int16Array(pending.length + samples.length);
+      input.set(pending);
+      input.set(samples, pending.length);
+
+      const thresholds = VAD_THRESHOLDS[level];
+      let frames = 0;
+      let speechFrames = 0;
+      let anySpeech = false;
+      let offset = 0;
+      for (; offset + VAD_FRAME_SIZE <= input.length; offset += VAD_FRAME_SIZE) {
+        const features = computeFrameFeatures(input.subarray(offset, offset + VAD_FRAME_SIZE), sampleRate);
+        state = stepVad(state, features, thresholds).state;
+        frames++;
+        if (state.inSpeech) {
+          speechFrames++;
+          anySpeech = true;
+        }
+      }
+      pending = input.slice(offset);
+
+      return {
+        isSpeech: anySpeech,
+        speechStart: !wasSpeech && anySpeech,
+        speechEnd: (wasSpeech || anySpeech) && !state.inSpeech,
+        speechRatio: frames > 0 ? speechFrames / frames : 0
+      };
+    },
+    setLevel: (nextLevel: VadLevel) => {
+      level = nextLevel;
+    },
+    reset: () => {
+      state = createVadState();
+      pending = new Int16Array(0);
+    }
+  };
+}
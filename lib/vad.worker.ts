@@ -0,0 +1,55 @@
+/**
+ * 语音活动检测Worker
+ *
+ * 通过MessageChannel直接接收PCM编码worklet产生的音频块，运行频谱VAD，
+ * 把检测结果附加到音频块上再转发给主线程，主线程不需要遍历采样。
+ */
+
+import { createVoiceActivityDetector, VadChunkResult, VadLevel, VoiceActivityDetector } from './vad';
+
+// 主线程 -> Worker
+export type VadWorkerRequest =
+  | { type: 'init'; port: MessagePort; sampleRate: number; level: VadLevel }
+  | { type: 'configure'; level: VadLevel };
+
+// worklet -> Worker
+interface EncodedChunkMessage {
+  type: 'chunk';
+  buffer: ArrayBuffer;
+  peak: number;
+  rms: number;
+  durationMs: number;
+}
+
+// Worker -> 主线程
+export type VadWorkerResponse =
+  | (EncodedChunkMessage & { vad: VadChunkResult })
+  | { type: 'flushed' };
+
+const ctx = self as unknown as Worker;
+
+let detector: VoiceActivityDetector | null = null;
+
+ctx.onmessage = (event: MessageEvent<VadWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    const activeDetector = createVoiceActivityDetector(message.sampleRate, message.level);
+    detector = activeDetector;
+
+    message.port.onmessage = (portEvent: MessageEvent<EncodedChunkMessage | { type: 'flushed' }>) => {
+      const data = portEvent.data;
+      if (data.type === 'chunk') {
+        const response: VadWorkerResponse = {
+          ...data,
+          vad: activeDetector.process(new Int16Array(data.buffer))
+        };
+        ctx.postMessage(response, [data.buffer]);
+      } else {
+        // flushed与音频块同序转发
+        ctx.postMessage(data);
+      }
+    };
+  } else if (message.type === 'configure') {
+    detector?.setLevel(message.level);
+  }
+};
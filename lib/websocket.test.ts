@@ -0,0 +1,354 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import audioTranscriptionService, { BackpressureState } from './websocket';
+import { AUDIO_FRAME_FLAGS } from './audioFraming';
+import { PCM_BYTES_PER_SECOND } from './audioResendQueue';
+import { OpusEncoder, createOpusEncoder } from './opusEncoder';
+
+vi.mock('./opusEncoder', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./opusEncoder')>(),
+  createOpusEncoder: vi.fn()
+}));
+
+// 测试控制bufferedAmount的WebSocket
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readyState = FakeWebSocket.CONNECTING;
+  bufferedAmount = 0;
+  binaryType = 'blob';
+  sent: (string | ArrayBuffer)[] = [];
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(public url: string) {
+    sockets.push(this);
+  }
+
+  send(data: string | ArrayBuffer) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  // 连接意外断开
+  drop() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code: 1006, reason: '', wasClean: false } as CloseEvent);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.(new Event('open'));
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) } as MessageEvent);
+  }
+
+  // 已发送的音频帧：序号和标志
+  sentFrames() {
+    return this.sent
+      .filter((data): data is ArrayBuffer => data instanceof ArrayBuffer)
+      .map(frame => {
+        const view = new DataView(frame);
+        return { sequence: view.getUint32(4, true), flags: view.getUint8(2) };
+      });
+  }
+}
+
+let sockets: FakeWebSocket[] = [];
+
+const SEND_BUFFER_HIGH_WATERMARK = 256 * 1024;
+const DRAIN_CHECK_INTERVAL_MS = 50;
+const ONE_SECOND = PCM_BYTES_PER_SECOND;
+
+// 建立连接并完成协商带帧头格式的配置握手
+const connect = async (options: Parameters<typeof audioTranscriptionService.connect>[0] = {}) => {
+  const connecting = audioTranscriptionService.connect(options);
+  const ws = sockets[sockets.length - 1];
+  ws.open();
+  await vi.advanceTimersByTimeAsync(600);
+  ws.receive({ event: 'config_received', audio_framing: 'framed' });
+  await connecting;
+  return ws;
+};
+
+describe('AudioTranscriptionService发送队列', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    sockets = [];
+  });
+
+  afterEach(() => {
+    audioTranscriptionService.disconnect();
+    audioTranscriptionService.setBackpressurePolicy('drop_oldest');
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('发送缓冲区积压超过高水位时暂停发送，降到低水位以下后按顺序补发', async () => {
+    const ws = await connect();
+    ws.bufferedAmount = SEND_BUFFER_HIGH_WATERMARK + 1;
+
+    for (let i = 0; i < 3; i++) {
+      expect(await audioTranscriptionService.sendAudioData(new ArrayBuffer(3200))).toBe(true);
+    }
+    expect(ws.sentFrames()).toEqual([]);
+
+    // 仍高于低水位时继续等待
+    ws.bufferedAmount = 100 * 1024;
+    await vi.advanceTimersByTimeAsync(DRAIN_CHECK_INTERVAL_MS * 2);
+    expect(ws.sentFrames()).toEqual([]);
+
+    ws.bufferedAmount = 0;
+    await vi.advanceTimersByTimeAsync(DRAIN_CHECK_INTERVAL_MS);
+    expect(ws.sentFrames().map(frame => frame.sequence)).toEqual([0, 1, 2]);
+  });
+
+  it('积压期间队列超过上限时丢弃最早的音频，补发的第一帧标记为不连续', async () => {
+    const states: BackpressureState[] = [];
+    const ws = await connect({ onBackpressureChange: state => states.push(state) });
+    ws.bufferedAmount = SEND_BUFFER_HIGH_WATERMARK + 1;
+
+    // 上限为60秒
+    for (let i = 0; i < 61; i++) {
+      await audioTranscriptionService.sendAudioData(new ArrayBuffer(ONE_SECOND));
+    }
+    expect(states).toHaveLength(1);
+    expect(states[0]).toMatchObject({ full: true, policy: 'drop_oldest', droppedFrames: 1 });
+
+    ws.bufferedAmount = 0;
+    await vi.advanceTimersByTimeAsync(DRAIN_CHECK_INTERVAL_MS);
+    const frames = ws.sentFrames();
+    expect(frames).toHaveLength(60);
+    expect(frames[0].sequence).toBe(1);
+    expect(frames[0].flags & AUDIO_FRAME_FLAGS.discontinuity).toBeTruthy();
+    expect(frames[1].flags & AUDIO_FRAME_FLAGS.discontinuity).toBeFalsy();
+    expect(states[states.length - 1].full).toBe(false);
+  });
+
+  it('pause_capture：队列已满时拒绝新的音频，积压消退后重新接受', async () => {
+    audioTranscriptionService.setBackpressurePolicy('pause_capture');
+    const ws = await connect();
+    ws.bufferedAmount = SEND_BUFFER_HIGH_WATERMARK + 1;
+
+    for (let i = 0; i < 61; i++) {
+      expect(await audioTranscriptionService.sendAudioData(new ArrayBuffer(ONE_SECOND))).toBe(true);
+    }
+    expect(await audioTranscriptionService.sendAudioData(new ArrayBuffer(ONE_SECOND))).toBe(false);
+
+    ws.bufferedAmount = 0;
+    await vi.advanceTimersByTimeAsync(DRAIN_CHECK_INTERVAL_MS);
+    expect(ws.sentFrames()).toHaveLength(61);
+
+    expect(await audioTranscriptionService.sendAudioData(new ArrayBuffer(ONE_SECOND))).toBe(true);
+    const frames = ws.sentFrames();
+    expect(frames[frames.length - 1].sequence).toBe(61);
+    expect(frames[frames.length - 1].flags & AUDIO_FRAME_FLAGS.discontinuity).toBeTruthy();
+  });
+
+  it('pause_capture：队列已满时通知暂停采集，积压降到恢复值以下后通知恢复采集', async () => {
+    audioTranscriptionService.setBackpressurePolicy('pause_capture');
+    // 模拟采集链路：暂停期间不产生音频块
+    let capturing = true;
+    const pauses: boolean[] = [];
+    const ws = await connect({
+      onBackpressureChange: state => {
+        pauses.push(state.capturePaused);
+        capturing = !state.capturePaused;
+      }
+    });
+    const capture = async (seconds: number) => {
+      let captured = 0;
+      for (let i = 0; i < seconds; i++) {
+        if (!capturing) continue;
+        expect(await audioTranscriptionService.sendAudioData(new ArrayBuffer(ONE_SECOND))).toBe(true);
+        captured++;
+      }
+      return captured;
+    };
+    ws.bufferedAmount = SEND_BUFFER_HIGH_WATERMARK + 1;
+
+    // 第61秒使队列超过上限，之后采集停止，没有音频块被拒绝
+    expect(await capture(70)).toBe(61);
+    expect(pauses).toEqual([true]);
+    expect(audioTranscriptionService.isCapturePaused()).toBe(true);
+
+    // 发送缓冲区消退，队列一次发完，降到恢复值以下后恢复采集
+    ws.bufferedAmount = 0;
+    await vi.advanceTimersByTimeAsync(DRAIN_CHECK_INTERVAL_MS);
+    expect(pauses).toEqual([true, false]);
+    expect(audioTranscriptionService.isCapturePaused()).toBe(false);
+
+    expect(await capture(2)).toBe(2);
+    const frames = ws.sentFrames();
+    expect(frames.map(frame => frame.sequence)).toEqual(Array.from({ length: 63 }, (_, i) => i));
+    // 暂停前后的音频不连续
+    expect(frames[61].flags & AUDIO_FRAME_FLAGS.discontinuity).toBeTruthy();
+    expect(frames[62].flags & AUDIO_FRAME_FLAGS.discontinuity).toBeFalsy();
+  });
+
+  it('暂停采集期间改用其他背压策略时恢复采集', async () => {
+    audioTranscriptionService.setBackpressurePolicy('pause_capture');
+    const states: BackpressureState[] = [];
+    const ws = await connect({ onBackpressureChange: state => states.push(state) });
+    ws.bufferedAmount = SEND_BUFFER_HIGH_WATERMARK + 1;
+
+    for (let i = 0; i < 61; i++) {
+      await audioTranscriptionService.sendAudioData(new ArrayBuffer(ONE_SECOND));
+    }
+    expect(states[states.length - 1]).toMatchObject({ full: true, capturePaused: true });
+
+    audioTranscriptionService.setBackpressurePolicy('drop_oldest');
+    expect(states[states.length - 1]).toMatchObject({ full: true, policy: 'drop_oldest', capturePaused: false });
+    expect(audioTranscriptionService.isCapturePaused()).toBe(false);
+  });
+});
+
+describe('AudioTranscriptionService Opus上行', () => {
+  const OPUS_ENCODE_DELAY_MS = 10;
+  let encoders: { closed: boolean }[] = [];
+
+  // 每次编码需要一段时间，关闭后编码失败
+  const fakeEncoder = async (): Promise<OpusEncoder> => {
+    const state = { closed: false };
+    encoders.push(state);
+    return {
+      encode: async () => {
+        await new Promise(resolve => setTimeout(resolve, OPUS_ENCODE_DELAY_MS));
+        if (state.closed) throw new Error('Opus编码器已关闭');
+        return [new ArrayBuffer(40)];
+      },
+      setBitrate: async () => undefined,
+      close: () => { state.closed = true; }
+    };
+  };
+
+  const connectOpus = async () => {
+    const connecting = audioTranscriptionService.connect();
+    const ws = sockets[sockets.length - 1];
+    ws.open();
+    await vi.advanceTimersByTimeAsync(600);
+    ws.receive({ event: 'config_received', audio_framing: 'framed', audio_codec: 'opus' });
+    await connecting;
+    return ws;
+  };
+
+  // 断线后重连；resumed为服务器对恢复会话的确认（null表示不确认）
+  const reconnect = async (ws: FakeWebSocket, resumed: object | null) => {
+    ws.drop();
+    await vi.advanceTimersByTimeAsync(1000);
+    const next = sockets[sockets.length - 1];
+    next.open();
+    await vi.advanceTimersByTimeAsync(500);
+    if (resumed) {
+      next.receive({ event: 'resumed', ...resumed });
+    } else {
+      await vi.advanceTimersByTimeAsync(3000);
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    next.receive({ event: 'config_received', audio_framing: 'framed', audio_codec: 'opus' });
+    await vi.advanceTimersByTimeAsync(0);
+    return next;
+  };
+
+  const isOpus = (frame: { flags: number }) => Boolean(frame.flags & AUDIO_FRAME_FLAGS.opus);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.mocked(createOpusEncoder).mockImplementation(fakeEncoder);
+    sockets = [];
+    encoders = [];
+    expect(await audioTranscriptionService.configureOpus(true, 24000)).toBe(true);
+  });
+
+  afterEach(async () => {
+    audioTranscriptionService.disconnect();
+    await audioTranscriptionService.configureOpus(false, 24000);
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('语音段边界排在之前送来、仍在编码的音频块之后', async () => {
+    const ws = await connectOpus();
+
+    const sending = audioTranscriptionService.sendAudioData(new ArrayBuffer(3200));
+    audioTranscriptionService.sendSpeechBoundary('speech_end');
+    await vi.advanceTimersByTimeAsync(OPUS_ENCODE_DELAY_MS);
+    expect(await sending).toBe(true);
+
+    const frames = ws.sentFrames();
+    expect(frames).toHaveLength(2);
+    expect(isOpus(frames[0])).toBe(true);
+    expect(frames[1].flags & AUDIO_FRAME_FLAGS.speechEnd).toBeTruthy();
+    expect(frames[1].sequence).toBe(1);
+  });
+
+  it('服务器未确认恢复会话时，缓存的音频改发PCM，之后的音频用新的编码器', async () => {
+    const ws = await connectOpus();
+    ws.bufferedAmount = SEND_BUFFER_HIGH_WATERMARK + 1;
+    const first = audioTranscriptionService.sendAudioData(new ArrayBuffer(3200));
+    const second = audioTranscriptionService.sendAudioData(new ArrayBuffer(3200));
+    await vi.advanceTimersByTimeAsync(OPUS_ENCODE_DELAY_MS * 2);
+    expect(await first).toBe(true);
+    expect(await second).toBe(true);
+    expect(ws.sentFrames()).toEqual([]);
+
+    const next = await reconnect(ws, null);
+    expect(encoders.every(encoder => encoder.closed)).toBe(true);
+    expect(next.sentFrames().map(frame => [frame.sequence, isOpus(frame)])).toEqual([[0, false], [1, false]]);
+
+    const created = encoders.length;
+    const third = audioTranscriptionService.sendAudioData(new ArrayBuffer(3200));
+    await vi.advanceTimersByTimeAsync(OPUS_ENCODE_DELAY_MS);
+    expect(await third).toBe(true);
+    expect(encoders).toHaveLength(created + 1);
+    expect(encoders[created].closed).toBe(false);
+    const frames = next.sentFrames();
+    expect(frames[frames.length - 1]).toMatchObject({ sequence: 2 });
+    expect(isOpus(frames[frames.length - 1])).toBe(true);
+  });
+
+  it('恢复会话后重发的音频改发PCM', async () => {
+    const ws = await connectOpus();
+    const sending = audioTranscriptionService.sendAudioData(new ArrayBuffer(3200));
+    await vi.advanceTimersByTimeAsync(OPUS_ENCODE_DELAY_MS);
+    expect(await sending).toBe(true);
+    expect(isOpus(ws.sentFrames()[0])).toBe(true);
+
+    const next = await reconnect(ws, { last_sequence: null });
+    const frames = next.sentFrames();
+    expect(frames).toHaveLength(1);
+    expect(frames[0].sequence).toBe(0);
+    expect(frames[0].flags & AUDIO_FRAME_FLAGS.resent).toBeTruthy();
+    expect(isOpus(frames[0])).toBe(false);
+  });
+
+  it('断线时仍在编码的音频块改发PCM，不视为编码失败', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const ws = await connectOpus();
+    const sending = audioTranscriptionService.sendAudioData(new ArrayBuffer(3200));
+    ws.drop();
+    await vi.advanceTimersByTimeAsync(OPUS_ENCODE_DELAY_MS);
+    expect(await sending).toBe(true);
+
+    const next = await reconnect(ws, null);
+    expect(next.sentFrames().map(frame => [frame.sequence, isOpus(frame)])).toEqual([[0, false]]);
+    expect(error.mock.calls.some(([message]) => String(message).startsWith('Opus编码失败'))).toBe(false);
+  });
+});
@@ -1,42 +1,136 @@
+import {
+  ServerEvent,
+  ServerEventType,
+  TranscriptEvent,
+  TranscriptionEvent,
+  ConfigMessage,
+  AudioChannel,
+  AudioFraming,
+  AudioCodec,
+  SpeechBoundaryEventType,
+  parseServerEvent,
+  encodeClientMessage
+} from './protocol';
+import { DEFAULT_TARGET_LANGUAGES, fillPrimaryTranslation } from './translations';
+import {
+  BackpressurePolicy,
+  EnqueueAudioOptions,
+  PCM_BYTES_PER_SECOND,
+  QueuedAudioFrame,
+  createAudioResendQueue
+} from './audioResendQueue';
+import { AUDIO_FRAME_FLAGS, SUPPORTED_AUDIO_FRAMINGS, encodeAudioFrame, packOpusPackets } from './audioFraming';
+import {
+  DEFAULT_OPUS_BITRATE,
+  OPUS_FRAME_DURATION_MS,
+  OpusEncoder,
+  createOpusEncoder
+} from './opusEncoder';
+import { PCM_TARGET_SAMPLE_RATE } from './pcmEncoder';
+import { ConnectionHealthSource, createConnectionHealth } from './connectionHealth';
+
+// 发送队列（网络慢或断线期间）最多缓存的音频时长（秒），超过后按背压策略处理；
+// 队列已满后降到RESUME_BUFFERED_AUDIO_SECONDS以下才恢复
+const MAX_BUFFERED_AUDIO_SECONDS = 60;
+const RESUME_BUFFERED_AUDIO_SECONDS = 30;
+// WebSocket发送缓冲区的高/低水位：积压超过高水位时音频留在发送队列中，降到低水位以下再继续发送
+const SEND_BUFFER_HIGH_WATERMARK = 256 * 1024;
+const SEND_BUFFER_LOW_WATERMARK = 64 * 1024;
+// 积压期间检查发送缓冲区的间隔（WebSocket没有缓冲区排空事件）
+const DRAIN_CHECK_INTERVAL_MS = 50;
+// 保留最近发送的音频时长（秒），断线前发出但可能未到达的音频在恢复会话后重发
+const RESEND_AUDIO_SECONDS = 5;
+// 等待服务器确认恢复会话的时间
+const RESUME_TIMEOUT_MS = 3000;
+// 健康状态的采样间隔
+const HEALTH_SAMPLE_INTERVAL_MS = 1000;
+// 心跳间隔（采样次数）；连续多次未收到回复时认为连接已失效并重连
+const HEARTBEAT_EVERY_SAMPLES = 5;
+const MAX_MISSED_PONGS = 3;
+
+// 断线重连状态，reconnecting期间采集的音频暂存在发送队列中
+export interface ReconnectState {
+  reconnecting: boolean;
+  attempt: number;            // 第几次重连
+  bufferedSeconds: number;    // 等待发送的音频时长（秒）
+}
+
+// 发送队列的背压状态
+export interface BackpressureState {
+  full: boolean;              // 超过上限后、降到恢复值以下之前为true
+  policy: BackpressurePolicy;
+  bufferedSeconds: number;    // 等待发送的音频时长（秒）
+  droppedFrames: number;      // 本次会话因队列已满丢弃（或暂停期间未接受）的音频块数
+  capturePaused: boolean;     // pause_capture策略下应暂停采集，降到恢复值以下后恢复
+}
+
 interface TranscriptionOptions {
   onOpen?: (event: Event) => void;
   onClose?: (event: CloseEvent) => void;
   onError?: (error: Error) => void;
-  onTranscription?: (
-    text: string, 
-    refinedText?: string, 
-    translation?: string, 
-    timestamp?: number,
-    isKeywordMatch?: boolean,
-    isContinuation?: boolean,
-    continuationReason?: string,
-    matchedKeywords?: string[],
-    matchReason?: string
-  ) => void;
+  onTranscription?: (event: TranscriptEvent) => void;
+  onProtocolError?: (error: Error, rawData: unknown) => void; // 服务器消息格式错误
+  onReconnectStateChange?: (state: ReconnectState) => void;   // 开始/结束重连，以及重连期间缓存的音频增加
+  onBackpressureChange?: (state: BackpressureState) => void;  // 发送队列变为已满/恢复，或采集暂停/恢复
   language?: string;
   model?: string;
-  targetLanguage?: string;
+  targetLanguages?: string[];  // 翻译目标语言，第一个为主翻译
 }
 
+type ServiceCallbacks = Pick<
+  TranscriptionOptions,
+  'onOpen' | 'onClose' | 'onError' | 'onTranscription' | 'onProtocolError' | 'onReconnectStateChange' | 'onBackpressureChange'
+>;
+
+// 会话ID：重连时沿用，服务器据此恢复关键词、会话上下文和已收到的音频
+const generateSessionId = () => Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+
 class AudioTranscriptionService {
   private ws: WebSocket | null = null;
   private baseUrl: string;
-  private callbacks = {
-    onOpen: undefined as ((event: Event) => void) | undefined,
-    onClose: undefined as ((event: CloseEvent) => void) | undefined,
-    onError: undefined as ((error: Error) => void) | undefined,
-    onTranscription: undefined as ((text: string, refinedText?: string, translation?: string, timestamp?: number, isKeywordMatch?: boolean, isContinuation?: boolean, continuationReason?: string, matchedKeywords?: string[], matchReason?: string) => void) | undefined
-  };
+  private callbacks: ServiceCallbacks = {};
+  // 内部的服务器事件监听器（用于等待配置/关键词确认）
+  private serverEventListeners = new Set<(event: ServerEvent) => void>();
   private config = {
     language: 'zh',
     model: 'tiny',
-    target_language: 'en'
+    target_languages: DEFAULT_TARGET_LANGUAGES
   };
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000; // 初始重连延迟1秒
   private reconnectTimer: NodeJS.Timeout | null = null;
-  private isReconnecting = false;
+  private sessionId: string | null = null;   // 当前会话ID，主动断开后为null
+  private resumePending = false;             // 连接意外断开，正在重连并恢复会话
+  private audioReady = false;                // 连接已就绪（配置已发送、缓存的音频已补发），新的音频可以直接发送
+  private keywords: string[] = [];           // 最近设置的关键词，恢复会话时重新发送
+  private currentAudioChannel: AudioChannel | null = null; // 本次连接上最近声明的音频通道（双通道模式）
+  private nextWireSequence: number | null = null;          // 本次连接上下一帧的默认序号，不一致时先声明audio_sequence
+  private audioFraming: AudioFraming = 'raw';              // 本次连接上协商的音频帧格式
+  private audioCodec: AudioCodec = 'pcm_s16le';            // 本次会话协商的音频编码
+  private opusEnabled = false;                             // 用户选择使用Opus且编码器可用
+  private opusBitrate = DEFAULT_OPUS_BITRATE;
+  // 每路音源一个Opus编码器（键为通道，混合音频为mixed），首次发送该音源的音频时创建
+  private opusEncoders = new Map<string, Promise<OpusEncoder | null>>();
+  private opusGeneration = 0;                              // 关闭编码器时加一，此前开始的编码结果不再使用
+  // 音频块和语音段边界依次进入发送队列（音频块需要先等待Opus编码）
+  private enqueueChain: Promise<unknown> = Promise.resolve();
+  private reportedBufferedSeconds = 0;
+  // 上行音频按会话编号，位置以会话开始后的第一个音频块为起点，用于换算服务器返回的audio_start
+  private audioQueue = createAudioResendQueue({
+    maxPendingBytes: MAX_BUFFERED_AUDIO_SECONDS * PCM_BYTES_PER_SECOND,
+    resumePendingBytes: RESUME_BUFFERED_AUDIO_SECONDS * PCM_BYTES_PER_SECOND,
+    resendBytes: RESEND_AUDIO_SECONDS * PCM_BYTES_PER_SECOND
+  });
+  private streamBaseBytes = 0; // 服务器音频流的起点在会话音频流中的位置（服务器未能恢复会话时重新起算）
+  private health = createConnectionHealth();
+  private healthTimer: NodeJS.Timeout | null = null;
+  private healthSamples = 0;
+  private nextPingId = 0;
+  private pingOutstanding = false;           // 最近一次心跳尚未收到回复
+  private drainTimer: NodeJS.Timeout | null = null;
+  private queueFull = false;                 // 最近通知的背压状态
+  private capturePaused = false;
 
   constructor(baseUrl: string = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8000') {
     // 确保使用正确的WebSocket协议
@@ -56,57 +150,85 @@ class AudioTranscriptionService {
     }
   }
 
+  /**
+   * 开始新的会话并连接服务器
+   *
+   * 连接意外断开后自动重连，并以同一会话ID恢复会话（见attemptReconnect）。
+   */
   async connect(options: TranscriptionOptions = {}): Promise<void> {
-    if (this.isReconnecting) {
-      console.log('正在重连中，跳过连接请求');
-      return;
-    }
-
-    if (this.ws) {
-      console.log('关闭现有WebSocket连接');
-      this.ws.close();
-      this.ws = null;
-    }
+    this.clearReconnectTimer();
+    this.closeSocket();
 
     this.callbacks = {
-      onOpen: options.onOpen || undefined,
-      onClose: options.onClose || undefined,
-      onError: options.onError || undefined,
-      onTranscription: options.onTranscription || undefined
+      onOpen: options.onOpen,
+      onClose: options.onClose,
+      onError: options.onError,
+      onTranscription: options.onTranscription,
+      onProtocolError: options.onProtocolError,
+      onReconnectStateChange: options.onReconnectStateChange,
+      onBackpressureChange: options.onBackpressureChange
     };
 
     if (options.language) this.config.language = options.language;
     if (options.model) this.config.model = options.model;
+    if (options.targetLanguages && options.targetLanguages.length > 0) this.config.target_languages = options.targetLanguages;
+
+    // 新会话：新的会话ID，清空上一个会话的音频队列
+    this.sessionId = generateSessionId();
+    this.resumePending = false;
+    this.reconnectAttempts = 0;
+    this.audioQueue.reset();
+    this.queueFull = false;
+    this.capturePaused = false;
+    this.streamBaseBytes = 0;
+    this.audioCodec = 'pcm_s16le';
+    this.closeOpusEncoders();
+    this.health.reset();
+    this.startHealthTimer();
 
+    return this.openSocket(false);
+  }
+
+  /**
+   * 建立WebSocket连接
+   *
+   * @param resume 是否恢复已有会话：先发送resume，再重新发送配置和关键词，最后补发缓存的音频
+   */
+  private openSocket(resume: boolean): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        // 生成一个随机的client_id
-        const clientId = Math.random().toString(36).substring(7);
-        const wsUrl = `${this.baseUrl}/ws/transcribe/${clientId}`;
-        console.log('尝试连接WebSocket:', wsUrl);
+        const wsUrl = `${this.baseUrl}/ws/transcribe/${this.sessionId}`;
+        console.log(resume ? '尝试恢复会话:' : '尝试连接WebSocket:', wsUrl);
         
-        this.ws = new WebSocket(wsUrl);
-        this.ws.binaryType = 'arraybuffer';
+        this.audioReady = false;
+        this.health.setStatus(resume ? 'reconnecting' : 'connecting');
+        const ws = new WebSocket(wsUrl);
+        ws.binaryType = 'arraybuffer';
+        this.ws = ws;
         
         let configSent = false;
         const connectionTimeoutId = setTimeout(() => {
-          if (this.ws?.readyState !== WebSocket.OPEN) {
+          if (ws.readyState !== WebSocket.OPEN) {
             const error = new Error('WebSocket连接超时');
             console.error('连接超时，当前状态:', {
-              readyState: this.ws?.readyState,
+              readyState: ws.readyState,
               url: wsUrl
             });
-            this.ws?.close();
+            this.closeSocket();
             this.attemptReconnect();
             reject(error);
           }
         }, 5000);
 
-        this.ws.onopen = async (event) => {
-          console.log('WebSocket连接已建立，readyState:', this.ws?.readyState);
+        ws.onopen = async (event) => {
+          console.log('WebSocket连接已建立，readyState:', ws.readyState);
           clearTimeout(connectionTimeoutId);
           this.reconnectAttempts = 0;
-          this.isReconnecting = false;
+          this.currentAudioChannel = null;
+          this.nextWireSequence = null;
+          this.audioFraming = 'raw';
+          this.pingOutstanding = false;
+          this.health.resetConnection();
           
           if (this.callbacks.onOpen) this.callbacks.onOpen(event);
 
@@ -114,25 +236,43 @@ class AudioTranscriptionService {
           await new Promise(resolve => setTimeout(resolve, 500));
           
           try {
+            if (resume) {
+              await this.resumeSession();
+            }
             // 发送配置
             await this.sendConfig();
             configSent = true;
-            resolve();
+            if (resume && this.keywords.length > 0) {
+              await this.updateKeywords(this.keywords);
+            }
           } catch (error) {
             console.error('发送初始配置失败:', error);
             // 即使配置发送失败也继续保持连接
-            resolve();
           }
+
+          // 连接已被替换或关闭时不再补发
+          if (this.ws === ws && ws.readyState === WebSocket.OPEN) {
+            this.audioReady = true;
+            this.health.setStatus('connected');
+            this.flushAudio();
+            if (this.resumePending) {
+              this.resumePending = false;
+              this.emitReconnectState();
+            }
+          }
+          resolve();
         };
 
-        this.ws.onclose = (event) => {
+        ws.onclose = (event) => {
           console.log('WebSocket连接已关闭:', {
             code: event.code,
             reason: event.reason,
             wasClean: event.wasClean,
-            readyState: this.ws?.readyState,
+            readyState: ws.readyState,
             configSent
           });
+          this.audioReady = false;
+          this.health.setStatus('disconnected');
           
           if (this.callbacks.onClose) this.callbacks.onClose(event);
           
@@ -142,10 +282,10 @@ class AudioTranscriptionService {
           }
         };
 
-        this.ws.onerror = (event) => {
+        ws.onerror = (event) => {
           console.error('WebSocket错误:', {
             event,
-            readyState: this.ws?.readyState,
+            readyState: ws.readyState,
             url: wsUrl,
             configSent
           });
@@ -154,7 +294,7 @@ class AudioTranscriptionService {
           }
         };
 
-        this.ws.onmessage = this.handleMessage.bind(this);
+        ws.onmessage = this.handleMessage.bind(this);
 
       } catch (error) {
         console.error('创建WebSocket连接时出错:', error);
@@ -164,99 +304,275 @@ class AudioTranscriptionService {
     });
   }
 
+  // 关闭当前连接；先解除事件处理，主动关闭不会触发重连
+  private closeSocket(): void {
+    if (!this.ws) return;
+    console.log('关闭现有WebSocket连接');
+    this.ws.onopen = null;
+    this.ws.onclose = null;
+    this.ws.onerror = null;
+    this.ws.onmessage = null;
+    this.ws.close();
+    this.ws = null;
+    this.audioReady = false;
+    this.stopDrainTimer();
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
   private attemptReconnect(): void {
-    if (this.isReconnecting) {
+    if (this.reconnectTimer) {
       console.log('已经在重连中');
       return;
     }
+    if (!this.sessionId) {
+      return;  // 已主动断开
+    }
 
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('达到最大重连次数，停止重连');
+      this.resumePending = false;
+      this.health.setStatus('disconnected');
+      this.emitReconnectState();
       if (this.callbacks.onError) {
         this.callbacks.onError(new Error('WebSocket重连失败'));
       }
       return;
     }
 
-    this.isReconnecting = true;
+    this.resumePending = true;
     this.reconnectAttempts++;
+    this.health.setStatus('reconnecting');
+    this.emitReconnectState();
     const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1), 30000);
     
     console.log(`第 ${this.reconnectAttempts} 次重连，延迟 ${delay}ms`);
-    
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-    }
 
-    this.reconnectTimer = setTimeout(async () => {
-      try {
-        await this.connect({
-          onOpen: this.callbacks.onOpen,
-          onClose: this.callbacks.onClose,
-          onError: this.callbacks.onError,
-          onTranscription: this.callbacks.onTranscription,
-          language: this.config.language,
-          model: this.config.model
-        });
-      } catch (error) {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket(true).catch(error => {
         console.error('重连失败:', error);
-        this.isReconnecting = false;
-      }
+      });
     }, delay);
   }
 
+  /**
+   * 恢复会话
+   *
+   * 服务器确认后，从它收到的最后一个音频帧之后重发；服务器未确认（不支持恢复或会话已过期）时，
+   * 服务器会从下一个音频块开始新的音频流，只发送尚未发送的音频。
+   */
+  private async resumeSession(): Promise<void> {
+    if (!this.ws || !this.sessionId) return;
+
+    const lastSent = this.audioQueue.getLastSentSequence();
+    console.log(`发送恢复会话请求: ${this.sessionId}，已发送到音频帧 ${lastSent ?? '无'}`);
+    this.ws.send(encodeClientMessage({ event: 'resume', session_id: this.sessionId, last_sequence: lastSent }));
+
+    const ack = await this.waitForServerEvent(['resumed'], RESUME_TIMEOUT_MS);
+    if (ack) {
+      const resent = this.audioQueue.rewind(ack.lastSequence ?? null);
+      console.log(`会话已恢复，服务器已收到音频帧 ${ack.lastSequence ?? '无'}，重发 ${resent} 个音频块`);
+    } else {
+      const next = this.audioQueue.peekPending();
+      this.streamBaseBytes = next ? next.streamOffset : this.audioQueue.getStreamBytes();
+      console.warn('服务器未确认恢复会话，作为新的音频流继续');
+    }
+
+    // 队列中的Opus数据接续断线前的编码器状态，新连接上的解码器无法接续：
+    // 重发和缓存的音频改发PCM，之后的音频用新的编码器从头编码
+    this.audioQueue.dropEncoded();
+    this.closeOpusEncoders();
+  }
+
+  private startHealthTimer(): void {
+    this.stopHealthTimer();
+    this.healthSamples = 0;
+    this.healthTimer = setInterval(() => this.sampleHealth(), HEALTH_SAMPLE_INTERVAL_MS);
+  }
+
+  private stopHealthTimer(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * 定时采样健康状态，并按间隔发送心跳
+   *
+   * 本次连接上收到过心跳回复、之后连续多次未回复时，认为连接已失效（例如网络切换后半开的连接），
+   * 主动关闭并重连；从未回复过心跳的服务器（不支持ping）不做判断。
+   */
+  private sampleHealth(): void {
+    const ws = this.ws;
+    this.health.sample({
+      bufferedAmount: ws ? ws.bufferedAmount : 0,
+      pendingBytes: this.audioQueue.getPendingBytes(),
+      droppedFrames: this.audioQueue.getDroppedFrames()
+    });
+
+    this.healthSamples++;
+    if (this.healthSamples % HEARTBEAT_EVERY_SAMPLES !== 0) return;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    if (this.pingOutstanding) {
+      const missed = this.health.recordMissedPong();
+      if (this.health.hasReceivedPong() && missed >= MAX_MISSED_PONGS) {
+        console.warn(`连续 ${missed} 次心跳未收到回复，重新连接`);
+        this.closeSocket();
+        this.health.setStatus('disconnected');
+        this.attemptReconnect();
+        return;
+      }
+    }
+
+    const id = this.nextPingId++;
+    ws.send(encodeClientMessage({ event: 'ping', id, timestamp: Date.now() / 1000 }));
+    this.health.recordPing(id);
+    this.pingOutstanding = true;
+  }
+
+  // 通知重连状态；重连期间缓存的音频每增加一秒通知一次
+  private emitReconnectState(): void {
+    const bufferedSeconds = this.audioQueue.getPendingBytes() / PCM_BYTES_PER_SECOND;
+    this.reportedBufferedSeconds = Math.floor(bufferedSeconds);
+    this.callbacks.onReconnectStateChange?.({
+      reconnecting: this.resumePending,
+      attempt: this.reconnectAttempts,
+      bufferedSeconds
+    });
+  }
+
   private handleMessage(event: MessageEvent): void {
+    let message: ServerEvent;
     try {
-      const data = JSON.parse(event.data);
-      
-      // 增强日志显示
-      console.log('%c收到WebSocket消息', 'background: #4CAF50; color: white; padding: 4px 8px; border-radius: 4px;');
-      console.log('类型:', data.event);
-      console.log('内容:', data);
-
-      if (data.event === 'transcription' && data.text && this.callbacks.onTranscription) {
-        console.log('%c处理转写结果', 'background: #2196F3; color: white; padding: 4px 8px; border-radius: 4px;');
-        console.log('文本:', data.text);
-        console.log('优化文本:', data.refined_text || '(无)');
-        console.log('翻译:', data.translation || '(无)');
-        console.log('时间戳:', data.timestamp || '(无)');
-        console.log('匹配关键词:', data.is_keyword_match ? '是' : '否');
-        if (data.is_keyword_match) {
-          console.log('匹配的关键词:', data.matched_keywords || []);
-          console.log('匹配原因:', data.match_reason || '(无)');
+      message = parseServerEvent(event.data);
+    } catch (error) {
+      const protocolError = error instanceof Error ? error : new Error(String(error));
+      console.error('收到格式错误的服务器消息:', protocolError.message);
+      console.log('原始消息:', event.data);
+      if (this.callbacks.onProtocolError) {
+        this.callbacks.onProtocolError(protocolError, event.data);
+      }
+      return;
+    }
+
+    // 增强日志显示
+    console.log('%c收到WebSocket消息', 'background: #4CAF50; color: white; padding: 4px 8px; border-radius: 4px;');
+    console.log('类型:', message.event);
+    console.log('内容:', message);
+
+    this.serverEventListeners.forEach(listener => listener(message));
+
+    switch (message.event) {
+      case 'transcription':
+        if (message.text && this.callbacks.onTranscription) {
+          console.log('%c处理转写结果', 'background: #2196F3; color: white; padding: 4px 8px; border-radius: 4px;');
+          console.log('文本:', message.text);
+          console.log('优化文本:', message.refinedText || '(无)');
+          console.log('翻译:', message.translation || '(无)');
+          console.log('时间戳:', message.timestamp || '(无)');
+          console.log('匹配关键词:', message.isKeywordMatch ? '是' : '否');
+          if (message.isKeywordMatch) {
+            console.log('匹配的关键词:', message.matchedKeywords);
+            console.log('匹配原因:', message.matchReason || '(无)');
+          }
+          console.log('是连续文本:', message.isContinuation ? '是' : '否');
+          console.log('连续原因:', message.continuationReason || '(无)');
+
+          this.deliverTranscript(message);
         }
-        console.log('是连续文本:', data.is_continuation ? '是' : '否');
-        console.log('连续原因:', data.continuation_reason || '(无)');
-        
-        this.callbacks.onTranscription(
-          data.text,
-          data.refined_text,
-          data.translation,
-          data.timestamp,
-          data.is_keyword_match,
-          data.is_continuation,
-          data.continuation_reason,
-          data.matched_keywords,
-          data.match_reason
-        );
-      } else if (data.event === 'error') {
-        console.error('服务器报告错误:', data.message);
+        break;
+      case 'partial':
+      case 'final':
+        // 空的中间/最终结果没有可显示的内容
+        if (message.text && this.callbacks.onTranscription) {
+          console.log(`收到片段${message.event === 'partial' ? '中间' : '最终'}结果 [${message.segmentId}]:`, message.text);
+          this.deliverTranscript(message);
+        }
+        break;
+      case 'segment_update':
+        console.log(`收到片段更新 [${message.segmentId}]`);
+        this.callbacks.onTranscription?.(fillPrimaryTranslation(message, this.config.target_languages));
+        break;
+      case 'error':
+        console.error('服务器报告错误:', message.message);
         if (this.callbacks.onError) {
-          this.callbacks.onError(new Error(data.message));
+          this.callbacks.onError(new Error(message.message));
         }
-      } else if (data.event === 'connected') {
+        break;
+      case 'connected':
         console.log('收到连接确认');
-      } else if (data.event === 'config_updated' || data.event === 'config_received') {
+        break;
+      case 'config_updated':
+      case 'config_received':
         console.log('收到配置确认');
-      } else {
-        console.warn('收到未知类型的消息:', data);
-      }
-    } catch (error) {
-      console.error('处理消息时出错:', error);
-      console.log('原始消息:', event.data);
+        break;
+      case 'keywords_updated':
+        console.log('收到关键词更新确认');
+        break;
+      case 'resumed':
+        console.log('收到恢复会话确认');
+        break;
+      case 'pong':
+        this.pingOutstanding = false;
+        this.health.recordPong(message.id);
+        break;
     }
   }
 
+  // 换算到会话音频流后交给回调，并按结果的audio_end记录端到端延迟
+  private deliverTranscript(message: Exclude<TranscriptEvent, { event: 'segment_update' }>): void {
+    const event = fillPrimaryTranslation(this.toSessionStream(message), this.config.target_languages);
+    this.health.recordTranscript(event.audioEnd);
+    this.callbacks.onTranscription?.(event);
+  }
+
+  // 服务器的audio_start/audio_end从它的音频流起点算起，换算为会话上行音频流中的位置
+  private toSessionStream<T extends Exclude<TranscriptEvent, { event: 'segment_update' }>>(event: T): T {
+    if (this.streamBaseBytes === 0) return event;
+    const base = this.streamBaseBytes / PCM_BYTES_PER_SECOND;
+    return {
+      ...event,
+      audioStart: event.audioStart !== undefined ? event.audioStart + base : undefined,
+      audioEnd: event.audioEnd !== undefined ? event.audioEnd + base : undefined
+    };
+  }
+
+  /**
+   * 等待指定类型的服务器事件
+   *
+   * @param types 等待的事件类型
+   * @param timeoutMs 超时时间（毫秒）
+   * @returns 收到的事件，超时返回null
+   */
+  private waitForServerEvent<K extends ServerEventType>(
+    types: K[],
+    timeoutMs: number
+  ): Promise<Extract<ServerEvent, { event: K }> | null> {
+    return new Promise((resolve) => {
+      const listener = (event: ServerEvent) => {
+        if ((types as ServerEventType[]).includes(event.event)) {
+          clearTimeout(timeoutId);
+          this.serverEventListeners.delete(listener);
+          resolve(event as Extract<ServerEvent, { event: K }>);
+        }
+      };
+      const timeoutId = setTimeout(() => {
+        this.serverEventListeners.delete(listener);
+        resolve(null);
+      }, timeoutMs);
+
+      this.serverEventListeners.add(listener);
+    });
+  }
+
   private async sendConfig(): Promise<void> {
     // 等待连接就绪
     const waitForConnection = async (maxAttempts = 10): Promise<void> => {
@@ -277,60 +593,47 @@ class AudioTranscriptionService {
         throw new Error('WebSocket未连接');
       }
 
-      const config = {
+      const config: ConfigMessage = {
         event: 'config',
         config: {
           language: this.config.language,
           model_type: this.config.model,
-          target_language: this.config.target_language || 'en'
+          target_language: this.config.target_languages[0],
+          target_languages: this.config.target_languages,
+          audio_framing: SUPPORTED_AUDIO_FRAMINGS,
+          audio_codecs: this.opusEnabled ? ['opus', 'pcm_s16le'] : ['pcm_s16le'],
+          ...(this.opusEnabled && {
+            opus: { bitrate: this.opusBitrate, frame_duration_ms: OPUS_FRAME_DURATION_MS }
+          })
         }
       };
 
       // 最多重试3次
       for (let attempt = 1; attempt <= 3; attempt++) {
-        try {
-          console.log(`发送配置 (尝试 ${attempt}/3):`, config);
-          this.ws.send(JSON.stringify(config));
-          
-          // 等待确认
-          await new Promise<void>((resolve, reject) => {
-            const timeoutId = setTimeout(() => {
-              this.ws?.removeEventListener('message', messageHandler);
-              if (attempt === 3) {
-                reject(new Error('配置发送超时'));
-              } else {
-                console.log(`配置发送超时，将进行第 ${attempt + 1} 次尝试`);
-                resolve();
-              }
-            }, 5000);
-
-            const messageHandler = (event: MessageEvent) => {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.event === 'config_updated' || response.event === 'config_received') {
-                  clearTimeout(timeoutId);
-                  this.ws?.removeEventListener('message', messageHandler);
-                  console.log('配置更新成功');
-                  resolve();
-                }
-              } catch (error) {
-                console.error('处理配置响应时出错:', error);
-              }
-            };
-
-            this.ws?.addEventListener('message', messageHandler);
-          });
-          
-          // 如果成功收到响应，直接返回
+        console.log(`发送配置 (尝试 ${attempt}/3):`, config);
+        this.ws.send(encodeClientMessage(config));
+        
+        // 等待确认
+        const ack = await this.waitForServerEvent(['config_updated', 'config_received'], 5000);
+        if (ack) {
+          // 旧版本服务器不返回audio_framing，继续发送不带帧头的PCM
+          this.audioFraming = ack.audioFraming ?? 'raw';
+          // Opus包需要帧头分隔，只能在framed格式下使用
+          this.audioCodec = this.opusEnabled && this.audioFraming === 'framed' && ack.audioCodec === 'opus'
+            ? 'opus'
+            : 'pcm_s16le';
+          this.health.setAudioFraming(this.audioFraming);
+          this.health.setAudioCodec(this.audioCodec);
+          console.log(`配置更新成功，音频帧格式: ${this.audioFraming}，音频编码: ${this.audioCodec}`);
           return;
-          
-        } catch (error) {
-          if (attempt === 3) {
-            throw error;
-          }
-          // 等待一段时间后重试
-          await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
         }
+        
+        if (attempt === 3) {
+          throw new Error('配置发送超时');
+        }
+        console.log(`配置发送超时，将进行第 ${attempt + 1} 次尝试`);
+        // 等待一段时间后重试
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
       }
     } catch (error) {
       console.error('发送配置时出错:', error);
@@ -338,54 +641,375 @@ class AudioTranscriptionService {
     }
   }
 
-  async sendAudioData(audioData: ArrayBuffer): Promise<void> {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+  /**
+   * 发送一块PCM音频
+   *
+   * 音频块先按会话编号进入发送队列：连接就绪且发送缓冲区没有积压时立即发送；积压或断线重连期间
+   * 留在队列中，积压消退或恢复会话后补发。队列超过上限时按背压策略丢弃音频或暂停接受新的音频。
+   * 使用Opus时先编码再入队，音频块和语音段边界按调用顺序入队，不会因等待编码而错位。
+   *
+   * @param options.channel 双通道模式下所属的通道
+   * @param options.silence 是否为静音块（语音门控的pre-roll/hangover），drop_silence策略下优先丢弃
+   * @param options.capturedAt 采集时间（Unix毫秒），写入帧头
+   * @returns 音频块是否进入了发送队列（pause_capture策略下队列已满时为false）
+   */
+  async sendAudioData(audioData: ArrayBuffer, options: EnqueueAudioOptions = {}): Promise<boolean> {
+    if (!this.sessionId) {
       console.error('WebSocket未连接，状态:', this.ws?.readyState);
       throw new Error('WebSocket未连接');
     }
 
     if (audioData.byteLength === 0) {
       console.warn('音频数据为空');
-      return;
+      return false;
+    }
+
+    const sessionId = this.sessionId;
+    return this.serializeEnqueue(async () => {
+      // 等待期间会话已结束或开始了新会话
+      if (this.sessionId !== sessionId) return false;
+
+      try {
+        const generation = this.opusGeneration;
+        const encoded = await this.encodeOpus(audioData, options.channel);
+        if (this.sessionId !== sessionId) return false;
+        // 编码期间编码器被重置（重连等），这块的Opus数据与新的编码器不连续，改发PCM
+        const frame = this.audioQueue.enqueue(audioData, {
+          ...options,
+          encoded: generation === this.opusGeneration ? encoded : undefined
+        });
+        this.updateBackpressure();
+        if (!frame) {
+          console.warn('采集已暂停，丢弃暂停前送出的音频块');
+          return false;
+        }
+
+        if (this.audioReady) {
+          this.flushAudio();
+          return true;
+        }
+
+        console.log(`连接未就绪，音频已缓存（共 ${(this.audioQueue.getPendingBytes() / PCM_BYTES_PER_SECOND).toFixed(1)} 秒）`);
+        if (this.resumePending && this.audioQueue.getPendingBytes() / PCM_BYTES_PER_SECOND >= this.reportedBufferedSeconds + 1) {
+          this.emitReconnectState();
+        }
+        return true;
+      } catch (error) {
+        console.error('发送音频数据时出错:', error);
+        throw error;
+      }
+    });
+  }
+
+  // 按调用顺序依次执行加入发送队列的操作，前一个失败不影响后面的
+  private serializeEnqueue<T>(task: () => Promise<T> | T): Promise<T> {
+    const result = this.enqueueChain.then(task);
+    this.enqueueChain = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 按顺序发送队列中等待的音频块
+   *
+   * 发送缓冲区积压超过高水位时停止，音频留在队列中（在这里才能按策略处理），
+   * 之后定时检查，积压降到低水位以下再继续发送。
+   */
+  private flushAudio(): void {
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !this.audioReady || this.drainTimer) return;
+
+    while (this.audioQueue.peekPending()) {
+      if (ws.bufferedAmount > SEND_BUFFER_HIGH_WATERMARK) {
+        console.warn(`发送缓冲区积压 ${ws.bufferedAmount} 字节，暂停发送，队列中等待 ${this.audioQueue.getPendingBytes()} 字节`);
+        this.startDrainTimer();
+        break;
+      }
+
+      const frame = this.audioQueue.shiftPending()!;
+      if (frame.boundary) {
+        console.log(`发送语音段边界: ${frame.boundary}${frame.channel ? ` (${frame.channel})` : ''}`);
+      } else {
+        // 振幅检测已在PCM编码worklet中完成，这里不再遍历采样
+        console.log('发送音频数据:', {
+          sequence: frame.sequence,
+          byteLength: frame.data.byteLength,
+          bufferedAmount: ws.bufferedAmount
+        });
+      }
+
+      const wireBytes = this.audioFraming === 'framed' ? this.sendFramed(ws, frame) : this.sendRaw(ws, frame);
+      if (!frame.boundary) {
+        this.health.recordFrameSent(
+          frame.sequence,
+          wireBytes,
+          (frame.streamOffset + frame.data.byteLength) / PCM_BYTES_PER_SECOND
+        );
+      }
+    }
+    this.updateBackpressure();
+  }
+
+  // 带帧头的格式：序号、通道和边界都由帧头携带，返回发送的字节数
+  private sendFramed(ws: WebSocket, frame: QueuedAudioFrame): number {
+    let flags = 0;
+    if (frame.boundary === 'speech_start') flags |= AUDIO_FRAME_FLAGS.speechStart;
+    if (frame.boundary === 'speech_end') flags |= AUDIO_FRAME_FLAGS.speechEnd;
+    if (frame.silence) flags |= AUDIO_FRAME_FLAGS.silence;
+    if (frame.discontinuity) flags |= AUDIO_FRAME_FLAGS.discontinuity;
+    if (frame.resent) flags |= AUDIO_FRAME_FLAGS.resent;
+    // 重连后服务器不再接受Opus时改发保留的PCM
+    const useOpus = frame.encoded !== undefined && this.audioCodec === 'opus';
+    if (useOpus) flags |= AUDIO_FRAME_FLAGS.opus;
+
+    const data = encodeAudioFrame({
+      flags,
+      channel: frame.channel,
+      sequence: frame.sequence,
+      capturedAt: frame.capturedAt,
+      sampleRate: PCM_TARGET_SAMPLE_RATE
+    }, useOpus ? frame.encoded! : frame.data);
+    ws.send(data);
+    return data.byteLength;
+  }
+
+  // 不带帧头的格式（旧版本服务器）：边界、通道切换和序号不连续时另发JSON消息，返回发送的音频字节数
+  private sendRaw(ws: WebSocket, frame: QueuedAudioFrame): number {
+    if (frame.boundary) {
+      ws.send(encodeClientMessage({ event: frame.boundary, timestamp: frame.capturedAt / 1000, channel: frame.channel }));
+      return 0;
+    }
+
+    if (frame.channel && frame.channel !== this.currentAudioChannel) {
+      ws.send(encodeClientMessage({ event: 'audio_channel', channel: frame.channel }));
+      this.currentAudioChannel = frame.channel;
+    }
+    // 每次连接开始时以及序号不连续（缓存溢出丢弃过音频）时声明序号
+    if (frame.sequence !== this.nextWireSequence) {
+      ws.send(encodeClientMessage({ event: 'audio_sequence', sequence: frame.sequence }));
+    }
+    ws.send(frame.data);
+    this.nextWireSequence = frame.sequence + 1;
+    return frame.data.byteLength;
+  }
+
+  /**
+   * 协商使用Opus时编码一个音频块
+   *
+   * @returns 打包后的Opus数据；未使用Opus时返回undefined。编码失败时本次会话改回PCM
+   */
+  private async encodeOpus(audioData: ArrayBuffer, channel?: AudioChannel): Promise<ArrayBuffer | undefined> {
+    if (!this.opusEnabled || this.audioCodec !== 'opus') return undefined;
+
+    const key = channel || 'mixed';
+    const generation = this.opusGeneration;
+    let encoder = this.opusEncoders.get(key);
+    if (!encoder) {
+      encoder = createOpusEncoder(this.opusBitrate);
+      this.opusEncoders.set(key, encoder);
     }
 
     try {
-      // 检查缓冲区状态
-      if (this.ws.bufferedAmount > 1024 * 1024) {
-        console.warn('WebSocket缓冲区已满，等待发送...');
-        await new Promise<void>((resolve) => setTimeout(resolve, 100));
+      const opus = await encoder;
+      if (!opus) throw new Error('Opus编码器不可用');
+      return packOpusPackets(await opus.encode(audioData));
+    } catch (error) {
+      // 编码器已被主动关闭（重连、关闭Opus等），不是编码失败
+      if (generation !== this.opusGeneration) return undefined;
+      console.error('Opus编码失败，本次会话改为发送PCM:', error);
+      this.audioCodec = 'pcm_s16le';
+      this.health.setAudioCodec(this.audioCodec);
+      this.closeOpusEncoders();
+      return undefined;
+    }
+  }
+
+  private closeOpusEncoders(): void {
+    this.opusGeneration++;
+    this.opusEncoders.forEach(encoder => {
+      encoder.then(opus => opus?.close()).catch(() => undefined);
+    });
+    this.opusEncoders.clear();
+  }
+
+  /**
+   * 设置是否使用Opus压缩上行音频及其码率
+   *
+   * 启用时先创建一个编码器确认可用（WebCodecs或WASM），都不可用时保持PCM。
+   * 是否启用的变化通过重新发送config告知服务器，服务器在确认中选择编码；码率变化只影响本地编码器。
+   *
+   * @returns 是否启用了Opus（未启用或浏览器不支持时为false）
+   */
+  async configureOpus(enabled: boolean, bitrate: number): Promise<boolean> {
+    const bitrateChanged = bitrate !== this.opusBitrate;
+    this.opusBitrate = bitrate;
+
+    let available = false;
+    if (enabled) {
+      let probe = this.opusEncoders.get('mixed');
+      if (!probe) {
+        probe = createOpusEncoder(bitrate);
+        this.opusEncoders.set('mixed', probe);
       }
+      const encoder = await probe;
+      available = encoder !== null;
+      if (!encoder) {
+        console.warn('浏览器不支持Opus编码，继续发送PCM');
+        this.opusEncoders.delete('mixed');
+      }
+    }
 
-      // 检查音频数据
-      const view = new Int16Array(audioData);
-      const maxAbs = Math.max(...Array.from(view).map(Math.abs));
-      
-      if (maxAbs < 100) {
-        console.log('音频数据振幅太小，跳过发送');
+    if (available && bitrateChanged) {
+      const encoders = await Promise.all(Array.from(this.opusEncoders.values()));
+      await Promise.all(encoders.map(encoder => encoder?.setBitrate(bitrate)));
+    }
+
+    if (available !== this.opusEnabled) {
+      this.opusEnabled = available;
+      if (!available) {
+        this.closeOpusEncoders();
+        this.audioCodec = 'pcm_s16le';
+        this.health.setAudioCodec(this.audioCodec);
+      }
+      // 会话进行中时重新协商
+      if (this.audioReady) {
+        this.sendConfig().catch(error => {
+          console.error('重新协商音频编码失败:', error);
+        });
+      }
+    }
+    console.log(`Opus编码: ${available ? `${bitrate / 1000} kbit/s` : '未启用'}`);
+    return available;
+  }
+
+  private startDrainTimer(): void {
+    this.drainTimer = setInterval(() => {
+      const ws = this.ws;
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        this.stopDrainTimer();
         return;
       }
-      
-      console.log('准备发送音频数据:', {
-        byteLength: audioData.byteLength,
-        samples: view.length,
-        maxAmplitude: maxAbs,
-        bufferedAmount: this.ws.bufferedAmount,
-        readyState: this.ws.readyState
-      });
+      if (ws.bufferedAmount < SEND_BUFFER_LOW_WATERMARK) {
+        this.stopDrainTimer();
+        this.flushAudio();
+      }
+    }, DRAIN_CHECK_INTERVAL_MS);
+  }
 
-      // 发送音频数据
-      this.ws.send(audioData);
-      
-      console.log('音频数据发送成功');
+  private stopDrainTimer(): void {
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
 
-    } catch (error) {
-      console.error('发送音频数据时出错:', error);
-      throw error;
+  // 发送队列变为已满或恢复、采集需要暂停或恢复时通知
+  private updateBackpressure(): void {
+    const full = this.audioQueue.isFull();
+    const capturePaused = this.audioQueue.isCapturePaused();
+    if (full === this.queueFull && capturePaused === this.capturePaused) return;
+    this.queueFull = full;
+    this.capturePaused = capturePaused;
+    if (full) {
+      console.warn(`发送队列已满，按 ${this.audioQueue.getPolicy()} 策略处理`);
     }
+    if (capturePaused) {
+      console.warn('发送队列已满，暂停采集');
+    }
+    this.callbacks.onBackpressureChange?.({
+      full,
+      policy: this.audioQueue.getPolicy(),
+      bufferedSeconds: this.audioQueue.getPendingBytes() / PCM_BYTES_PER_SECOND,
+      droppedFrames: this.audioQueue.getDroppedFrames(),
+      capturePaused
+    });
+  }
+
+  /**
+   * 是否应暂停采集（pause_capture策略下发送队列已满）
+   *
+   * 采集链路在onBackpressureChange通知时暂停/恢复，新建的链路用它确定初始状态。
+   */
+  isCapturePaused(): boolean {
+    return this.capturePaused;
   }
 
-  updateConfig(language: string, model: string, target_language?: string): void {
-    console.log(`更新配置: language=${language}, model=${model}, target_language=${target_language || this.config.target_language}`);
+  /**
+   * 设置发送队列已满时的处理策略（对当前和之后的会话生效）
+   */
+  setBackpressurePolicy(policy: BackpressurePolicy): void {
+    console.log(`背压策略: ${policy}`);
+    this.audioQueue.setPolicy(policy);
+    this.updateBackpressure();
+  }
+
+  /**
+   * 等待积压（发送缓冲区和发送队列中的音频）降到阈值以下
+   *
+   * 用于可以快于实时发送的场景（如音频文件转写），发送速度由网络和服务器的接收速度决定，
+   * 发送队列不会因此达到上限。
+   */
+  async waitForSendCapacity(maxBufferedBytes: number = SEND_BUFFER_HIGH_WATERMARK): Promise<void> {
+    // 重连期间暂停，避免文件音频快速填满发送队列
+    while (
+      this.resumePending ||
+      (this.ws && this.ws.readyState === WebSocket.OPEN &&
+        this.ws.bufferedAmount + this.audioQueue.getPendingBytes() > maxBufferedBytes)
+    ) {
+      await new Promise<void>((resolve) => setTimeout(resolve, DRAIN_CHECK_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * 本次会话已发送（含缓存待发送）的音频时长（秒，按16kHz单声道Int16换算）
+   *
+   * 即下一个音频块在会话上行音频流中的位置；服务器返回的audio_start已换算到同一坐标。
+   */
+  getSentAudioSeconds(): number {
+    return this.audioQueue.getStreamBytes() / PCM_BYTES_PER_SECOND;
+  }
+
+  /**
+   * 连接健康状态（心跳往返时间、发送统计、缓冲区积压和端到端延迟），可通过useConnectionHealth订阅
+   */
+  getHealth(): ConnectionHealthSource {
+    return this.health;
+  }
+
+  /**
+   * 记录语音门控的结果，用于统计被跳过的音频帧
+   *
+   * @param captured 送入门控的音频帧数
+   * @param passed 门控放行（将要发送）的音频帧数，语音开始时包括补发的pre-roll
+   */
+  reportGateResult(captured: number, passed: number): void {
+    this.health.recordGateResult(captured, passed);
+  }
+
+  /**
+   * 通知服务器语音段开始/结束
+   *
+   * 边界与音频块在同一个发送队列中排队，积压或断线重连期间也按产生顺序送达，
+   * 服务器由此知道边界位于哪两个音频块之间。
+   */
+  sendSpeechBoundary(event: SpeechBoundaryEventType, channel?: AudioChannel): void {
+    if (!this.sessionId) {
+      console.warn(`WebSocket未连接，无法发送${event}`);
+      return;
+    }
+
+    // 排在之前送来、仍在编码的音频块之后
+    const sessionId = this.sessionId;
+    this.serializeEnqueue(() => {
+      if (this.sessionId !== sessionId) return;
+      this.audioQueue.enqueueBoundary(event, channel);
+      this.flushAudio();
+    }).catch(error => {
+      console.error(`发送${event}时出错:`, error);
+    });
+  }
+
+  updateConfig(language: string, model: string, targetLanguages?: string[]): void {
+    console.log(`更新配置: language=${language}, model=${model}, target_languages=${(targetLanguages || this.config.target_languages).join(',')}`);
     
     // 验证语言和模型是否有效
     const validLanguages = ['zh', 'en', 'ja', 'ko', 'fr', 'de', 'ru'];
@@ -403,8 +1027,8 @@ class AudioTranscriptionService {
     
     this.config.language = language;
     this.config.model = model;
-    if (target_language) {
-      this.config.target_language = target_language;
+    if (targetLanguages && targetLanguages.length > 0) {
+      this.config.target_languages = targetLanguages;
     }
     
     // 发送配置更新
@@ -420,6 +1044,7 @@ class AudioTranscriptionService {
    */
   async updateKeywords(keywords: string[]): Promise<boolean> {
     console.log(`更新关键词: ${keywords.join(', ')}`);
+    this.keywords = keywords;
     
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       console.error('WebSocket未连接，无法发送关键词');
@@ -427,40 +1052,18 @@ class AudioTranscriptionService {
     }
     
     try {
-      const message = {
-        event: 'keywords',
-        keywords: keywords
-      };
-      
-      console.log('发送关键词配置:', message);
-      this.ws.send(JSON.stringify(message));
+      console.log('发送关键词配置:', keywords);
+      this.ws.send(encodeClientMessage({ event: 'keywords', keywords }));
       
       // 等待配置确认
-      const result = await new Promise<boolean>((resolve) => {
-        const timeoutId = setTimeout(() => {
-          this.ws?.removeEventListener('message', messageHandler);
-          console.error('关键词配置发送超时');
-          resolve(false);
-        }, 5000);
-        
-        const messageHandler = (event: MessageEvent) => {
-          try {
-            const response = JSON.parse(event.data);
-            if (response.event === 'keywords_updated') {
-              clearTimeout(timeoutId);
-              this.ws?.removeEventListener('message', messageHandler);
-              console.log('关键词更新成功');
-              resolve(response.status === 'success');
-            }
-          } catch (error) {
-            console.error('处理关键词响应时出错:', error);
-          }
-        };
-        
-        this.ws?.addEventListener('message', messageHandler);
-      });
+      const ack = await this.waitForServerEvent(['keywords_updated'], 5000);
+      if (!ack) {
+        console.error('关键词配置发送超时');
+        return false;
+      }
       
-      return result;
+      console.log('关键词更新成功');
+      return ack.status === 'success';
     } catch (error) {
       console.error('发送关键词配置时出错:', error);
       return false;
@@ -546,19 +1149,21 @@ class AudioTranscriptionService {
     }
   }
 
+  /**
+   * 主动断开并结束会话（不再重连，丢弃缓存的音频）
+   */
   disconnect(): void {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
-    }
-    
-    this.isReconnecting = false;
+    this.clearReconnectTimer();
     this.reconnectAttempts = 0;
-
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    this.sessionId = null;
+    this.resumePending = false;
+    this.audioQueue.reset();
+    this.queueFull = false;
+    this.capturePaused = false;
+    this.closeOpusEncoders();
+    this.closeSocket();
+    this.stopHealthTimer();
+    this.health.setStatus('disconnected');
   }
 }
 
@@ -569,7 +1174,7 @@ export default audioTranscriptionService;
 
 // 扩展原有的创建WebSocket连接函数，添加对refined_text和translation的处理
 export const setupWebSocket = (
-  onTranscription: (text: string, refinedText?: string, translation?: string, timestamp?: number) => void,
+  onTranscription: (event: TranscriptionEvent) => void,
   onConnectionStatus: (status: boolean) => void,
   language: string = 'zh',
   model: string = 'tiny',
@@ -591,15 +1196,19 @@ export const setupWebSocket = (
     onConnectionStatus(true);
     
     // 发送配置信息
-    const config = {
+    const config = encodeClientMessage({
       event: 'config',
       config: {
         language,
-        model
+        model_type: model,
+        target_language: DEFAULT_TARGET_LANGUAGES[0],
+        target_languages: DEFAULT_TARGET_LANGUAGES,
+        audio_framing: ['raw'],
+        audio_codecs: ['pcm_s16le']
       }
-    };
-    console.log(`发送配置信息: ${JSON.stringify(config)}`);
-    ws.send(JSON.stringify(config));
+    });
+    console.log(`发送配置信息: ${config}`);
+    ws.send(config);
   };
   
   ws.onclose = () => {
@@ -616,46 +1225,43 @@ export const setupWebSocket = (
     // 添加原始消息日志，以便调试
     console.log(`接收到WebSocket消息 (原始): `, event.data);
     
+    let message: ServerEvent;
     try {
-      const message = JSON.parse(event.data);
+      message = parseServerEvent(event.data);
+    } catch (error) {
+      console.error('解析WebSocket消息时出错:', error);
+      return;
+    }
       
-      // 增强日志显示
-      console.log('%c接收到WebSocket消息', 'background: #4CAF50; color: white; padding: 4px 8px; border-radius: 4px;');
-      console.log('类型:', message.event);
-      console.log('内容:', message);
+    // 增强日志显示
+    console.log('%c接收到WebSocket消息', 'background: #4CAF50; color: white; padding: 4px 8px; border-radius: 4px;');
+    console.log('类型:', message.event);
+    console.log('内容:', message);
+    
+    if (message.event === 'connected') {
+      // 保存客户端ID
+      if (message.clientId) {
+        console.log(`保存客户端ID: ${message.clientId}`);
+        localStorage.setItem('ws_client_id', message.clientId);
+      }
+      onConnectionStatus(true);
+    } 
+    else if (message.event === 'transcription') {
+      // 收到转写结果
+      console.log('%c收到转写结果', 'background: #2196F3; color: white; padding: 4px 8px; border-radius: 4px;');
+      console.log('文本:', message.text);
+      console.log('优化文本:', message.refinedText || '(无)');
+      console.log('翻译:', message.translation || '(无)');
+      console.log('时间戳:', message.timestamp || '(无)');
       
-      if (message.event === 'connected') {
-        // 保存客户端ID
-        if (message.client_id) {
-          console.log(`保存客户端ID: ${message.client_id}`);
-          localStorage.setItem('ws_client_id', message.client_id);
-        }
-        onConnectionStatus(true);
-      } 
-      else if (message.event === 'transcription') {
-        // 收到转写结果
-        console.log('%c收到转写结果', 'background: #2196F3; color: white; padding: 4px 8px; border-radius: 4px;');
-        console.log('文本:', message.text);
-        console.log('优化文本:', message.refined_text || '(无)');
-        console.log('翻译:', message.translation || '(无)');
-        console.log('时间戳:', message.timestamp || '(无)');
-        
-        if (message.text && typeof onTranscription === 'function') {
-          try {
-            onTranscription(
-              message.text, 
-              message.refined_text, 
-              message.translation,
-              message.timestamp
-            );
-            console.log('成功调用转写回调函数');
-          } catch (err) {
-            console.error('调用转写回调函数时出错:', err);
-          }
+      if (message.text && typeof onTranscription === 'function') {
+        try {
+          onTranscription(fillPrimaryTranslation(message, DEFAULT_TARGET_LANGUAGES));
+          console.log('成功调用转写回调函数');
+        } catch (err) {
+          console.error('调用转写回调函数时出错:', err);
         }
       }
-    } catch (error) {
-      console.error('解析WebSocket消息时出错:', error);
     }
   };
   
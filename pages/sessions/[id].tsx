@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Header from '../../components/Header';
+import TranscriptionDisplay from '../../components/TranscriptionDisplay';
+import {
+  StoredSession,
+  getSession,
+  getSessionRecording,
+  updateSession,
+  saveSessionItems
+} from '../../lib/sessionStorage';
+import { SpeakerNames } from '../../lib/transcriptionTypes';
+import { TranscriptStore, TranscriptStoreContext, createTranscriptStore } from '../../lib/transcriptStore';
+import { getLanguageLabel } from '../../lib/translations';
+
+const SessionDetailPage: React.FC = () => {
+  const router = useRouter();
+  const { id } = router.query;
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const [store, setStore] = useState<TranscriptStore | null>(null);
+  const [recording, setRecording] = useState<Blob | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (typeof id !== 'string') return;
+
+    const loadSession = async () => {
+      setIsLoading(true);
+      setError('');
+      try {
+        const result = await getSession(id);
+        if (!result) {
+          setError('会话不存在或已被删除');
+          return;
+        }
+        setSession(result.session);
+        setStore(createTranscriptStore(result.items));
+        setRecording(await getSessionRecording(id));
+      } catch (err) {
+        console.error('加载会话失败:', err);
+        setError(err instanceof Error ? err.message : '加载会话失败');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSession();
+  }, [id]);
+
+  // 保存重命名后的说话人名称
+  const handleSpeakerNamesChange = async (speakerNames: SpeakerNames) => {
+    if (!session) return;
+    try {
+      await updateSession(session.id, { speakerNames });
+    } catch (err) {
+      console.error('保存说话人名称失败:', err);
+      alert(`保存说话人名称失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // 保存人工编辑：编辑只会替换被修改的条目对象，只写入这些条目
+  useEffect(() => {
+    if (!session || !store) return;
+    let saved = store.getItems();
+
+    return store.subscribe(() => {
+      const nextItems = store.getItems();
+      const changedItems = nextItems
+        .map((item, order) => ({ item, order }))
+        .filter(({ item, order }) => item !== saved[order]);
+      saved = nextItems;
+      if (changedItems.length === 0) return;
+
+      const preview = nextItems.length > 0 ? nextItems[0].text : '';
+      saveSessionItems(session.id, changedItems, [], nextItems.length, preview).catch(err => {
+        console.error('保存编辑失败:', err);
+        alert(`保存编辑失败: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    });
+  }, [session, store]);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Head>
+        <title>{session ? `${session.title} - ` : ''}历史会话 - 实时语音转写系统</title>
+        <meta name="description" content="查看历史转写会话" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl flex-grow">
+        <div className="mb-4">
+          <Link href="/sessions">
+            <span className="text-sm text-primary-600 dark:text-primary-400 hover:underline">← 返回会话列表</span>
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 dark:text-gray-400">加载中...</p>
+        ) : error ? (
+          <p className="text-center text-red-600 dark:text-red-400">{error}</p>
+        ) : session && store && (
+          <>
+            <h1 className="text-3xl font-bold mb-2 text-gray-800 dark:text-white">{session.title}</h1>
+            <div className="mb-6 text-sm text-gray-500 dark:text-gray-400 space-x-4">
+              <span>创建于 {session.createdAt.toLocaleString()}</span>
+              <span>语言: {session.config.language}</span>
+              <span>模型: {session.config.model}</span>
+              <span>翻译目标: {session.config.targetLanguages.map(getLanguageLabel).join('、')}</span>
+              {session.config.keywords.length > 0 && (
+                <span>关键词: {session.config.keywords.join(', ')}</span>
+              )}
+            </div>
+
+            <TranscriptStoreContext.Provider value={store}>
+              <TranscriptionDisplay
+                isRecording={false}
+                readOnly
+                initialSummary={session.summary}
+                startTime={session.createdAt}
+                title={session.title}
+                config={session.config}
+                initialSpeakerNames={session.speakerNames}
+                onSpeakerNamesChange={handleSpeakerNamesChange}
+                recording={recording}
+              />
+            </TranscriptStoreContext.Provider>
+          </>
+        )}
+      </main>
+
+      <footer className="py-6 border-t border-gray-200 dark:border-gray-800">
+        <div className="container mx-auto px-4 text-center text-gray-500 dark:text-gray-400">
+          <p>© {new Date().getFullYear()} 实时语音转写系统 | 基于FastAPI和Next.js开发</p>
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default SessionDetailPage;
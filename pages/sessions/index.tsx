@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Header from '../../components/Header';
+import { StoredSession, searchSessions, renameSession, deleteSession, importSession } from '../../lib/sessionStorage';
+import { parseSessionJson } from '../../lib/sessionExport';
+
+const SessionsPage: React.FC = () => {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState<string>('');
+
+  // 加载（或搜索）会话列表
+  const loadSessions = useCallback(async (keyword: string) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setSessions(await searchSessions(keyword));
+    } catch (err) {
+      console.error('加载会话列表失败:', err);
+      setError(err instanceof Error ? err.message : '加载会话列表失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // 输入搜索词后稍作延迟再查询
+  useEffect(() => {
+    const timer = setTimeout(() => loadSessions(query), 300);
+    return () => clearTimeout(timer);
+  }, [query, loadSessions]);
+
+  const startRename = (session: StoredSession) => {
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const confirmRename = async () => {
+    if (!editingId) return;
+    const title = editingTitle.trim();
+    if (title) {
+      try {
+        await renameSession(editingId, title);
+        await loadSessions(query);
+      } catch (err) {
+        console.error('重命名会话失败:', err);
+        setError('重命名会话失败');
+      }
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: StoredSession) => {
+    if (!window.confirm(`确定要删除「${session.title}」吗？此操作无法撤销。`)) return;
+    try {
+      await deleteSession(session.id);
+      await loadSessions(query);
+    } catch (err) {
+      console.error('删除会话失败:', err);
+      setError('删除会话失败');
+    }
+  };
+
+  // 导入JSON会话文件并打开查看
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      const data = parseSessionJson(await file.text());
+      const session = await importSession({
+        title: data.title,
+        createdAt: data.startedAt || data.items[0]?.timestamp || new Date(),
+        config: data.config,
+        summary: data.summary,
+        items: data.items,
+        speakerNames: data.speakerNames
+      });
+      router.push(`/sessions/${session.id}`);
+    } catch (err) {
+      console.error('导入会话失败:', err);
+      setError(`导入失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Head>
+        <title>历史会话 - 实时语音转写系统</title>
+        <meta name="description" content="浏览和管理历史转写会话" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl flex-grow">
+        <h1 className="text-4xl font-bold text-center mb-8 text-gray-800 dark:text-white">
+          历史会话
+        </h1>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+          <div className="flex space-x-2 mb-4">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜索会话标题、总结或转写内容"
+              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 bg-primary-500 text-white rounded-md hover:bg-primary-600 transition-colors"
+            >
+              导入JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+
+          {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {isLoading ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">加载中...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              {query ? '没有匹配的会话' : '暂无历史会话，开始录音后会自动保存'}
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sessions.map(session => (
+                <li key={session.id} className="py-4 flex items-start justify-between">
+                  <div className="flex-1 min-w-0 mr-4">
+                    {editingId === session.id ? (
+                      <input
+                        type="text"
+                        value={editingTitle}
+                        autoFocus
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onBlur={confirmRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') confirmRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                      />
+                    ) : (
+                      <Link href={`/sessions/${session.id}`}>
+                        <span className="text-lg font-medium text-primary-600 dark:text-primary-400 hover:underline">
+                          {session.title}
+                        </span>
+                      </Link>
+                    )}
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      创建于 {session.createdAt.toLocaleString()} · 共 {session.itemCount} 条 · 语言 {session.config.language}
+                    </div>
+                    {session.summary?.topic && (
+                      <div className="text-sm text-gray-700 dark:text-gray-300 mt-1">主题: {session.summary.topic}</div>
+                    )}
+                    {session.preview && (
+                      <div className="text-sm text-gray-500 dark:text-gray-400 mt-1 truncate">{session.preview}</div>
+                    )}
+                  </div>
+                  <div className="flex space-x-2 shrink-0">
+                    <button
+                      onClick={() => startRename(session)}
+                      className="px-3 py-1 text-sm rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                    >
+                      重命名
+                    </button>
+                    <button
+                      onClick={() => handleDelete(session)}
+                      className="px-3 py-1 text-sm rounded-md bg-red-500 text-white hover:bg-red-600"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+
+      <footer className="py-6 border-t border-gray-200 dark:border-gray-800">
+        <div className="container mx-auto px-4 text-center text-gray-500 dark:text-gray-400">
+          <p>© {new Date().getFullYear()} 实时语音转写系统 | 基于FastAPI和Next.js开发</p>
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default SessionsPage;
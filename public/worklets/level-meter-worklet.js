@@ -0,0 +1,39 @@
+// 电平表AudioWorklet
+// 在音频线程中统计输入的RMS，定期把0-1范围的电平发送给主线程，用于显示各音源的音量表
+
+// 电平的上报间隔（毫秒）
+const LEVEL_INTERVAL_MS = 50;
+
+class LevelMeterWorklet extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this._levelFrames = Math.round(sampleRate * LEVEL_INTERVAL_MS / 1000);
+    this._count = 0;
+    this._sumSquares = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input || input.length === 0) {
+      return true;
+    }
+
+    for (let i = 0; i < input.length; i++) {
+      this._sumSquares += input[i] * input[i];
+    }
+    this._count += input.length;
+
+    if (this._count >= this._levelFrames) {
+      const rms = Math.sqrt(this._sumSquares / this._count);
+      // 与PCM编码worklet相同的换算，开方使电平显示更接近人耳感知
+      this.port.postMessage({ type: 'level', level: Math.min(1, Math.sqrt(rms)) });
+      this._count = 0;
+      this._sumSquares = 0;
+    }
+
+    return true;
+  }
+}
+
+// 注册处理器
+registerProcessor('LevelMeterWorklet', LevelMeterWorklet);
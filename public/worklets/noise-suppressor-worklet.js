@@ -1,70 +1,127 @@
-// 导入polyfills（如果AudioWorklet环境中需要）
-// 注意：在AudioWorklet环境中，一些全局对象可能不可用
+// RNNoise降噪AudioWorklet
+// rnnoise/目录下的文件由scripts/copy-rnnoise.js从@timephy/rnnoise-wasm复制而来
+// polyfills提供AudioWorklet环境中缺少的atob和self.location
+import './rnnoise/polyfills.js';
+import RnnoiseProcessor from './rnnoise/RnnoiseProcessor.js';
+import createRNNWasmModuleSync from './rnnoise/rnnoise-sync.js';
+
+// AudioWorklet每次处理128个采样，RNNoise每帧需要480个采样
+const RNNOISE_FRAME_SIZE = 480;
+// 输出缓冲容量：128与480的最小公倍数，足够容纳处理延迟
+const OUTPUT_BUFFER_SIZE = 1920;
 
 // NoiseSuppressorWorklet类定义
 class NoiseSuppressorWorklet extends AudioWorkletProcessor {
   constructor() {
     super();
-    this._initialized = false;
-    this._init();
-    
+    this._processor = null;
+
+    // 输入帧缓冲：凑满480个采样后交给RNNoise
+    this._frame = new Float32Array(RNNOISE_FRAME_SIZE);
+    this._frameLength = 0;
+
+    // 输出环形缓冲：保存已降噪、尚未输出的采样
+    this._output = new Float32Array(OUTPUT_BUFFER_SIZE);
+    this._outputRead = 0;
+    this._outputWrite = 0;
+    this._outputCount = 0;
+
     // 处理来自主线程的消息
     this.port.onmessage = (event) => {
-      if (event.data.type === 'init') {
-        console.log('[NoiseSuppressorWorklet] 初始化消息已接收');
+      if (event.data.type === 'destroy') {
+        this._destroy();
       }
     };
+
+    this._init();
   }
-  
-  async _init() {
+
+  _init() {
     try {
-      console.log('[NoiseSuppressorWorklet] 正在初始化');
-      // 在真实实现中，这里会加载RNNoise WASM模块并创建处理器
-      // 由于我们无法直接在Worklet中访问RNNoise库，这里简化处理
-      this._initialized = true;
+      console.log('[NoiseSuppressorWorklet] 正在加载RNNoise WASM模块');
+      // WASM模块必须同步加载，addModule()不会等待AudioWorkletGlobalScope中的Promise
+      this._processor = new RnnoiseProcessor(createRNNWasmModuleSync());
+      this.port.postMessage({ type: 'ready' });
       console.log('[NoiseSuppressorWorklet] 初始化完成');
     } catch (error) {
+      // 加载失败时直接传递音频，由主线程决定是否回退
       console.error('[NoiseSuppressorWorklet] 初始化失败:', error);
+      this._processor = null;
+      this.port.postMessage({ type: 'error', message: String(error && error.message || error) });
+    }
+  }
+
+  _destroy() {
+    if (this._processor) {
+      this._processor.destroy();
+      this._processor = null;
+    }
+  }
+
+  // 将一帧已降噪的采样写入输出环形缓冲
+  _writeOutput(frame) {
+    for (let i = 0; i < frame.length; i++) {
+      this._output[this._outputWrite] = frame[i];
+      this._outputWrite = (this._outputWrite + 1) % OUTPUT_BUFFER_SIZE;
     }
+    this._outputCount += frame.length;
   }
-  
+
+  // 从输出环形缓冲读取采样；数据不足时（刚启动）输出静音
+  _readOutput(target) {
+    if (this._outputCount < target.length) {
+      target.fill(0);
+      return;
+    }
+    for (let i = 0; i < target.length; i++) {
+      target[i] = this._output[this._outputRead];
+      this._outputRead = (this._outputRead + 1) % OUTPUT_BUFFER_SIZE;
+    }
+    this._outputCount -= target.length;
+  }
+
   process(inputs, outputs) {
     // 确保有音频输入
     if (inputs.length === 0 || inputs[0].length === 0) {
       return true;
     }
-    
+
     const input = inputs[0][0];  // 获取第一个输入通道
     const output = outputs[0][0]; // 获取第一个输出通道
-    
+
     if (!input || !output) {
       return true;
     }
-    
-    // 如果尚未初始化，则直接传递音频
-    if (!this._initialized) {
-      for (let i = 0; i < input.length; i++) {
-        output[i] = input[i];
-      }
+
+    // 未能加载RNNoise时直接传递音频
+    if (!this._processor) {
+      output.set(input);
       return true;
     }
-    
-    // 这里执行简单的噪音抑制 - 实际应用中应使用RNNoise算法
-    // 目前我们实现一个简单的噪声门控，对小信号进行衰减
-    const NOISE_THRESHOLD = 0.01;
-    for (let i = 0; i < input.length; i++) {
-      // 简单噪声门控
-      if (Math.abs(input[i]) < NOISE_THRESHOLD) {
-        output[i] = 0; // 低于阈值的信号设为0
-      } else {
-        output[i] = input[i]; // 保留高于阈值的信号
+
+    // 把128采样的输入拼接成480采样的RNNoise帧
+    let offset = 0;
+    while (offset < input.length) {
+      const count = Math.min(RNNOISE_FRAME_SIZE - this._frameLength, input.length - offset);
+      this._frame.set(input.subarray(offset, offset + count), this._frameLength);
+      this._frameLength += count;
+      offset += count;
+
+      if (this._frameLength === RNNOISE_FRAME_SIZE) {
+        // 原地降噪，并返回该帧的语音概率
+        const probability = this._processor.processAudioFrame(this._frame, true);
+        this.port.postMessage({ type: 'vad', probability });
+        this._writeOutput(this._frame);
+        this._frameLength = 0;
       }
     }
-    
+
+    this._readOutput(output);
+
     // 返回true以保持处理器活动
     return true;
   }
 }
 
 // 注册处理器
-registerProcessor('NoiseSuppressorWorklet', NoiseSuppressorWorklet); 
\ No newline at end of file
+registerProcessor('NoiseSuppressorWorklet', NoiseSuppressorWorklet);
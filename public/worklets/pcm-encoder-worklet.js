@@ -0,0 +1,217 @@
+// PCM编码AudioWorklet
+// 在音频线程中完成：抗混叠低通 -> 重采样到目标采样率（默认16kHz） -> Float32转Int16 -> 按固定时长分块
+// 每个块连同峰值/RMS统计一起发送给主线程（或通过connect消息指定的端口发送给VAD Worker），主线程不再需要遍历采样
+
+// 音量电平的上报间隔（毫秒）
+const LEVEL_INTERVAL_MS = 50;
+
+// 抗混叠低通滤波器：截止频率为目标奈奎斯特频率的7/8（16kHz时为7kHz），Blackman窗sinc FIR
+const ANTI_ALIAS_CUTOFF_RATIO = 0.4375;
+const ANTI_ALIAS_TAPS = 63;
+
+// 设计归一化截止频率为cutoff（相对输入采样率）的低通FIR系数，直流增益为1
+function designLowPass(cutoff, taps) {
+  const coefficients = new Float32Array(taps);
+  const center = (taps - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < taps; i++) {
+    const n = i - center;
+    const sinc = n === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * n) / (Math.PI * n);
+    const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * i / (taps - 1)) + 0.08 * Math.cos(4 * Math.PI * i / (taps - 1));
+    coefficients[i] = sinc * window;
+    sum += coefficients[i];
+  }
+  for (let i = 0; i < taps; i++) {
+    coefficients[i] /= sum;
+  }
+  return coefficients;
+}
+
+class PcmEncoderWorklet extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const processorOptions = (options && options.processorOptions) || {};
+
+    this._targetSampleRate = processorOptions.targetSampleRate || 16000;
+    this._ratio = sampleRate / this._targetSampleRate;
+
+    // 重采样状态：_position为下一个输出采样在当前输入块中的位置（可能为-1到0之间，表示上一块的最后一个采样）
+    this._position = 0;
+    this._lastSample = 0;
+
+    // 降采样前先低通滤波，避免目标奈奎斯特频率以上的成分混叠到语音频段；升采样时不需要
+    this._filterTaps = this._ratio > 1
+      ? designLowPass(this._targetSampleRate * ANTI_ALIAS_CUTOFF_RATIO / sampleRate, ANTI_ALIAS_TAPS)
+      : null;
+    // 滤波历史保存两份，卷积时不需要取模
+    this._filterHistory = this._filterTaps ? new Float32Array(ANTI_ALIAS_TAPS * 2) : null;
+    this._filterIndex = 0;
+    this._filtered = null;
+
+    this._setChunkDuration(processorOptions.chunkDurationMs || 250);
+
+    // 音频块的接收端口，默认发送给主线程
+    this._chunkPort = this.port;
+
+    // 暂停采集时不再产生音频块（仍上报音量电平）
+    this._paused = false;
+
+    // 音量电平统计（基于原始输入）
+    this._levelFrames = Math.round(sampleRate * LEVEL_INTERVAL_MS / 1000);
+    this._levelCount = 0;
+    this._levelSumSquares = 0;
+
+    // 处理来自主线程的消息
+    this.port.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === 'connect') {
+        this._chunkPort = message.port;
+      } else if (message.type === 'configure') {
+        // 先把已有数据发出，再按新时长分块
+        this._emitChunk();
+        this._setChunkDuration(message.chunkDurationMs);
+      } else if (message.type === 'pause') {
+        this._setPaused(message.paused);
+      } else if (message.type === 'flush') {
+        this._emitChunk();
+        // 与音频块走同一端口，保证flushed在最后一个块之后到达
+        this._chunkPort.postMessage({ type: 'flushed' });
+      }
+    };
+  }
+
+  _setChunkDuration(chunkDurationMs) {
+    this._chunkDurationMs = chunkDurationMs;
+    this._chunkSamples = Math.round(this._targetSampleRate * chunkDurationMs / 1000);
+    this._resetChunk();
+  }
+
+  // 暂停时丢弃未发出的部分块和重采样状态，恢复后从新的输入重新开始
+  _setPaused(paused) {
+    if (paused === this._paused) return;
+    this._paused = paused;
+    if (paused) {
+      this._resetChunk();
+      this._position = 0;
+      this._lastSample = 0;
+      if (this._filterHistory) this._filterHistory.fill(0);
+    }
+  }
+
+  _resetChunk() {
+    this._chunk = new Int16Array(this._chunkSamples);
+    this._chunkLength = 0;
+    this._chunkPeak = 0;
+    this._chunkSumSquares = 0;
+  }
+
+  // 将当前块发送给主线程（ArrayBuffer以transfer方式传递，不产生拷贝）
+  _emitChunk() {
+    if (this._chunkLength === 0) return;
+
+    const length = this._chunkLength;
+    const samples = length === this._chunk.length ? this._chunk : this._chunk.slice(0, length);
+    this._chunkPort.postMessage({
+      type: 'chunk',
+      buffer: samples.buffer,
+      peak: this._chunkPeak,
+      rms: Math.sqrt(this._chunkSumSquares / length),
+      durationMs: length * 1000 / this._targetSampleRate
+    }, [samples.buffer]);
+
+    this._resetChunk();
+  }
+
+  _pushSample(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    const int16 = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    this._chunk[this._chunkLength++] = int16;
+
+    const abs = Math.abs(int16);
+    if (abs > this._chunkPeak) this._chunkPeak = abs;
+    this._chunkSumSquares += int16 * int16;
+
+    if (this._chunkLength >= this._chunkSamples) {
+      this._emitChunk();
+    }
+  }
+
+  _updateLevel(input) {
+    for (let i = 0; i < input.length; i++) {
+      this._levelSumSquares += input[i] * input[i];
+    }
+    this._levelCount += input.length;
+
+    if (this._levelCount >= this._levelFrames) {
+      const rms = Math.sqrt(this._levelSumSquares / this._levelCount);
+      // 开方使电平显示更接近人耳感知
+      this.port.postMessage({ type: 'level', level: Math.min(1, Math.sqrt(rms)) });
+      this._levelCount = 0;
+      this._levelSumSquares = 0;
+    }
+  }
+
+  // 对输入块做低通滤波，返回滤波后的采样（复用同一个缓冲区）
+  _lowPass(input) {
+    const taps = this._filterTaps;
+    if (!taps) return input;
+
+    if (!this._filtered || this._filtered.length !== input.length) {
+      this._filtered = new Float32Array(input.length);
+    }
+    const history = this._filterHistory;
+    const tapCount = taps.length;
+    for (let i = 0; i < input.length; i++) {
+      // 最新的采样放在_filterIndex，更早的采样依次在其后
+      this._filterIndex = this._filterIndex === 0 ? tapCount - 1 : this._filterIndex - 1;
+      const index = this._filterIndex;
+      history[index] = input[i];
+      history[index + tapCount] = input[i];
+      let sum = 0;
+      for (let k = 0; k < tapCount; k++) {
+        sum += taps[k] * history[index + k];
+      }
+      this._filtered[i] = sum;
+    }
+    return this._filtered;
+  }
+
+  process(inputs) {
+    // 确保有音频输入
+    if (inputs.length === 0 || inputs[0].length === 0) {
+      return true;
+    }
+
+    const input = inputs[0][0]; // 获取第一个输入通道
+    if (!input || input.length === 0) {
+      return true;
+    }
+
+    this._updateLevel(input);
+    if (this._paused) {
+      return true;
+    }
+
+    const samples = this._lowPass(input);
+
+    // 线性插值重采样
+    const lastIndex = samples.length - 1;
+    let position = this._position;
+    while (position < lastIndex) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const current = index < 0 ? this._lastSample : samples[index];
+      const next = samples[index + 1];
+      this._pushSample(current + (next - current) * fraction);
+      position += this._ratio;
+    }
+    this._position = position - samples.length;
+    this._lastSample = samples[lastIndex];
+
+    // 返回true以保持处理器活动
+    return true;
+  }
+}
+
+// 注册处理器
+registerProcessor('PcmEncoderWorklet', PcmEncoderWorklet);
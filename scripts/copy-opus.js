@@ -0,0 +1,27 @@
+// 将@evan/opus中的libopus WASM复制到public/opus/
+// 浏览器不支持WebCodecs音频编码时，Opus编码器从该URL加载WASM
+// 在npm install之后以及dev/build之前自动运行
+
+const fs = require('fs');
+const path = require('path');
+
+const sourceDir = path.join(__dirname, '..', 'node_modules', '@evan', 'opus', 'wasm');
+const targetDir = path.join(__dirname, '..', 'public', 'opus');
+
+// [源文件, 目标文件名]
+const files = [
+  ['opus.wasm', 'opus.wasm'],
+];
+
+if (!fs.existsSync(sourceDir)) {
+  console.warn('未找到@evan/opus，跳过复制Opus WASM文件');
+  process.exit(0);
+}
+
+fs.mkdirSync(targetDir, { recursive: true });
+
+files.forEach(([source, target]) => {
+  fs.copyFileSync(path.join(sourceDir, source), path.join(targetDir, target));
+});
+
+console.log(`Opus WASM文件已复制到 ${path.relative(process.cwd(), targetDir)}`);
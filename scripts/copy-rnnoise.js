@@ -0,0 +1,29 @@
+// 将@timephy/rnnoise-wasm中降噪worklet需要的文件复制到public/worklets/rnnoise/
+// AudioWorklet只能通过URL加载模块，无法直接引用node_modules中的文件
+// 在npm install之后以及dev/build之前自动运行
+
+const fs = require('fs');
+const path = require('path');
+
+const sourceDir = path.join(__dirname, '..', 'node_modules', '@timephy', 'rnnoise-wasm', 'dist');
+const targetDir = path.join(__dirname, '..', 'public', 'worklets', 'rnnoise');
+
+// [源文件, 目标文件名]
+const files = [
+  ['polyfills.js', 'polyfills.js'],
+  ['RnnoiseProcessor.js', 'RnnoiseProcessor.js'],
+  [path.join('generated', 'rnnoise-sync.js'), 'rnnoise-sync.js'],
+];
+
+if (!fs.existsSync(sourceDir)) {
+  console.warn('未找到@timephy/rnnoise-wasm，跳过复制RNNoise文件');
+  process.exit(0);
+}
+
+fs.mkdirSync(targetDir, { recursive: true });
+
+files.forEach(([source, target]) => {
+  fs.copyFileSync(path.join(sourceDir, source), path.join(targetDir, target));
+});
+
+console.log(`RNNoise文件已复制到 ${path.relative(process.cwd(), targetDir)}`);